@@ -1,11 +1,13 @@
 import { ReactNode } from 'react';
-import { Activity, BarChart3, TrendingUp, Zap } from 'lucide-react';
-import { ScanMode, SCAN_MODE_LABELS, SavedScanProfile, WatchlistItem, ScanHistoryEntry } from '@/lib/types';
+import { Activity, BarChart3, Sunrise, TrendingUp, Zap } from 'lucide-react';
+import { ScanMode, SCAN_MODE_LABELS, SavedScanProfile, WatchlistItem, ScanHistoryEntry, ScoringModel, CustomUniverse, ScanDiagnostics } from '@/lib/types';
 import { SavedScansPanel } from '@/components/scan/SavedScansPanel';
+import { CustomUniversesPanel } from '@/components/scan/CustomUniversesPanel';
 import { WatchlistPanel } from '@/components/scan/WatchlistPanel';
 import { ScanHistoryPanel } from '@/components/scan/ScanHistoryPanel';
 import { SettingsPanel } from '@/components/system/SettingsPanel';
 import { EngineStatus } from '@/components/system/EngineStatus';
+import { MarketStatus } from '@/components/system/MarketStatus';
 import { cn } from '@/lib/utils';
 
 interface AppShellProps {
@@ -15,14 +17,23 @@ interface AppShellProps {
   savedScans: SavedScanProfile[];
   onLoadProfile: (profile: SavedScanProfile) => void;
   onDeleteProfile: (id: string) => void;
+  customUniverses: CustomUniverse[];
+  activeUniverseId: string | null;
+  onSelectUniverse: (id: string | null) => void;
+  onCreateUniverse: (universe: CustomUniverse) => void;
+  onDeleteUniverse: (id: string) => void;
   watchlist: WatchlistItem[];
   onSelectWatchlistItem: (item: WatchlistItem) => void;
   onRemoveWatchlistItem: (id: string) => void;
   scanHistory: ScanHistoryEntry[];
+  scoringModel: ScoringModel;
+  onScoringModelChange: (model: ScoringModel) => void;
+  diagnostics?: ScanDiagnostics | null;
 }
 
 const SCAN_MODE_ICONS: Record<ScanMode, typeof Activity> = {
   'unified': Activity,
+  'extended-hours': Sunrise,
 };
 
 export function AppShell({ 
@@ -32,10 +43,18 @@ export function AppShell({
   savedScans,
   onLoadProfile,
   onDeleteProfile,
+  customUniverses,
+  activeUniverseId,
+  onSelectUniverse,
+  onCreateUniverse,
+  onDeleteUniverse,
   watchlist,
   onSelectWatchlistItem,
   onRemoveWatchlistItem,
   scanHistory,
+  scoringModel,
+  onScoringModelChange,
+  diagnostics,
 }: AppShellProps) {
   return (
     <div className="flex min-h-screen w-full bg-background">
@@ -90,6 +109,19 @@ export function AppShell({
             />
           </div>
 
+          <div className="mt-8 pt-8 border-t border-sidebar-border">
+            <p className="px-3 py-2 text-xs font-semibold text-sidebar-foreground/60 uppercase tracking-wider">
+              Universes
+            </p>
+            <CustomUniversesPanel
+              universes={customUniverses}
+              activeUniverseId={activeUniverseId}
+              onSelectUniverse={onSelectUniverse}
+              onCreateUniverse={onCreateUniverse}
+              onDeleteUniverse={onDeleteUniverse}
+            />
+          </div>
+
           <div className="mt-8 pt-8 border-t border-sidebar-border">
             <p className="px-3 py-2 text-xs font-semibold text-sidebar-foreground/60 uppercase tracking-wider">
               Scan History
@@ -98,7 +130,10 @@ export function AppShell({
           </div>
 
           <div className="mt-8 pt-8 border-t border-sidebar-border">
-            <SettingsPanel />
+            <SettingsPanel
+              scoringModel={scoringModel}
+              onScoringModelChange={onScoringModelChange}
+            />
           </div>
         </nav>
 
@@ -123,11 +158,8 @@ export function AppShell({
               </p>
             </div>
             <div className="flex items-center gap-3">
-              <EngineStatus />
-              <div className="text-right">
-                <p className="text-xs text-muted-foreground">Market Status</p>
-                <p className="text-sm font-semibold text-success">Live</p>
-              </div>
+              <EngineStatus diagnostics={diagnostics} />
+              <MarketStatus />
             </div>
           </div>
         </header>
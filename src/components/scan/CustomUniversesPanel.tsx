@@ -0,0 +1,186 @@
+import { ChangeEvent, useState } from 'react';
+import { CustomUniverse } from '@/lib/types';
+import { parseTickerList } from '@/lib/universe';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { X, Upload, Check } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface CustomUniversesPanelProps {
+  universes: CustomUniverse[];
+  activeUniverseId: string | null;
+  onSelectUniverse: (id: string | null) => void;
+  onCreateUniverse: (universe: CustomUniverse) => void;
+  onDeleteUniverse: (id: string) => void;
+}
+
+/**
+ * Custom Universes Panel
+ *
+ * Lists user-defined ticker lists and imports new ones from pasted text or a
+ * CSV file. Clicking a list makes it the active scan universe; clicking it
+ * again returns to the default universe.
+ */
+export function CustomUniversesPanel({
+  universes,
+  activeUniverseId,
+  onSelectUniverse,
+  onCreateUniverse,
+  onDeleteUniverse,
+}: CustomUniversesPanelProps) {
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [text, setText] = useState('');
+
+  const tickers = parseTickerList(text);
+
+  const resetImport = () => {
+    setName('');
+    setText('');
+  };
+
+  const handleFileChange = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setText(await file.text());
+    if (!name) setName(file.name.replace(/\.[^.]+$/, ''));
+    e.target.value = '';
+  };
+
+  const handleCreate = () => {
+    if (!name.trim() || tickers.length === 0) return;
+    onCreateUniverse({
+      id: crypto.randomUUID?.() ?? `universe-${Date.now()}`,
+      name: name.trim(),
+      tickers,
+      createdAt: new Date().toISOString(),
+    });
+    resetImport();
+    setIsImportOpen(false);
+  };
+
+  return (
+    <div className="space-y-1">
+      {universes.length === 0 && (
+        <div className="px-3 py-2">
+          <p className="text-xs text-sidebar-foreground/50 italic">
+            Scanning the default universe
+          </p>
+        </div>
+      )}
+
+      {universes.map((universe) => {
+        const isActive = universe.id === activeUniverseId;
+        return (
+          <div
+            key={universe.id}
+            className={cn(
+              'group relative flex items-start gap-2 px-3 py-2 rounded-lg cursor-pointer transition-colors',
+              isActive ? 'bg-sidebar-accent' : 'hover:bg-sidebar-accent/50'
+            )}
+            onClick={() => onSelectUniverse(isActive ? null : universe.id)}
+          >
+            <div className="flex-1 min-w-0">
+              <div className="flex items-center gap-1.5">
+                {isActive && <Check className="w-3 h-3 text-sidebar-primary flex-shrink-0" />}
+                <p className="text-sm font-medium text-sidebar-foreground truncate">
+                  {universe.name}
+                </p>
+              </div>
+              <div className="flex items-center gap-2 mt-0.5">
+                <Badge variant="outline" className="text-xs px-1.5 py-0">
+                  {universe.tickers.length} tickers
+                </Badge>
+              </div>
+              <p className="text-xs text-sidebar-foreground/60 mt-1 truncate">
+                {universe.tickers.slice(0, 6).join(', ')}
+                {universe.tickers.length > 6 ? ', …' : ''}
+              </p>
+            </div>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6 opacity-0 group-hover:opacity-100 transition-opacity"
+              onClick={(e) => {
+                e.stopPropagation();
+                onDeleteUniverse(universe.id);
+              }}
+            >
+              <X className="w-3 h-3" />
+            </Button>
+          </div>
+        );
+      })}
+
+      <Button
+        variant="ghost"
+        size="sm"
+        className="w-full justify-start text-sidebar-foreground/80"
+        onClick={() => setIsImportOpen(true)}
+      >
+        <Upload className="w-4 h-4 mr-2" />
+        Import ticker list
+      </Button>
+
+      <Dialog
+        open={isImportOpen}
+        onOpenChange={(open) => {
+          setIsImportOpen(open);
+          if (!open) resetImport();
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Import Ticker List</DialogTitle>
+            <DialogDescription>
+              Paste tickers separated by commas, spaces or new lines, or load a CSV with a symbol column.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="universe-name">Name</Label>
+              <Input
+                id="universe-name"
+                placeholder="e.g. Biotech catalysts"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="universe-tickers">Tickers</Label>
+              <Textarea
+                id="universe-tickers"
+                placeholder="MRNA, CRSP, RXRX"
+                rows={6}
+                value={text}
+                onChange={(e) => setText(e.target.value)}
+              />
+              <div className="flex items-center justify-between">
+                <Input type="file" accept=".csv,.txt,text/csv,text/plain" className="max-w-[220px]" onChange={handleFileChange} />
+                <span className="text-xs text-muted-foreground">{tickers.length} valid tickers</span>
+              </div>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button onClick={handleCreate} disabled={!name.trim() || tickers.length === 0}>
+              Save Universe
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
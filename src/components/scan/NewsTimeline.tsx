@@ -0,0 +1,108 @@
+import { useMemo, useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { NewsEntry } from '@/lib/types';
+import { describeSentiment, newsSourceLabel } from '@/lib/news';
+import { Badge } from '@/components/ui/badge';
+import { Card } from '@/components/ui/card';
+import { Newspaper } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface NewsTimelineProps {
+  news: NewsEntry[];
+}
+
+function getSentimentClass(sentiment: number): string {
+  if (sentiment >= 0.15) return 'border-success text-success';
+  if (sentiment <= -0.15) return 'border-destructive text-destructive';
+  return 'text-muted-foreground';
+}
+
+/**
+ * News Timeline
+ *
+ * Recent stories for a result, newest first, with the sources that carried
+ * each story, its category, sentiment and age. Filterable by catalyst type.
+ */
+export function NewsTimeline({ news }: NewsTimelineProps) {
+  const [typeFilter, setTypeFilter] = useState<string | null>(null);
+
+  const catalystTypes = useMemo(
+    () => Array.from(new Set(news.flatMap(entry => entry.catalystTypes))),
+    [news],
+  );
+  const visible = typeFilter ? news.filter(entry => entry.catalystTypes.includes(typeFilter)) : news;
+
+  return (
+    <Card className="p-5">
+      <div className="flex items-center gap-2 mb-3">
+        <Newspaper className="w-5 h-5 text-primary" />
+        <h3 className="font-semibold text-foreground">News Timeline</h3>
+        <span className="text-xs text-muted-foreground">
+          {news.length} {news.length === 1 ? 'story' : 'stories'}
+        </span>
+      </div>
+
+      {catalystTypes.length > 0 && (
+        <div className="flex flex-wrap gap-1.5 mb-4">
+          <Badge
+            variant={typeFilter === null ? 'default' : 'outline'}
+            className="cursor-pointer text-xs"
+            onClick={() => setTypeFilter(null)}
+          >
+            All
+          </Badge>
+          {catalystTypes.map(type => (
+            <Badge
+              key={type}
+              variant={typeFilter === type ? 'default' : 'outline'}
+              className="cursor-pointer text-xs"
+              onClick={() => setTypeFilter(typeFilter === type ? null : type)}
+            >
+              {type}
+            </Badge>
+          ))}
+        </div>
+      )}
+
+      {visible.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No stories of this type.</p>
+      ) : (
+        <ol className="relative border-l border-border ml-1.5 space-y-4">
+          {visible.map(entry => (
+            <li key={`${entry.url}-${entry.datetime}`} className="pl-4">
+              <span className="absolute -left-[5px] mt-1.5 w-2.5 h-2.5 rounded-full bg-primary/60" />
+              <a
+                href={entry.url}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-sm font-medium text-foreground hover:text-primary hover:underline leading-snug block"
+              >
+                {entry.headline}
+              </a>
+              <div className="flex flex-wrap items-center gap-1.5 mt-1.5 text-xs text-muted-foreground">
+                <span>{formatDistanceToNow(new Date(entry.datetime), { addSuffix: true })}</span>
+                <span>·</span>
+                <span title={entry.sources.length > 1 ? `Reported by ${entry.sources.length} sources` : undefined}>
+                  {entry.sources.map(newsSourceLabel).join(', ')}
+                </span>
+                {entry.category && (
+                  <Badge variant="secondary" className="text-[10px] px-1.5 py-0">
+                    {entry.category}
+                  </Badge>
+                )}
+                <Badge variant="outline" className={cn('text-[10px] px-1.5 py-0', getSentimentClass(entry.sentiment))}>
+                  {describeSentiment(entry.sentiment)}
+                </Badge>
+                {entry.catalystTypes.map(type => (
+                  <Badge key={type} variant="outline" className="text-[10px] px-1.5 py-0">
+                    {type}
+                  </Badge>
+                ))}
+              </div>
+            </li>
+          ))}
+        </ol>
+      )}
+    </Card>
+  );
+}
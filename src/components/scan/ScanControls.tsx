@@ -1,17 +1,21 @@
-import { ScanFilters, SECTORS, MarketCapRange } from '@/lib/types';
+import { ScanFilters, MarketCapRange, VolatilityMethod, ScanPreset } from '@/lib/types';
+import { SECTOR_TAXONOMY } from '@/lib/sectors';
+import { DEFAULT_VOLATILITY_THRESHOLDS, VOLATILITY_METHOD_LABELS } from '@/lib/filterUtils';
+import { SCAN_PRESETS } from '@/lib/presets';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { Label } from '@/components/ui/label';
 import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
 import { Switch } from '@/components/ui/switch';
-import { Search, X, Save, TrendingUp } from 'lucide-react';
+import { Search, X, Save, TrendingUp, Sunrise } from 'lucide-react';
 
 interface ScanControlsProps {
   filters: ScanFilters;
   onFiltersChange: (filters: ScanFilters) => void;
   onRunScan: () => void;
   onSaveProfile: () => void;
+  onApplyPreset?: (preset: ScanPreset) => void;
   isScanning: boolean;
 }
 
@@ -23,17 +27,31 @@ const MARKET_CAP_OPTIONS: { value: MarketCapRange; label: string }[] = [
   { value: 'any', label: 'Any Size' },
 ];
 
+const VOLATILITY_METHOD_HINTS: Record<VolatilityMethod, string> = {
+  dailyChange: 'Absolute % change on the day',
+  atr: '14-day Average True Range as % of price',
+  historical: '20-day annualized historical volatility',
+};
+
 export function ScanControls({
   filters,
   onFiltersChange,
   onRunScan,
   onSaveProfile,
+  onApplyPreset,
   isScanning,
 }: ScanControlsProps) {
   const setMarketCap = (cap: MarketCapRange) => {
     onFiltersChange({ ...filters, marketCap: cap });
   };
 
+  const volatilityMethod = filters.volatilityMethod ?? 'dailyChange';
+
+  const setVolatilityMethod = (method: VolatilityMethod) => {
+    // Thresholds are not comparable across methods, so reset to the new method's default
+    onFiltersChange({ ...filters, volatilityMethod: method, volatilityThreshold: undefined });
+  };
+
   const toggleSector = (sector: string) => {
     const newSectors = filters.sectors.includes(sector)
       ? filters.sectors.filter(s => s !== sector)
@@ -52,15 +70,28 @@ export function ScanControls({
               Configure filters to find high-potential stocks matching your criteria
             </p>
           </div>
-          <Button
-            variant="outline"
-            size="sm"
-            onClick={onSaveProfile}
-            className="flex-shrink-0"
-          >
-            <Save className="w-4 h-4 mr-2" />
-            Save as Profile
-          </Button>
+          <div className="flex items-center gap-2 flex-shrink-0">
+            {onApplyPreset && SCAN_PRESETS.map(preset => (
+              <Button
+                key={preset.id}
+                variant="outline"
+                size="sm"
+                onClick={() => onApplyPreset(preset)}
+                title={preset.description}
+              >
+                <Sunrise className="w-4 h-4 mr-2" />
+                {preset.name}
+              </Button>
+            ))}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={onSaveProfile}
+            >
+              <Save className="w-4 h-4 mr-2" />
+              Save as Profile
+            </Button>
+          </div>
         </div>
 
         {/* Market Cap Filter */}
@@ -122,14 +153,15 @@ export function ScanControls({
         <div>
           <Label className="text-sm font-semibold mb-3 block">Sectors</Label>
           <div className="flex flex-wrap gap-2">
-            {SECTORS.map((sector) => (
+            {SECTOR_TAXONOMY.map(({ name, industries }) => (
               <Badge
-                key={sector}
-                variant={filters.sectors.includes(sector) ? 'default' : 'outline'}
+                key={name}
+                variant={filters.sectors.includes(name) ? 'default' : 'outline'}
                 className="cursor-pointer hover:bg-accent"
-                onClick={() => toggleSector(sector)}
+                title={industries.join(', ')}
+                onClick={() => toggleSector(name)}
               >
-                {sector}
+                {name}
               </Badge>
             ))}
           </div>
@@ -146,45 +178,163 @@ export function ScanControls({
           )}
         </div>
 
-        {/* Min Volume */}
+        {/* Min Volume / Relative Volume */}
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <Label htmlFor="minVolume" className="text-sm font-semibold mb-2 block">
+              Minimum Volume
+            </Label>
+            <Input
+              id="minVolume"
+              type="number"
+              min="0"
+              step="100000"
+              value={filters.minVolume || ''}
+              onChange={(e) =>
+                onFiltersChange({ ...filters, minVolume: e.target.value ? parseInt(e.target.value) : undefined })
+              }
+              placeholder="No minimum"
+              className="bg-background"
+            />
+          </div>
+          <div>
+            <Label htmlFor="minRelativeVolume" className="text-sm font-semibold mb-2 block">
+              Min Relative Volume (x)
+            </Label>
+            <Input
+              id="minRelativeVolume"
+              type="number"
+              min="0"
+              step="0.5"
+              value={filters.minRelativeVolume || ''}
+              onChange={(e) =>
+                onFiltersChange({ ...filters, minRelativeVolume: e.target.value ? parseFloat(e.target.value) : undefined })
+              }
+              placeholder="vs 20-day avg"
+              className="bg-background"
+            />
+          </div>
+        </div>
+
+        {/* Upcoming Earnings */}
         <div>
-          <Label htmlFor="minVolume" className="text-sm font-semibold mb-2 block">
-            Minimum Volume
+          <Label htmlFor="earningsWithinDays" className="text-sm font-semibold mb-2 block">
+            Reports Earnings Within (days)
           </Label>
           <Input
-            id="minVolume"
+            id="earningsWithinDays"
             type="number"
             min="0"
-            step="100000"
-            value={filters.minVolume || ''}
+            step="1"
+            value={filters.earningsWithinDays ?? ''}
             onChange={(e) =>
-              onFiltersChange({ ...filters, minVolume: e.target.value ? parseInt(e.target.value) : undefined })
+              onFiltersChange({ ...filters, earningsWithinDays: e.target.value ? parseInt(e.target.value) : undefined })
             }
-            placeholder="No minimum"
+            placeholder="Any (0 = today)"
             className="bg-background"
           />
         </div>
 
+        {/* Session Filters */}
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <Label htmlFor="minGapPercent" className="text-sm font-semibold mb-2 block">
+              Min Gap (%)
+            </Label>
+            <Input
+              id="minGapPercent"
+              type="number"
+              min="0"
+              step="0.5"
+              value={filters.minGapPercent ?? ''}
+              onChange={(e) =>
+                onFiltersChange({ ...filters, minGapPercent: e.target.value ? parseFloat(e.target.value) : undefined })
+              }
+              placeholder="Any (up or down)"
+              className="bg-background"
+            />
+          </div>
+          <div>
+            <Label htmlFor="minPreMarketVolume" className="text-sm font-semibold mb-2 block">
+              Min Pre-Market Volume
+            </Label>
+            <Input
+              id="minPreMarketVolume"
+              type="number"
+              min="0"
+              step="10000"
+              value={filters.minPreMarketVolume ?? ''}
+              onChange={(e) =>
+                onFiltersChange({ ...filters, minPreMarketVolume: e.target.value ? parseInt(e.target.value) : undefined })
+              }
+              placeholder="Any"
+              className="bg-background"
+            />
+          </div>
+        </div>
+
         {/* High Volatility Filter */}
-        <div className="flex items-center justify-between p-4 border border-border rounded-lg bg-muted/30">
-          <div className="flex-1 pr-4">
-            <div className="flex items-center gap-2 mb-1">
-              <TrendingUp className="w-4 h-4 text-primary" />
-              <Label htmlFor="highVolatility" className="text-sm font-semibold cursor-pointer">
-                High Volatility Only
-              </Label>
+        <div className="p-4 border border-border rounded-lg bg-muted/30 space-y-4">
+          <div className="flex items-center justify-between">
+            <div className="flex-1 pr-4">
+              <div className="flex items-center gap-2 mb-1">
+                <TrendingUp className="w-4 h-4 text-primary" />
+                <Label htmlFor="highVolatility" className="text-sm font-semibold cursor-pointer">
+                  High Volatility Only
+                </Label>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Show only stocks with large recent price moves (≥{DEFAULT_VOLATILITY_THRESHOLDS.dailyChange}% daily change by default)
+              </p>
             </div>
-            <p className="text-xs text-muted-foreground">
-              Show only stocks with large recent price moves (≥5% daily change)
-            </p>
+            <Switch
+              id="highVolatility"
+              checked={filters.highVolatilityOnly ?? false}
+              onCheckedChange={(checked) => 
+                onFiltersChange({ ...filters, highVolatilityOnly: checked })
+              }
+            />
           </div>
-          <Switch
-            id="highVolatility"
-            checked={filters.highVolatilityOnly ?? false}
-            onCheckedChange={(checked) => 
-              onFiltersChange({ ...filters, highVolatilityOnly: checked })
-            }
-          />
+
+          {filters.highVolatilityOnly && (
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label className="text-xs font-semibold mb-2 block">Measure</Label>
+                <div className="flex flex-wrap gap-2">
+                  {(Object.keys(VOLATILITY_METHOD_LABELS) as VolatilityMethod[]).map((method) => (
+                    <Badge
+                      key={method}
+                      variant={volatilityMethod === method ? 'default' : 'outline'}
+                      className="cursor-pointer hover:bg-accent"
+                      onClick={() => setVolatilityMethod(method)}
+                    >
+                      {VOLATILITY_METHOD_LABELS[method]}
+                    </Badge>
+                  ))}
+                </div>
+                <p className="text-xs text-muted-foreground mt-2">
+                  {VOLATILITY_METHOD_HINTS[volatilityMethod]}
+                </p>
+              </div>
+              <div>
+                <Label htmlFor="volatilityThreshold" className="text-xs font-semibold mb-2 block">
+                  Threshold (%)
+                </Label>
+                <Input
+                  id="volatilityThreshold"
+                  type="number"
+                  min="0"
+                  step="0.5"
+                  value={filters.volatilityThreshold ?? ''}
+                  onChange={(e) =>
+                    onFiltersChange({ ...filters, volatilityThreshold: e.target.value ? parseFloat(e.target.value) : undefined })
+                  }
+                  placeholder={`${DEFAULT_VOLATILITY_THRESHOLDS[volatilityMethod]}`}
+                  className="bg-background"
+                />
+              </div>
+            </div>
+          )}
         </div>
 
         {/* Run Scan Button */}
@@ -1,10 +1,17 @@
-import { ScanResult } from '@/lib/types';
+import { ScanResult, ScoreBreakdown, ScoreDriver, FieldProvenance, FilingSignalType } from '@/lib/types';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { Progress } from '@/components/ui/progress';
-import { X, TrendingUp, AlertTriangle, Target, Zap, BarChart3, Activity, MessageSquare, Star } from 'lucide-react';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { X, TrendingUp, AlertTriangle, Target, Zap, BarChart3, Activity, MessageSquare, Star, ExternalLink, CalendarClock, FlaskConical } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { newsSourceLabel } from '@/lib/news';
+import { EARNINGS_TIME_LABELS } from '@/lib/earnings';
+import { BIOTECH_EVENT_LABELS, BIOTECH_EVENT_SHORT_LABELS } from '@/lib/biotech';
+import { FILING_SIGNAL_LABELS } from '@/lib/filings';
+import { MARKET_SESSION_LABELS } from '@/lib/session';
+import { NewsTimeline } from '@/components/scan/NewsTimeline';
 
 interface ScanDetailDrawerProps {
   result: ScanResult | null;
@@ -28,12 +35,140 @@ function formatVolume(num: number): string {
   return num.toLocaleString();
 }
 
+function formatAge(ms: number): string {
+  if (ms < 60_000) return 'just now';
+  if (ms < 3_600_000) return `${Math.round(ms / 60_000)}m ago`;
+  if (ms < 86_400_000) return `${Math.round(ms / 3_600_000)}h ago`;
+  return `${Math.round(ms / 86_400_000)}d ago`;
+}
+
+/**
+ * Source and age of a value, flagged when it was estimated or is stale
+ */
+function ProvenanceTag({ provenance }: { provenance?: FieldProvenance }) {
+  if (!provenance) return null;
+  const flag = provenance.estimated ? 'Estimated' : provenance.stale ? 'Stale' : null;
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        {flag ? (
+          <Badge variant="outline" className="text-[10px] px-1.5 py-0 border-explosive-medium text-explosive-medium cursor-help">
+            {flag}
+          </Badge>
+        ) : (
+          <span className="text-[10px] text-muted-foreground cursor-help">
+            {provenance.source}
+            {provenance.ageMs != null && ` · ${formatAge(provenance.ageMs)}`}
+          </span>
+        )}
+      </TooltipTrigger>
+      <TooltipContent side="top" className="max-w-xs text-xs space-y-0.5">
+        <p>Source: {provenance.source}</p>
+        {provenance.asOf && <p>As of {new Date(provenance.asOf).toLocaleString()}</p>}
+        {provenance.note && <p>{provenance.note}</p>}
+        {provenance.stale && !provenance.estimated && <p>Older than expected for this field</p>}
+      </TooltipContent>
+    </Tooltip>
+  );
+}
+
 function getExplosivePotentialColor(score: number): string {
   if (score >= 75) return 'bg-explosive-high text-white';
   if (score >= 50) return 'bg-explosive-medium text-white';
   return 'bg-explosive-low text-foreground';
 }
 
+const SUB_SCORE_LABELS: Record<keyof ScoreBreakdown, string> = {
+  momentum: 'Momentum',
+  structure: 'Structure',
+  catalysts: 'Catalysts',
+  sentiment: 'Sentiment',
+  squeeze: 'Squeeze',
+};
+
+const INDICATOR_LABELS: Record<string, string> = {
+  base: 'Base',
+  changePercent: 'Day change',
+  rsi14: 'RSI (14)',
+  relativeVolume: 'Rel. volume',
+  vwapDistancePercent: 'vs VWAP',
+  percentOf52WeekHigh: '% of 52w high',
+  breakout: 'Breakout',
+  consolidation: 'Consolidation',
+  gapPercent: 'Gap',
+  newsCount: 'News items',
+  newsCatalyst: 'News catalyst',
+  newsSentiment: 'News sentiment',
+  upcomingEarnings: 'Earnings',
+  biotechEvent: 'Biotech event',
+  shortPercentOfFloat: 'Short % float',
+  daysToCover: 'Days to cover',
+  borrowFeePercent: 'Borrow fee',
+  lowFloat: 'Low float',
+};
+
+function formatDriver(driver: ScoreDriver): string {
+  const label = INDICATOR_LABELS[driver.indicator] ?? driver.indicator;
+  if (typeof driver.value === 'boolean') return label;
+  switch (driver.indicator) {
+    case 'changePercent':
+    case 'vwapDistancePercent':
+    case 'gapPercent':
+      return `${label} ${driver.value > 0 ? '+' : ''}${driver.value.toFixed(1)}%`;
+    case 'percentOf52WeekHigh':
+      return `${label} ${driver.value.toFixed(0)}%`;
+    case 'consolidation':
+      return `${label} (${driver.value.toFixed(1)}% range)`;
+    case 'relativeVolume':
+      return `${label} ${driver.value.toFixed(1)}x`;
+    case 'shortPercentOfFloat':
+    case 'borrowFeePercent':
+      return `${label} ${driver.value.toFixed(1)}%`;
+    case 'daysToCover':
+      return `${label} ${driver.value.toFixed(1)}d`;
+    case 'lowFloat':
+      return `${label} ${formatVolume(driver.value)}`;
+    case 'newsCatalyst':
+      return `${label} ${driver.value.toFixed(0)}/100`;
+    case 'upcomingEarnings':
+    case 'biotechEvent':
+      return driver.value === 0 ? `${label} today` : `${label} in ${driver.value}d`;
+    case 'newsSentiment':
+      return `${label} ${driver.value > 0 ? '+' : ''}${driver.value.toFixed(2)}`;
+    case 'base':
+      return label;
+    default:
+      return `${label} ${Number.isInteger(driver.value) ? driver.value : driver.value.toFixed(1)}`;
+  }
+}
+
+function formatDaysUntil(days: number): string {
+  if (days === 0) return 'Today';
+  if (days === 1) return 'Tomorrow';
+  return `In ${days} days`;
+}
+
+function formatCalendarDate(date: string): string {
+  return new Date(`${date}T12:00:00Z`).toLocaleDateString('en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+  });
+}
+
+function getFilingSignalClass(type: FilingSignalType): string {
+  switch (type) {
+    case 'dilution':
+    case 'insider-sell':
+      return 'border-destructive text-destructive';
+    case 'insider-buy':
+      return 'border-success text-success';
+    default:
+      return 'text-muted-foreground';
+  }
+}
+
 function getRiskLevelColor(level: string): string {
   switch (level) {
     case 'High':
@@ -80,8 +215,38 @@ export function ScanDetailDrawer({
                   {result.riskLevel} Risk
                 </Badge>
               </div>
-              <p className="text-lg text-muted-foreground">{result.companyName}</p>
-              <p className="text-sm text-muted-foreground">{result.sector}</p>
+              <div className="flex items-center gap-2">
+                {result.logoUrl && (
+                  <img src={result.logoUrl} alt="" className="w-6 h-6 rounded object-contain" />
+                )}
+                <p className="text-lg text-muted-foreground">{result.companyName}</p>
+              </div>
+              <div className="flex items-center gap-2">
+                <p className="text-sm text-muted-foreground">
+                  {result.sector}
+                  {result.industry && ` · ${result.industry}`}
+                </p>
+                <ProvenanceTag provenance={result.provenance?.sector} />
+              </div>
+              {(result.exchange || result.ipoDate || result.website) && (
+                <p className="text-xs text-muted-foreground mt-1">
+                  {[result.exchange, result.ipoDate && `IPO ${result.ipoDate}`].filter(Boolean).join(' · ')}
+                  {result.website && (
+                    <>
+                      {(result.exchange || result.ipoDate) && ' · '}
+                      <a
+                        href={result.website}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="inline-flex items-center gap-1 text-primary hover:underline"
+                      >
+                        Website
+                        <ExternalLink className="w-3 h-3" />
+                      </a>
+                    </>
+                  )}
+                </p>
+              )}
             </div>
             <div className="flex gap-2">
               {(onAddToWatchlist || onRemoveFromWatchlist) && (
@@ -109,38 +274,182 @@ export function ScanDetailDrawer({
           {/* Key Metrics */}
           <div className="grid grid-cols-2 gap-4">
             <Card className="p-4">
-              <p className="text-sm text-muted-foreground mb-1">Current Price</p>
+              <div className="flex items-center justify-between gap-2 mb-1">
+                <p className="text-sm text-muted-foreground">Current Price</p>
+                <ProvenanceTag provenance={result.provenance?.price} />
+              </div>
               <p className="text-2xl font-bold text-foreground">${result.price.toFixed(2)}</p>
               <p className={cn(
                 'text-sm font-semibold mt-1',
                 result.changePercent > 0 ? 'text-success' : 'text-danger'
               )}>
                 {result.changePercent > 0 ? '+' : ''}{result.changePercent.toFixed(2)}%
+                {result.extendedChangePercent != null && result.session && (
+                  <span className="ml-1 text-xs font-normal text-muted-foreground">
+                    {MARKET_SESSION_LABELS[result.session].toLowerCase()}
+                  </span>
+                )}
               </p>
+              {result.gapPercent != null && (
+                <p className="text-xs text-muted-foreground mt-1">
+                  Gap {result.gapPercent > 0 ? '+' : ''}{result.gapPercent.toFixed(2)}% vs previous close
+                </p>
+              )}
             </Card>
 
             <Card className="p-4">
-              <p className="text-sm text-muted-foreground mb-1">Volume</p>
+              <div className="flex items-center justify-between gap-2 mb-1">
+                <p className="text-sm text-muted-foreground">Volume</p>
+                <ProvenanceTag provenance={result.provenance?.volume} />
+              </div>
               <p className="text-2xl font-bold text-foreground">
                 {formatVolume(result.volume)}
               </p>
+              {result.relativeVolume != null && (
+                <p className="text-sm text-muted-foreground mt-1">
+                  {result.relativeVolume.toFixed(1)}x 20-day avg
+                </p>
+              )}
+              {(result.preMarketVolume != null || result.afterHoursVolume != null) && (
+                <p className="text-xs text-muted-foreground mt-1">
+                  {[
+                    result.preMarketVolume != null && `${formatVolume(result.preMarketVolume)} pre-market`,
+                    result.afterHoursVolume != null && `${formatVolume(result.afterHoursVolume)} after hours`,
+                  ].filter(Boolean).join(' · ')}
+                </p>
+              )}
             </Card>
 
             <Card className="p-4">
-              <p className="text-sm text-muted-foreground mb-1">Market Cap</p>
+              <div className="flex items-center justify-between gap-2 mb-1">
+                <p className="text-sm text-muted-foreground">Market Cap</p>
+                <ProvenanceTag provenance={result.provenance?.marketCap} />
+              </div>
               <p className="text-2xl font-bold text-foreground">
                 {formatNumber(result.marketCap)}
               </p>
             </Card>
 
             <Card className="p-4">
-              <p className="text-sm text-muted-foreground mb-1">Float</p>
+              <div className="flex items-center justify-between gap-2 mb-1">
+                <p className="text-sm text-muted-foreground">Float</p>
+                <ProvenanceTag provenance={result.provenance?.float} />
+              </div>
               <p className="text-2xl font-bold text-foreground">
-                {formatNumber(result.float)}
+                {formatVolume(result.float)}
               </p>
+              {result.sharesOutstanding != null && (
+                <p className="text-sm text-muted-foreground mt-1">
+                  {formatVolume(result.sharesOutstanding)} outstanding
+                </p>
+              )}
             </Card>
           </div>
 
+          {/* Upcoming Earnings */}
+          {result.earnings && (
+            <Card className="p-4">
+              <div className="flex items-center gap-2 mb-3">
+                <CalendarClock className="w-4 h-4 text-primary" />
+                <h3 className="font-semibold text-foreground">Upcoming Earnings</h3>
+                <Badge variant="outline" className="text-xs">
+                  {formatDaysUntil(result.earnings.daysUntil)}
+                </Badge>
+              </div>
+              <div className="grid grid-cols-3 gap-4 text-sm">
+                <div>
+                  <p className="text-muted-foreground">Date</p>
+                  <p className="font-semibold text-foreground">{formatCalendarDate(result.earnings.date)}</p>
+                </div>
+                <div>
+                  <p className="text-muted-foreground">Time</p>
+                  <p className="font-semibold text-foreground">
+                    {result.earnings.time ? EARNINGS_TIME_LABELS[result.earnings.time] : '—'}
+                  </p>
+                </div>
+                <div>
+                  <p className="text-muted-foreground">EPS estimate</p>
+                  <p className="font-semibold text-foreground">
+                    {result.earnings.epsEstimate != null ? `$${result.earnings.epsEstimate.toFixed(2)}` : '—'}
+                  </p>
+                </div>
+              </div>
+            </Card>
+          )}
+
+          {/* Next Biotech Event */}
+          {result.biotechEvent && (
+            <Card className="p-4">
+              <div className="flex items-center gap-2 mb-3">
+                <FlaskConical className="w-4 h-4 text-primary" />
+                <h3 className="font-semibold text-foreground">Next Binary Event</h3>
+                <Badge variant="outline" className="text-xs">
+                  {formatDaysUntil(result.biotechEvent.daysUntil)}
+                </Badge>
+              </div>
+              <div className="grid grid-cols-3 gap-4 text-sm">
+                <div>
+                  <p className="text-muted-foreground">Event</p>
+                  <p className="font-semibold text-foreground">
+                    {BIOTECH_EVENT_LABELS[result.biotechEvent.type]}
+                    {result.biotechEvent.type === 'readout' && result.biotechEvent.phase && ` (Phase ${result.biotechEvent.phase})`}
+                  </p>
+                </div>
+                <div>
+                  <p className="text-muted-foreground">Date</p>
+                  <p className="font-semibold text-foreground">{formatCalendarDate(result.biotechEvent.date)}</p>
+                </div>
+                <div>
+                  <p className="text-muted-foreground">{BIOTECH_EVENT_SHORT_LABELS[result.biotechEvent.type]} for</p>
+                  <p className="font-semibold text-foreground">
+                    {result.biotechEvent.drug ?? '—'}
+                    {result.biotechEvent.indication && (
+                      <span className="block text-xs font-normal text-muted-foreground">{result.biotechEvent.indication}</span>
+                    )}
+                  </p>
+                </div>
+              </div>
+            </Card>
+          )}
+
+          {/* Short Interest */}
+          {(result.shortInterest != null || result.daysToCover != null || result.borrowFeePercent != null) && (
+            <Card className="p-4">
+              <div className="flex items-center gap-2 mb-3">
+                <h3 className="font-semibold text-foreground">Short Interest</h3>
+                {result.tags.includes('Squeeze Setup') && (
+                  <Badge className="bg-explosive-high text-white">Squeeze Setup</Badge>
+                )}
+              </div>
+              <div className="grid grid-cols-4 gap-4 text-sm">
+                <div>
+                  <p className="text-muted-foreground">Short interest</p>
+                  <p className="font-semibold text-foreground">
+                    {result.shortInterest != null ? formatVolume(result.shortInterest) : '—'}
+                  </p>
+                </div>
+                <div>
+                  <p className="text-muted-foreground">% of float</p>
+                  <p className="font-semibold text-foreground">
+                    {result.shortPercentOfFloat != null ? `${result.shortPercentOfFloat.toFixed(1)}%` : '—'}
+                  </p>
+                </div>
+                <div>
+                  <p className="text-muted-foreground">Days to cover</p>
+                  <p className="font-semibold text-foreground">
+                    {result.daysToCover != null ? result.daysToCover.toFixed(1) : '—'}
+                  </p>
+                </div>
+                <div>
+                  <p className="text-muted-foreground">Borrow fee</p>
+                  <p className="font-semibold text-foreground">
+                    {result.borrowFeePercent != null ? `${result.borrowFeePercent.toFixed(1)}%` : '—'}
+                  </p>
+                </div>
+              </div>
+            </Card>
+          )}
+
           {/* Explosive Potential & Momentum */}
           <div className="grid grid-cols-2 gap-4">
             <Card className="p-6 text-center">
@@ -163,6 +472,44 @@ export function ScanDetailDrawer({
             </Card>
           </div>
 
+          {/* Score Breakdown */}
+          <Card className="p-5">
+            <div className="flex items-center gap-2 mb-4">
+              <BarChart3 className="w-5 h-5 text-primary" />
+              <h3 className="font-semibold text-foreground">Score Breakdown</h3>
+              {result.scoringModel && (
+                <Badge variant="outline" className="ml-auto text-xs">
+                  {result.scoringModel.name} v{result.scoringModel.version}
+                </Badge>
+              )}
+            </div>
+            <div className="space-y-4">
+              {(Object.keys(SUB_SCORE_LABELS) as (keyof ScoreBreakdown)[])
+                .filter((key) => result.scoreBreakdown[key] != null)
+                .map((key) => (
+                  <div key={key}>
+                    <div className="flex items-center justify-between text-sm mb-1">
+                      <span className="text-muted-foreground">{SUB_SCORE_LABELS[key]}</span>
+                      <span className="font-semibold text-foreground">{result.scoreBreakdown[key]}</span>
+                    </div>
+                    <Progress value={result.scoreBreakdown[key]} className="h-2" />
+                    {result.scoreDrivers?.[key]?.length ? (
+                      <div className="flex flex-wrap gap-1 mt-2">
+                        {result.scoreDrivers[key].map((driver) => (
+                          <Badge key={driver.indicator} variant="outline" className="text-xs font-normal">
+                            {formatDriver(driver)}
+                            <span className="ml-1 text-muted-foreground">
+                              {driver.points > 0 ? '+' : ''}{driver.points}
+                            </span>
+                          </Badge>
+                        ))}
+                      </div>
+                    ) : null}
+                  </div>
+                ))}
+            </div>
+          </Card>
+
           {/* Catalyst Summary */}
           <Card className="p-5">
             <div className="flex items-start gap-3">
@@ -191,21 +538,37 @@ export function ScanDetailDrawer({
                   >
                     {result.primaryNewsHeadline}
                   </a>
-                  {result.primaryNewsDatetime && (
-                    <p className="text-xs text-muted-foreground">
-                      {new Date(result.primaryNewsDatetime).toLocaleString('en-US', {
-                        month: 'short',
-                        day: 'numeric',
-                        hour: 'numeric',
-                        minute: '2-digit',
-                      })}
-                    </p>
-                  )}
+                  <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                    {result.primaryNewsDatetime && (
+                      <span>
+                        {new Date(result.primaryNewsDatetime).toLocaleString('en-US', {
+                          month: 'short',
+                          day: 'numeric',
+                          hour: 'numeric',
+                          minute: '2-digit',
+                        })}
+                      </span>
+                    )}
+                    {result.primaryNewsSources && result.primaryNewsSources.length > 0 && (
+                      <Badge
+                        variant="outline"
+                        className="text-xs"
+                        title={result.primaryNewsSources.map(newsSourceLabel).join(', ')}
+                      >
+                        {result.primaryNewsSources.length === 1
+                          ? newsSourceLabel(result.primaryNewsSources[0])
+                          : `${result.primaryNewsSources.length} sources`}
+                      </Badge>
+                    )}
+                  </div>
                 </div>
               </div>
             </Card>
           )}
 
+          {/* News Timeline (live mode) */}
+          {result.news && result.news.length > 0 && <NewsTimeline news={result.news} />}
+
           {/* Risk Notes */}
           <Card className="p-5 border-destructive/20 bg-destructive/5">
             <div className="flex items-start gap-3">
@@ -215,6 +578,33 @@ export function ScanDetailDrawer({
                 <p className="text-sm text-muted-foreground leading-relaxed">
                   {result.riskNotes}
                 </p>
+                {result.filings && result.filings.signals.length > 0 && (
+                  <ul className="mt-3 space-y-1.5">
+                    {result.filings.signals.map(signal => (
+                      <li
+                        key={`${signal.formType}-${signal.filedAt}-${signal.label}`}
+                        className="flex flex-wrap items-center gap-1.5 text-xs text-muted-foreground"
+                      >
+                        <Badge variant="outline" className={cn('text-[10px] px-1.5 py-0', getFilingSignalClass(signal.type))}>
+                          {FILING_SIGNAL_LABELS[signal.type]}
+                        </Badge>
+                        {signal.url ? (
+                          <a
+                            href={signal.url}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="text-foreground hover:text-primary hover:underline"
+                          >
+                            {signal.label}
+                          </a>
+                        ) : (
+                          <span className="text-foreground">{signal.label}</span>
+                        )}
+                        <span>· filed {formatCalendarDate(signal.filedAt.slice(0, 10))}</span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
               </div>
             </div>
           </Card>
@@ -4,6 +4,8 @@ import { Card } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { ArrowUpDown, TrendingUp, TrendingDown } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { BIOTECH_EVENT_LABELS, BIOTECH_EVENT_SHORT_LABELS } from '@/lib/biotech';
+import { MARKET_SESSION_LABELS, MARKET_SESSION_SHORT_LABELS } from '@/lib/session';
 
 interface ScanResultsTableProps {
   results: ScanResult[];
@@ -11,7 +13,7 @@ interface ScanResultsTableProps {
   isLoading: boolean;
 }
 
-type SortField = 'ticker' | 'explosivePotential' | 'changePercent' | 'volume';
+type SortField = 'ticker' | 'explosivePotential' | 'changePercent' | 'volume' | 'relativeVolume';
 type SortDirection = 'asc' | 'desc';
 
 function formatNumber(num: number): string {
@@ -48,7 +50,8 @@ export function ScanResultsTable({ results, onSelectResult, isLoading }: ScanRes
     if (typeof aVal === 'string' && typeof bVal === 'string') {
       return multiplier * aVal.localeCompare(bVal);
     }
-    return multiplier * ((aVal as number) - (bVal as number));
+    // Results without a value (e.g. no RVOL) sort as zero
+    return multiplier * (((aVal as number) ?? 0) - ((bVal as number) ?? 0));
   });
 
   if (isLoading) {
@@ -111,6 +114,15 @@ export function ScanResultsTable({ results, onSelectResult, isLoading }: ScanRes
                   <ArrowUpDown className="w-3 h-3" />
                 </button>
               </th>
+              <th className="text-right p-4 font-semibold text-sm">
+                <button
+                  onClick={() => handleSort('relativeVolume')}
+                  className="flex items-center gap-1 hover:text-primary ml-auto"
+                >
+                  RVOL
+                  <ArrowUpDown className="w-3 h-3" />
+                </button>
+              </th>
               <th className="text-center p-4 font-semibold text-sm">
                 <button
                   onClick={() => handleSort('explosivePotential')}
@@ -133,11 +145,37 @@ export function ScanResultsTable({ results, onSelectResult, isLoading }: ScanRes
               >
                 <td className="p-4">
                   <span className="font-bold text-foreground">{result.ticker}</span>
+                  {result.session && result.session !== 'regular' && (
+                    <Badge
+                      variant="outline"
+                      className="ml-1.5 text-[10px] px-1 py-0 text-muted-foreground"
+                      title={`Scanned during ${MARKET_SESSION_LABELS[result.session].toLowerCase()}`}
+                    >
+                      {MARKET_SESSION_SHORT_LABELS[result.session]}
+                    </Badge>
+                  )}
+                  {result.biotechEvent && (
+                    <Badge
+                      variant="outline"
+                      className="mt-1 block w-fit text-[10px] px-1.5 py-0 border-primary/40 text-primary"
+                      title={`${BIOTECH_EVENT_LABELS[result.biotechEvent.type]} on ${result.biotechEvent.date}`}
+                    >
+                      {BIOTECH_EVENT_SHORT_LABELS[result.biotechEvent.type]} {result.biotechEvent.daysUntil}d
+                    </Badge>
+                  )}
                 </td>
                 <td className="p-4">
-                  <div>
-                    <p className="font-medium text-sm text-foreground">{result.companyName}</p>
-                    <p className="text-xs text-muted-foreground">{result.sector}</p>
+                  <div className="flex items-center gap-2">
+                    {result.logoUrl && (
+                      <img src={result.logoUrl} alt="" className="w-6 h-6 rounded object-contain flex-shrink-0" loading="lazy" />
+                    )}
+                    <div>
+                      <p className="font-medium text-sm text-foreground">{result.companyName}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {result.sector}
+                        {result.exchange && ` · ${result.exchange}`}
+                      </p>
+                    </div>
                   </div>
                 </td>
                 <td className="p-4 text-right font-mono text-sm">
@@ -156,10 +194,21 @@ export function ScanResultsTable({ results, onSelectResult, isLoading }: ScanRes
                     {result.changePercent > 0 ? '+' : ''}
                     {result.changePercent.toFixed(2)}%
                   </div>
+                  {result.gapPercent != null && (
+                    <p className="text-xs text-muted-foreground mt-0.5">
+                      Gap {result.gapPercent > 0 ? '+' : ''}{result.gapPercent.toFixed(1)}%
+                    </p>
+                  )}
                 </td>
                 <td className="p-4 text-right font-mono text-sm text-muted-foreground">
                   {formatNumber(result.volume)}
                 </td>
+                <td className={cn(
+                  'p-4 text-right font-mono text-sm',
+                  result.relativeVolume != null && result.relativeVolume >= 2 ? 'text-success font-semibold' : 'text-muted-foreground'
+                )}>
+                  {result.relativeVolume != null ? `${result.relativeVolume.toFixed(1)}x` : '—'}
+                </td>
                 <td className="p-4">
                   <div className="flex justify-center">
                     <Badge className={cn('font-bold', getExplosivePotentialColor(result.explosivePotential))}>
@@ -1,7 +1,8 @@
-import { ScanMode, SCAN_MODE_LABELS, SCAN_MODE_DESCRIPTIONS } from '@/lib/types';
+import { ScanMode, SCAN_MODE_LABELS, SCAN_MODE_DESCRIPTIONS, ScanDiagnostics, DroppedTickerReason } from '@/lib/types';
+import { DROPPED_REASON_LABELS } from '@/lib/scanResponse';
 import { Card } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { TrendingUp, AlertTriangle, BarChart3, Target } from 'lucide-react';
+import { TrendingUp, AlertTriangle, BarChart3, Target, ChevronRight } from 'lucide-react';
 
 interface ScanSummaryBarProps {
   mode: ScanMode;
@@ -9,6 +10,19 @@ interface ScanSummaryBarProps {
   averageExplosivePotential: number;
   highRiskCount: number;
   lastRunAt?: string;
+  scanId?: string;
+  diagnostics?: ScanDiagnostics | null;
+}
+
+const STAGE_LABELS: { key: keyof ScanDiagnostics['stages']; label: string }[] = [
+  { key: 'universe', label: 'Universe' },
+  { key: 'snapshot', label: 'Snapshot' },
+  { key: 'enriched', label: 'Enriched' },
+  { key: 'results', label: 'Results' },
+];
+
+function formatMs(ms: number): string {
+  return ms >= 1000 ? `${(ms / 1000).toFixed(1)}s` : `${Math.round(ms)}ms`;
 }
 
 export function ScanSummaryBar({
@@ -17,9 +31,16 @@ export function ScanSummaryBar({
   averageExplosivePotential,
   highRiskCount,
   lastRunAt,
+  scanId,
+  diagnostics,
 }: ScanSummaryBarProps) {
   const hasResults = resultCount > 0;
 
+  const droppedByReason = new Map<DroppedTickerReason, string[]>();
+  for (const d of diagnostics?.dropped ?? []) {
+    droppedByReason.set(d.reason, [...(droppedByReason.get(d.reason) ?? []), d.ticker]);
+  }
+
   return (
     <Card className="p-6">
       <div className="space-y-4">
@@ -34,12 +55,48 @@ export function ScanSummaryBar({
                 Last run: {lastRunAt}
               </span>
             )}
+            {diagnostics && (
+              <span className="text-xs text-muted-foreground">
+                in {formatMs(diagnostics.timingsMs.total)}
+              </span>
+            )}
+            {scanId && (
+              <span className="text-xs text-muted-foreground font-mono" title={scanId}>
+                #{scanId.slice(0, 8)}
+              </span>
+            )}
           </div>
           <p className="text-sm text-muted-foreground">
             {SCAN_MODE_DESCRIPTIONS[mode]}
           </p>
         </div>
 
+        {/* Stage Counts */}
+        {diagnostics && (
+          <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+            {STAGE_LABELS.map(({ key, label }, i) => (
+              <span key={key} className="inline-flex items-center gap-2">
+                {i > 0 && <ChevronRight className="w-3 h-3" />}
+                <span>
+                  {label}: <span className="font-semibold text-foreground">{diagnostics.stages[key]}</span>
+                </span>
+              </span>
+            ))}
+          </div>
+        )}
+
+        {/* Warnings */}
+        {diagnostics && diagnostics.warnings.length > 0 && (
+          <div className="space-y-1 p-3 bg-destructive/10 rounded-lg">
+            {diagnostics.warnings.map((warning, i) => (
+              <p key={i} className="flex items-start gap-2 text-xs text-foreground">
+                <AlertTriangle className="w-3 h-3 mt-0.5 text-destructive flex-shrink-0" />
+                {warning}
+              </p>
+            ))}
+          </div>
+        )}
+
         {/* Metrics */}
         {hasResults ? (
           <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
@@ -86,6 +143,23 @@ export function ScanSummaryBar({
             </p>
           </div>
         )}
+
+        {/* Dropped Tickers */}
+        {droppedByReason.size > 0 && (
+          <details className="text-xs text-muted-foreground">
+            <summary className="cursor-pointer select-none">
+              {diagnostics?.dropped.length} tickers dropped
+            </summary>
+            <div className="mt-2 space-y-1">
+              {Array.from(droppedByReason.entries()).map(([reason, tickers]) => (
+                <p key={reason}>
+                  <span className="font-medium text-foreground">{DROPPED_REASON_LABELS[reason]}</span>
+                  {' '}({tickers.length}): {tickers.join(', ')}
+                </p>
+              ))}
+            </div>
+          </details>
+        )}
       </div>
     </Card>
   );
@@ -1,34 +1,72 @@
 import { Badge } from '@/components/ui/badge';
-import { AlertCircle } from 'lucide-react';
+import { AlertCircle, AlertTriangle, CheckCircle2 } from 'lucide-react';
 import {
   Tooltip,
   TooltipContent,
   TooltipProvider,
   TooltipTrigger,
 } from '@/components/ui/tooltip';
+import type { ProviderHealth } from '@/lib/providers';
+import type { ScanDiagnostics } from '@/lib/types';
+import { cn } from '@/lib/utils';
+
+interface EngineStatusProps {
+  diagnostics?: ScanDiagnostics | null;
+}
+
+function providerStatus(p: ProviderHealth): { label: string; className: string } {
+  if (!p.enabled) return { label: 'disabled', className: 'text-muted-foreground' };
+  if (!p.configured) return { label: 'not configured', className: 'text-muted-foreground' };
+  if (p.circuit === 'open') return { label: 'paused', className: 'text-destructive' };
+  if (p.lastCallOk === false) return { label: 'failed', className: 'text-destructive' };
+  if (p.lastCallOk === true) return { label: 'ok', className: 'text-success' };
+  return { label: 'idle', className: 'text-muted-foreground' };
+}
 
 /**
  * Engine Status Indicator
- * 
- * Shows that the app is connected to live market data APIs.
+ *
+ * Shows that the app is connected to live market data APIs and, after a scan,
+ * the status of each data provider reported in the scan diagnostics.
  */
-export function EngineStatus() {
+export function EngineStatus({ diagnostics }: EngineStatusProps) {
+  const providers = (diagnostics?.providers ?? []).filter(p => p.enabled && p.configured);
+  const degraded = providers.some(p => p.circuit === 'open' || p.lastCallOk === false);
+  const Icon = !diagnostics ? AlertCircle : degraded ? AlertTriangle : CheckCircle2;
+
   return (
     <TooltipProvider>
       <Tooltip>
         <TooltipTrigger asChild>
           <Badge
-            variant="default"
+            variant={degraded ? 'destructive' : 'default'}
             className="inline-flex items-center gap-2 rounded-full px-3 py-1 text-xs font-medium cursor-help"
           >
-            <AlertCircle className="w-3 h-3" />
-            <span>Live Market Data</span>
+            <Icon className="w-3 h-3" />
+            <span>{diagnostics?.providers.length === 0 ? 'Mock Data' : degraded ? 'Live Data (Degraded)' : 'Live Market Data'}</span>
           </Badge>
         </TooltipTrigger>
         <TooltipContent side="bottom" className="max-w-xs">
-          <p className="text-sm">
-            Connected to live market data APIs. Results reflect real-time market conditions.
-          </p>
+          {diagnostics && diagnostics.providers.length > 0 ? (
+            <div className="space-y-1">
+              <p className="text-sm font-medium">Providers (last scan)</p>
+              {diagnostics.providers.map((p) => {
+                const status = providerStatus(p);
+                return (
+                  <div key={p.id} className="flex items-center justify-between gap-4 text-xs">
+                    <span>
+                      {p.name} <span className="text-muted-foreground">({p.kind})</span>
+                    </span>
+                    <span className={cn('font-medium', status.className)}>{status.label}</span>
+                  </div>
+                );
+              })}
+            </div>
+          ) : (
+            <p className="text-sm">
+              Connected to live market data APIs. Results reflect real-time market conditions.
+            </p>
+          )}
         </TooltipContent>
       </Tooltip>
     </TooltipProvider>
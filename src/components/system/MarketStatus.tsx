@@ -0,0 +1,49 @@
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { MarketSession } from '@/lib/types';
+import { MARKET_SESSION_LABELS } from '@/lib/session';
+import { MarketStatus as MarketStatusInfo, getMarketStatus } from '@/lib/marketCalendar';
+import { cn } from '@/lib/utils';
+
+const SESSION_CLASSES: Record<MarketSession, string> = {
+  'pre-market': 'text-explosive-medium',
+  'regular': 'text-success',
+  'after-hours': 'text-explosive-medium',
+  'closed': 'text-muted-foreground',
+};
+
+/**
+ * Holiday or early close, otherwise the next open or close (local time)
+ */
+function describeStatus(status: MarketStatusInfo): string {
+  const opens = `Opens ${format(status.nextOpen, 'EEE h:mm a')}`;
+  if (status.holiday) return `${status.holiday.name} · ${opens}`;
+  if (status.closesAt != null) {
+    const closes = `${status.earlyClose ? 'Early close' : 'Closes'} ${format(status.closesAt, 'h:mm a')}`;
+    return status.session === 'regular' ? closes : `${opens} · ${closes}`;
+  }
+  return opens;
+}
+
+/**
+ * Market Status
+ *
+ * The US equity session in progress (New York time) from the market calendar,
+ * with the holiday, early close or next open, re-checked every 30 seconds.
+ */
+export function MarketStatus() {
+  const [status, setStatus] = useState<MarketStatusInfo>(() => getMarketStatus());
+
+  useEffect(() => {
+    const id = setInterval(() => setStatus(getMarketStatus()), 30_000);
+    return () => clearInterval(id);
+  }, []);
+
+  return (
+    <div className="text-right">
+      <p className="text-xs text-muted-foreground">Market Status</p>
+      <p className={cn('text-sm font-semibold', SESSION_CLASSES[status.session])}>{MARKET_SESSION_LABELS[status.session]}</p>
+      <p className="text-[10px] text-muted-foreground">{describeStatus(status)}</p>
+    </div>
+  );
+}
@@ -0,0 +1,144 @@
+import { useEffect, useState } from 'react';
+import { BiotechEventBonus, ScoringModel, ScoringWeights } from '@/lib/types';
+import { DEFAULT_SCORING_MODEL } from '@/lib/scoring';
+import { MAX_BIOTECH_EVENT_BONUS_POINTS, normalizeBiotechEventBonus } from '@/lib/biotech';
+import { Card } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { RotateCcw } from 'lucide-react';
+
+interface ScoringModelSettingsProps {
+  scoringModel: ScoringModel;
+  onScoringModelChange: (model: ScoringModel) => void;
+}
+
+const WEIGHT_LABELS: Record<keyof ScoringWeights, string> = {
+  momentum: 'Momentum',
+  structure: 'Structure',
+  catalysts: 'Catalysts',
+  sentiment: 'Sentiment',
+  squeeze: 'Squeeze',
+};
+
+function toPercentWeights(weights: ScoringWeights): ScoringWeights {
+  // Models saved before the squeeze sub-score existed have no squeeze weight
+  const squeeze = weights.squeeze ?? DEFAULT_SCORING_MODEL.weights.squeeze;
+  const total = weights.momentum + weights.structure + weights.catalysts + weights.sentiment + squeeze || 1;
+  return {
+    momentum: Math.round((weights.momentum / total) * 100),
+    structure: Math.round((weights.structure / total) * 100),
+    catalysts: Math.round((weights.catalysts / total) * 100),
+    sentiment: Math.round((weights.sentiment / total) * 100),
+    squeeze: Math.round((squeeze / total) * 100),
+  };
+}
+
+/**
+ * Scoring Model Settings
+ *
+ * Edits the weights that combine sub-scores into the explosive potential and
+ * the catalysts bonus for upcoming biotech events. Changes are staged locally
+ * and applied as a new model version.
+ */
+export function ScoringModelSettings({ scoringModel, onScoringModelChange }: ScoringModelSettingsProps) {
+  const [draft, setDraft] = useState<ScoringWeights>(toPercentWeights(scoringModel.weights));
+  const [bonusDraft, setBonusDraft] = useState<BiotechEventBonus>(normalizeBiotechEventBonus(scoringModel.biotechEventBonus));
+
+  useEffect(() => {
+    setDraft(toPercentWeights(scoringModel.weights));
+    setBonusDraft(normalizeBiotechEventBonus(scoringModel.biotechEventBonus));
+  }, [scoringModel]);
+
+  const current = toPercentWeights(scoringModel.weights);
+  const currentBonus = normalizeBiotechEventBonus(scoringModel.biotechEventBonus);
+  const isDirty = (Object.keys(draft) as (keyof ScoringWeights)[]).some(key => draft[key] !== current[key])
+    || bonusDraft.points !== currentBonus.points
+    || bonusDraft.withinDays !== currentBonus.withinDays;
+  const total = draft.momentum + draft.structure + draft.catalysts + draft.sentiment + draft.squeeze;
+
+  const handleApply = () => {
+    if (total <= 0) return;
+    onScoringModelChange({
+      id: 'custom',
+      name: 'Custom',
+      version: scoringModel.version + 1,
+      weights: {
+        momentum: draft.momentum / total,
+        structure: draft.structure / total,
+        catalysts: draft.catalysts / total,
+        sentiment: draft.sentiment / total,
+        squeeze: draft.squeeze / total,
+      },
+      biotechEventBonus: bonusDraft,
+    });
+  };
+
+  const handleReset = () => {
+    onScoringModelChange({ ...DEFAULT_SCORING_MODEL, version: scoringModel.version + 1 });
+  };
+
+  return (
+    <Card className="p-4 bg-sidebar-accent/30 border-sidebar-border space-y-4">
+      <div className="flex items-center justify-between">
+        <Label className="text-xs font-semibold text-sidebar-foreground">Scoring Model</Label>
+        <Badge variant="outline" className="text-xs px-1.5 py-0">
+          {scoringModel.name} v{scoringModel.version}
+        </Badge>
+      </div>
+
+      {(Object.keys(WEIGHT_LABELS) as (keyof ScoringWeights)[]).map((key) => (
+        <div key={key} className="space-y-2">
+          <div className="flex items-center justify-between text-xs text-sidebar-foreground/80">
+            <span>{WEIGHT_LABELS[key]}</span>
+            <span className="font-mono">
+              {total > 0 ? Math.round((draft[key] / total) * 100) : 0}%
+            </span>
+          </div>
+          <Slider
+            value={[draft[key]]}
+            min={0}
+            max={100}
+            step={5}
+            onValueChange={([value]) => setDraft(prev => ({ ...prev, [key]: value }))}
+          />
+        </div>
+      ))}
+
+      <div className="space-y-2 pt-2 border-t border-sidebar-border">
+        <div className="flex items-center justify-between text-xs text-sidebar-foreground/80">
+          <span>Biotech event bonus</span>
+          <span className="font-mono">+{bonusDraft.points} pts</span>
+        </div>
+        <Slider
+          value={[bonusDraft.points]}
+          min={0}
+          max={MAX_BIOTECH_EVENT_BONUS_POINTS}
+          step={5}
+          onValueChange={([value]) => setBonusDraft(prev => ({ ...prev, points: value }))}
+        />
+        <div className="flex items-center justify-between text-xs text-sidebar-foreground/80">
+          <span>Event within</span>
+          <span className="font-mono">{bonusDraft.withinDays}d</span>
+        </div>
+        <Slider
+          value={[bonusDraft.withinDays]}
+          min={0}
+          max={90}
+          step={5}
+          onValueChange={([value]) => setBonusDraft(prev => ({ ...prev, withinDays: value }))}
+        />
+      </div>
+
+      <div className="flex gap-2">
+        <Button size="sm" className="flex-1" onClick={handleApply} disabled={!isDirty || total <= 0}>
+          Apply
+        </Button>
+        <Button size="sm" variant="ghost" onClick={handleReset} title="Reset to default weights and bonus">
+          <RotateCcw className="w-3 h-3" />
+        </Button>
+      </div>
+    </Card>
+  );
+}
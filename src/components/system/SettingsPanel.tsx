@@ -2,20 +2,27 @@ import { Card } from '@/components/ui/card';
 import { Label } from '@/components/ui/label';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Activity } from 'lucide-react';
+import { ScoringModel } from '@/lib/types';
+import { ScoringModelSettings } from './ScoringModelSettings';
+
+interface SettingsPanelProps {
+  scoringModel: ScoringModel;
+  onScoringModelChange: (model: ScoringModel) => void;
+}
 
 /**
  * Settings Panel
  * 
  * Displays engine configuration and status information.
  */
-export function SettingsPanel() {
+export function SettingsPanel({ scoringModel, onScoringModelChange }: SettingsPanelProps) {
   return (
     <div className="space-y-4">
       <div>
         <h3 className="text-sm font-semibold text-sidebar-foreground mb-3">
           Engine Settings
         </h3>
-        <Card className="p-4 bg-sidebar-accent/30 border-sidebar-border">
+        <Card className="p-4 bg-sidebar-accent/30 border-sidebar-border mb-4">
           <Label className="text-xs font-semibold text-sidebar-foreground mb-3 block">
             Data Source
           </Label>
@@ -28,6 +35,11 @@ export function SettingsPanel() {
             </AlertDescription>
           </Alert>
         </Card>
+
+        <ScoringModelSettings
+          scoringModel={scoringModel}
+          onScoringModelChange={onScoringModelChange}
+        />
       </div>
     </div>
   );
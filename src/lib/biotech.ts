@@ -0,0 +1,19 @@
+/**
+ * Biotech Event Calendar
+ * 
+ * PDUFA dates, advisory committees and trial readouts are parsed, selected
+ * and scored in the shared scan-core module; re-exported here for the app.
+ */
+
+export {
+  BIOTECH_EVENT_LOOKAHEAD_DAYS,
+  DEFAULT_BIOTECH_EVENT_BONUS,
+  MAX_BIOTECH_EVENT_BONUS_POINTS,
+  BIOTECH_EVENT_LABELS,
+  BIOTECH_EVENT_SHORT_LABELS,
+  parseBiotechEvents,
+  selectNextBiotechEvents,
+  normalizeBiotechEventBonus,
+  isBiotechEventInWindow,
+  deriveBiotechEventDriver,
+} from '@scan-core';
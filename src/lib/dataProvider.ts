@@ -1,5 +1,15 @@
-import { ScanRequest, ScanResult, ScanMode, MomentumGrade, Sentiment, RiskLevel, ScoreBreakdown } from './types';
+import { ScanRequest, ScanResponse, ScanResult, ScanMode, MarketSession, MomentumGrade, Sentiment, RiskLevel, ScoreBreakdown, ScoringModel, EarningsTime, UpcomingEarnings, BiotechEventType, NextBiotechEvent, DroppedTicker } from './types';
 import { DataMode, appConfig } from './config';
+import { deriveExplosivePotential, normalizeScoringModel, toScoringModelRef } from './scoring';
+import { parseScanResponse, SCAN_RESPONSE_VERSION } from './scanResponse';
+import { observedField } from './provenance';
+import { EARNINGS_SOON_DAYS, EARNINGS_LOOKAHEAD_DAYS } from './earnings';
+import { isBiotechEventInWindow, normalizeBiotechEventBonus } from './biotech';
+import { FILINGS_LOOKBACK_DAYS, assessFilingsRisk, summarizeFilings } from './filings';
+import type { RawFiling } from './providers';
+import { buildLiveUniverse } from './universe';
+import { deriveSessionTags } from './session';
+import { addCalendarDays, getMarketSession, newYorkDate } from './marketCalendar';
 
 /**
  * Market Data Provider Interface
@@ -8,7 +18,7 @@ import { DataMode, appConfig } from './config';
  * between mock data and live market APIs without changing UI code.
  */
 export interface MarketDataProvider {
-  runScan(request: ScanRequest): Promise<ScanResult[]>;
+  runScan(request: ScanRequest): Promise<ScanResponse>;
 }
 
 /**
@@ -52,29 +62,113 @@ class MockMarketDataProvider implements MarketDataProvider {
       momentum: this.randomInRange(50, 90),
       structure: this.randomInRange(45, 85),
       sentiment: this.randomInRange(40, 80),
+      squeeze: this.randomInRange(20, 80),
     };
   }
 
-  private generateMockResult(company: typeof this.MOCK_COMPANIES[0]): ScanResult {
+  /**
+   * A report within the lookahead window for roughly 40% of names
+   */
+  private generateEarnings(now: number): UpcomingEarnings | undefined {
+    if (Math.random() > 0.4) return undefined;
+    const daysUntil = Math.floor(Math.random() * (EARNINGS_LOOKAHEAD_DAYS + 1));
+    return {
+      date: addCalendarDays(newYorkDate(now), daysUntil),
+      time: this.randomPick<EarningsTime>(['before-open', 'after-close']),
+      daysUntil,
+      epsEstimate: parseFloat(this.randomInRange(-0.5, 2.5).toFixed(2)),
+      revenueEstimate: null,
+      source: 'mock',
+    };
+  }
+
+  /**
+   * A binary event within ~90 days for most Biotech names
+   */
+  private generateBiotechEvent(sector: string, now: number): NextBiotechEvent | undefined {
+    if (sector !== 'Biotech' || Math.random() > 0.7) return undefined;
+    const daysUntil = Math.floor(Math.random() * 91);
+    const type = this.randomPick<BiotechEventType>(['pdufa', 'adcom', 'readout']);
+    return {
+      type,
+      date: addCalendarDays(newYorkDate(now), daysUntil),
+      daysUntil,
+      phase: type === 'readout' ? this.randomPick(['2', '3']) : undefined,
+      source: 'mock',
+    };
+  }
+
+  /**
+   * An offering, insider trade or 8-K within the lookback window for roughly 30% of names
+   */
+  private generateFilings(ticker: string, now: number): RawFiling[] {
+    if (Math.random() > 0.3) return [];
+    const filedAt = addCalendarDays(newYorkDate(now), -Math.floor(Math.random() * FILINGS_LOOKBACK_DAYS));
+    return [
+      this.randomPick<RawFiling>([
+        { source: 'mock', ticker, formType: '424B5', filedAt },
+        { source: 'mock', ticker, formType: 'S-3', filedAt },
+        { source: 'mock', ticker, formType: '4', filedAt, insider: { name: 'Director', transactionCode: 'P', shares: 25000 } },
+        { source: 'mock', ticker, formType: '4', filedAt, insider: { name: 'CEO', transactionCode: 'S', shares: -40000 } },
+        { source: 'mock', ticker, formType: '8-K', filedAt, items: ['5.02', '9.01'] },
+      ]),
+    ];
+  }
+
+  /**
+   * Gap and extended-hours figures; the extended change only exists during pre-market and after-hours
+   */
+  private generateSessionFigures(session: MarketSession) {
+    const extended = session === 'pre-market' || session === 'after-hours';
+    return {
+      session,
+      gapPercent: parseFloat(this.randomInRange(-8, 15).toFixed(2)),
+      preMarketVolume: Math.round(this.randomInRange(10000, 2000000)),
+      afterHoursVolume: session === 'after-hours' ? Math.round(this.randomInRange(5000, 800000)) : undefined,
+      extendedChangePercent: extended ? parseFloat(this.randomInRange(-10, 18).toFixed(2)) : undefined,
+    };
+  }
+
+  private generateMockResult(
+    company: typeof this.MOCK_COMPANIES[0],
+    scoringModel: ScoringModel,
+    mode: ScanMode,
+    session: MarketSession,
+  ): ScanResult {
     const scoreBreakdown = this.generateScoreBreakdown();
-    const explosivePotential = Math.round(
-      scoreBreakdown.catalysts * 0.3 +
-      scoreBreakdown.momentum * 0.25 +
-      scoreBreakdown.structure * 0.25 +
-      scoreBreakdown.sentiment * 0.2
-    );
-
-    const riskLevel: RiskLevel =
+    // Same weighting as the live engine so mock and live scores are comparable
+    const explosivePotential = deriveExplosivePotential(scoreBreakdown, scoringModel);
+
+    const scoreRisk: RiskLevel =
       explosivePotential > 80
         ? Math.random() > 0.3 ? 'High' : 'Medium'
         : explosivePotential < 50 ? 'Low' : 'Medium';
 
     const basePrice = this.randomInRange(10, 180);
-    const changePercent = this.randomInRange(-12, 22);
+    const sessionFigures = this.generateSessionFigures(session);
+    const changePercent = mode === 'extended-hours'
+      ? sessionFigures.extendedChangePercent ?? this.randomInRange(-12, 22)
+      : this.randomInRange(-12, 22);
     const volume = this.randomInRange(1000000, 15000000);
+    const relativeVolume = this.randomInRange(0.5, 6);
     const float = this.randomInRange(20000000, 150000000);
+    const shortPercentOfFloat = this.randomInRange(2, 40);
+    const daysToCover = this.randomInRange(0.5, 8);
+    const atrPercent = this.randomInRange(1.5, 12);
+    const historicalVolatility = this.randomInRange(25, 140);
     const momentumGrade = this.randomPick(['A', 'B', 'C']) as MomentumGrade;
     const sentiment: Sentiment = changePercent > 0 ? 'Long' : Math.random() > 0.7 ? 'Neutral' : 'Short';
+    const now = Date.now();
+    const earnings = this.generateEarnings(now);
+    const tags = shortPercentOfFloat >= 20 && daysToCover >= 3 ? ['Volatility', 'Day Trade', 'Squeeze Setup'] : ['Volatility', 'Day Trade'];
+    if (earnings && earnings.daysUntil <= EARNINGS_SOON_DAYS) tags.push('Earnings Soon');
+    const biotechEvent = this.generateBiotechEvent(company.sector, now);
+    if (isBiotechEventInWindow(biotechEvent, normalizeBiotechEventBonus(scoringModel.biotechEventBonus))) tags.push('Biotech Catalyst');
+    const filings = summarizeFilings(this.generateFilings(company.ticker, now)).get(company.ticker);
+    const filingsRisk = assessFilingsRisk(filings, scoreRisk);
+    const { riskLevel } = filingsRisk;
+    tags.push(...filingsRisk.tags);
+    tags.push(...deriveSessionTags(sessionFigures));
 
     return {
       ticker: company.ticker,
@@ -82,10 +176,15 @@ class MockMarketDataProvider implements MarketDataProvider {
       price: parseFloat(basePrice.toFixed(2)),
       changePercent: parseFloat(changePercent.toFixed(2)),
       volume: Math.round(volume),
+      relativeVolume: parseFloat(relativeVolume.toFixed(2)),
+      ...sessionFigures,
       marketCap: Math.round(basePrice * float),
       float: Math.round(float),
       sector: company.sector,
-      scanMode: 'unified',
+      shortInterest: Math.round(float * shortPercentOfFloat / 100),
+      shortPercentOfFloat: parseFloat(shortPercentOfFloat.toFixed(1)),
+      daysToCover: parseFloat(daysToCover.toFixed(1)),
+      scanMode: mode,
       catalystSummary: `${company.ticker} showing strong setup with upcoming catalyst events and momentum buildup`,
       momentumGrade,
       explosivePotential,
@@ -94,38 +193,101 @@ class MockMarketDataProvider implements MarketDataProvider {
         momentum: Math.round(scoreBreakdown.momentum),
         structure: Math.round(scoreBreakdown.structure),
         sentiment: Math.round(scoreBreakdown.sentiment),
+        squeeze: Math.round(scoreBreakdown.squeeze ?? 0),
       },
+      scoringModel: toScoringModelRef(scoringModel),
       sentiment,
       riskLevel,
-      riskNotes:
-        riskLevel === 'High'
+      riskNotes: [
+        scoreRisk === 'High'
           ? 'High volatility, position sizing critical'
-          : riskLevel === 'Medium'
+          : scoreRisk === 'Medium'
           ? 'Moderate risk, standard management applies'
           : 'Lower risk, suitable for larger positions',
+        ...filingsRisk.riskNotes,
+      ].join('. '),
       whyItMightMove: `Strong setup with ${explosivePotential} explosive potential score`,
-      tags: ['Volatility', 'Day Trade'],
+      tags,
+      atrPercent: parseFloat(atrPercent.toFixed(2)),
+      historicalVolatility: parseFloat(historicalVolatility.toFixed(1)),
+      earnings,
+      biotechEvent,
+      filings,
+      provenance: {
+        price: observedField('price', 'mock', now),
+        volume: observedField('volume', 'mock', now),
+        marketCap: observedField('marketCap', 'mock', now),
+        float: observedField('float', 'mock', now),
+        sector: observedField('sector', 'mock', now),
+      },
     };
   }
 
-  async runScan(request: ScanRequest): Promise<ScanResult[]> {
+  async runScan(request: ScanRequest): Promise<ScanResponse> {
+    const startedAt = new Date();
+
     // Simulate network delay
     await new Promise(resolve => setTimeout(resolve, 1200 + Math.random() * 800));
 
-    const shuffled = [...this.MOCK_COMPANIES].sort(() => Math.random() - 0.5);
-    const filtered =
-      request.filters.sectors.length > 0
-        ? shuffled.filter(c => request.filters.sectors.includes(c.sector))
-        : shuffled;
-    const companies = filtered.length < 8 ? shuffled.slice(0, 12) : filtered.slice(0, 12);
+    // A custom universe replaces the mock company list and is selected like a live
+    // scan's (trimmed, deduped, sector-filtered, capped), reporting what it leaves out;
+    // unknown tickers get placeholder metadata
+    let pool = this.MOCK_COMPANIES;
+    let companies: { ticker: string; name: string; sector: string }[];
+    const universeDropped: DroppedTicker[] = [];
+    if (request.tickers && request.tickers.length > 0) {
+      const known = this.MOCK_COMPANIES.map(c => ({ symbol: c.ticker, name: c.name, sector: c.sector }));
+      const { universe, dropped } = buildLiveUniverse(request, known);
+      pool = universe.map(meta =>
+        this.MOCK_COMPANIES.find(c => c.ticker === meta.symbol) ?? { ticker: meta.symbol, name: meta.symbol, sector: 'Unknown' }
+      );
+      companies = pool;
+      universeDropped.push(...dropped);
+    } else {
+      const shuffled = [...pool].sort(() => Math.random() - 0.5);
+      const filtered =
+        request.filters.sectors.length > 0
+          ? shuffled.filter(c => request.filters.sectors.includes(c.sector))
+          : shuffled;
+      companies = filtered.length < 8 ? shuffled.slice(0, 12) : filtered.slice(0, 12);
+    }
 
-    let results = companies.map(c => this.generateMockResult(c));
+    const scoringModel = normalizeScoringModel(request.scoringModel);
+    const session = getMarketSession(startedAt.getTime());
+    const generated = companies.map(c => this.generateMockResult(c, scoringModel, request.mode, session));
 
     // Apply all filters using shared filter utilities
     const { applyFiltersToResults } = await import('./filterUtils');
-    results = applyFiltersToResults(results, request.filters);
+    const results = applyFiltersToResults(generated, request.filters)
+      .sort((a, b) => b.explosivePotential - a.explosivePotential);
+    const kept = new Set(results.map(r => r.ticker));
 
-    return results.sort((a, b) => b.explosivePotential - a.explosivePotential);
+    return {
+      version: SCAN_RESPONSE_VERSION,
+      scanId: crypto.randomUUID?.() ?? `mock-${Date.now()}`,
+      dataMode: 'mock',
+      startedAt: startedAt.toISOString(),
+      session,
+      results,
+      diagnostics: {
+        stages: {
+          universe: pool.length,
+          snapshot: pool.length,
+          enriched: generated.length,
+          results: results.length,
+        },
+        timingsMs: { total: Date.now() - startedAt.getTime() },
+        providers: [],
+        rateLimits: [],
+        dropped: [
+          ...universeDropped,
+          ...generated
+            .filter(r => !kept.has(r.ticker))
+            .map(r => ({ ticker: r.ticker, reason: 'filtered' as const })),
+        ],
+        warnings: ['Mock data: prices and scores are simulated'],
+      },
+    };
   }
 }
 
@@ -139,7 +301,7 @@ class MockMarketDataProvider implements MarketDataProvider {
  * interface for multiple data sources.
  */
 class MultiSourceLiveMarketDataProvider implements MarketDataProvider {
-  async runScan(request: ScanRequest): Promise<ScanResult[]> {
+  async runScan(request: ScanRequest): Promise<ScanResponse> {
     try {
       // Import Supabase client dynamically to avoid circular dependencies
       const { supabase } = await import('@/integrations/supabase/client');
@@ -153,22 +315,10 @@ class MultiSourceLiveMarketDataProvider implements MarketDataProvider {
         throw new Error(`Live scan failed: ${error.message}`);
       }
 
-      // Edge function returns results array directly
-      if (!data) {
-        console.error('Live scan returned no data');
-        throw new Error('No data returned from live scan function');
-      }
-
-      // Handle both direct array response and wrapped response
-      const results = Array.isArray(data) ? data : (data as any)?.results || data;
-      
-      if (!Array.isArray(results)) {
-        console.error('Invalid response format:', data);
-        throw new Error('Invalid response from live scan function - expected results array');
-      }
+      const response = parseScanResponse(data);
 
-      console.log(`Live scan returned ${results.length} results`);
-      return results;
+      console.log(`Live scan ${response.scanId} returned ${response.results.length} results`);
+      return response;
     } catch (err) {
       console.error('MultiSourceLiveMarketDataProvider.runScan error:', err);
       throw new Error(
@@ -0,0 +1,16 @@
+/**
+ * Earnings Calendar
+ * 
+ * Upcoming-earnings selection, the earnings filter check and the catalysts
+ * driver live in the shared scan-core module; re-exported here for the app.
+ */
+
+export {
+  EARNINGS_LOOKAHEAD_DAYS,
+  EARNINGS_SOON_DAYS,
+  EARNINGS_TIME_LABELS,
+  buildEarningsQuery,
+  selectUpcomingEarnings,
+  reportsWithin,
+  deriveEarningsDriver,
+} from '@scan-core';
@@ -29,6 +29,10 @@ export function exportScanResultsToCsv(results: ScanResult[]): string {
     'Price',
     'ChangePercent',
     'Volume',
+    'RelativeVolume',
+    'Session',
+    'GapPercent',
+    'PreMarketVolume',
     'MarketCap',
     'Float',
     'ExplosivePotential',
@@ -39,6 +43,16 @@ export function exportScanResultsToCsv(results: ScanResult[]): string {
     'MomentumScore',
     'StructureScore',
     'SentimentScore',
+    'SqueezeScore',
+    'ShortInterest',
+    'ShortPercentOfFloat',
+    'DaysToCover',
+    'BorrowFeePercent',
+    'EarningsDate',
+    'EarningsTime',
+    'EpsEstimate',
+    'BiotechEvent',
+    'BiotechEventDate',
   ];
 
   const rows = results.map(r => [
@@ -48,6 +62,10 @@ export function exportScanResultsToCsv(results: ScanResult[]): string {
     r.price.toFixed(2),
     r.changePercent.toFixed(2),
     r.volume,
+    r.relativeVolume != null ? r.relativeVolume.toFixed(2) : '',
+    r.session ?? '',
+    r.gapPercent != null ? r.gapPercent.toFixed(2) : '',
+    r.preMarketVolume ?? '',
     r.marketCap,
     r.float,
     r.explosivePotential,
@@ -58,6 +76,16 @@ export function exportScanResultsToCsv(results: ScanResult[]): string {
     r.scoreBreakdown.momentum,
     r.scoreBreakdown.structure,
     r.scoreBreakdown.sentiment,
+    r.scoreBreakdown.squeeze ?? '',
+    r.shortInterest ?? '',
+    r.shortPercentOfFloat != null ? r.shortPercentOfFloat.toFixed(2) : '',
+    r.daysToCover != null ? r.daysToCover.toFixed(2) : '',
+    r.borrowFeePercent != null ? r.borrowFeePercent.toFixed(2) : '',
+    r.earnings?.date ?? '',
+    r.earnings?.time ?? '',
+    r.earnings?.epsEstimate ?? '',
+    r.biotechEvent?.type ?? '',
+    r.biotechEvent?.date ?? '',
   ]);
 
   const csvLines = [headers.join(','), ...rows.map(row => row.join(','))];
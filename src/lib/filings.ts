@@ -0,0 +1,17 @@
+/**
+ * SEC Filings
+ * 
+ * Offerings, shelf registrations, Form 4 insider trades and 8-K items are
+ * classified in the shared scan-core module; re-exported here for the app.
+ */
+
+export {
+  FILINGS_LOOKBACK_DAYS,
+  MAX_FILING_SIGNALS,
+  FILING_SIGNAL_LABELS,
+  classifyFiling,
+  summarizeFilings,
+  assessFilingsRisk,
+  parseFilingsFixture,
+  createFixtureFilingsProvider,
+} from '@scan-core';
@@ -87,4 +87,3 @@ export async function fetchFinnhubQuote(ticker: string): Promise<RawQuote | null
 // - fetchFinnhubCandles(ticker, resolution, from, to) for historical data
 // - fetchFinnhubProfile(ticker) for company info (name, sector, marketCap, etc.)
 // - fetchFinnhubNews(ticker) for catalyst detection
-// - fetchFinnhubEarnings(ticker) for earnings calendar
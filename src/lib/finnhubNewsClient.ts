@@ -5,17 +5,9 @@
  * Used in edge functions to enrich scan results with real news data.
  */
 
-import { QuoteSource } from './quoteTypes';
+import type { RawNewsItem } from './providers';
 
-export interface RawNewsItem {
-  source: QuoteSource | 'finnhub-news';
-  ticker: string;
-  headline: string;
-  summary: string;
-  url: string;
-  datetime: string; // ISO string
-  category?: string;
-}
+export type { RawNewsItem };
 
 const FINNHUB_BASE_URL = 'https://finnhub.io/api/v1';
 
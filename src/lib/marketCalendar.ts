@@ -0,0 +1,31 @@
+/**
+ * Market Calendar
+ * 
+ * NYSE holidays, early closes, trading-day arithmetic and session boundaries
+ * in New York time live in the shared scan-core module; re-exported here for
+ * the app.
+ */
+
+export {
+  SESSION_TIMES,
+  EARLY_CLOSE_SESSION_TIMES,
+  newYorkDate,
+  newYorkClock,
+  newYorkTime,
+  addCalendarDays,
+  daysUntilDate,
+  nyseHolidays,
+  getMarketHoliday,
+  isTradingDay,
+  isEarlyClose,
+  getSessionTimes,
+  addTradingDays,
+  previousTradingDay,
+  nextTradingDay,
+  lastCompletedTradingDay,
+  buildTradingDayQuery,
+  recentTradingDaysRange,
+  getMarketSession,
+  getMarketStatus,
+} from '@scan-core';
+export type { MarketHoliday, MarketStatus, SessionTimes } from '@scan-core';
@@ -0,0 +1,15 @@
+/**
+ * News Analysis
+ * 
+ * Story clustering, sentiment and catalyst classification of news run in the
+ * shared scan-core module; re-exported here for the app.
+ */
+
+export type { CatalystType, NewsCluster } from '@scan-core';
+export {
+  NEWS_SOURCE_LABELS,
+  newsSourceLabel,
+  describeSentiment,
+  clusterNews,
+  analyzeCatalysts,
+} from '@scan-core';
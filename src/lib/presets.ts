@@ -0,0 +1,30 @@
+import { ScanPreset } from './types';
+import { GAPPER_MIN_PERCENT } from './session';
+
+/**
+ * Built-in Scan Presets
+ * 
+ * Presets replace the current mode and filters; unlike saved profiles they
+ * ship with the app and cannot be deleted.
+ */
+export const SCAN_PRESETS: ScanPreset[] = [
+  {
+    id: 'gappers',
+    name: 'Gappers',
+    description: `Gapping ≥${GAPPER_MIN_PERCENT}% with real pre-market volume, priced above $1`,
+    mode: 'extended-hours',
+    filters: {
+      marketCap: 'any',
+      minPrice: 1,
+      maxPrice: undefined,
+      minVolume: undefined,
+      minRelativeVolume: undefined,
+      sectors: [],
+      highVolatilityOnly: false,
+      volatilityMethod: 'dailyChange',
+      earningsWithinDays: undefined,
+      minGapPercent: GAPPER_MIN_PERCENT,
+      minPreMarketVolume: 50_000,
+    },
+  },
+];
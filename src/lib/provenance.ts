@@ -0,0 +1,12 @@
+/**
+ * Field Provenance
+ * 
+ * Source, age and estimate flags for ScanResult values are computed in the
+ * shared scan-core module; re-exported here for the app.
+ */
+
+export {
+  PROVENANCE_STALE_AFTER_MS,
+  observedField,
+  estimatedField,
+} from '@scan-core';
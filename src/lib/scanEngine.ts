@@ -1,4 +1,4 @@
-import { ScanRequest, ScanResult } from './types';
+import { ScanRequest, ScanResponse } from './types';
 import { getMarketDataProvider } from './dataProvider';
 import { appConfig, DataMode } from './config';
 
@@ -18,11 +18,11 @@ import { appConfig, DataMode } from './config';
  * 
  * @param request - The scan configuration including mode and filters
  * @param modeOverride - Optional data mode override (mock or live)
- * @returns Promise resolving to an array of scan results
+ * @returns Promise resolving to the scan response (results plus diagnostics)
  * 
  * @example
  * ```ts
- * const results = await runScan({
+ * const { results, diagnostics } = await runScan({
  *   mode: 'catalyst-hunter',
  *   filters: {
  *     marketCap: 'small',
@@ -32,7 +32,7 @@ import { appConfig, DataMode } from './config';
  * }, 'live');
  * ```
  */
-export async function runScan(request: ScanRequest, modeOverride?: DataMode): Promise<ScanResult[]> {
+export async function runScan(request: ScanRequest, modeOverride?: DataMode): Promise<ScanResponse> {
   const provider = getMarketDataProvider(modeOverride ?? appConfig.dataMode);
   return provider.runScan(request);
 }
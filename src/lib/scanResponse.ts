@@ -0,0 +1,12 @@
+/**
+ * Scan Response Envelope
+ * 
+ * The envelope returned by every scan (results plus diagnostics) is defined in
+ * the shared scan-core module so the edge function and the app agree on it.
+ */
+
+export {
+  SCAN_RESPONSE_VERSION,
+  DROPPED_REASON_LABELS,
+  parseScanResponse,
+} from '@scan-core';
@@ -0,0 +1,13 @@
+/**
+ * Scoring Model helpers
+ * 
+ * The scoring model and explosive-potential math are defined in the shared
+ * scan-core module so mock and live scores use identical weights.
+ */
+
+export {
+  DEFAULT_SCORING_MODEL,
+  normalizeScoringModel,
+  toScoringModelRef,
+  deriveExplosivePotential,
+} from '@scan-core';
@@ -0,0 +1,9 @@
+/**
+ * Sector Taxonomy
+ * 
+ * The canonical sectors, their industries and the provider mapping tables
+ * live in the shared scan-core module; re-exported here for the app.
+ */
+
+export type { Sector, SectorDefinition, SectorMapping } from '@scan-core';
+export { SECTOR_TAXONOMY, normalizeSector, canonicalSector } from '@scan-core';
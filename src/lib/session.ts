@@ -0,0 +1,16 @@
+/**
+ * Market Sessions
+ * 
+ * Session labels and the session-aware gap and extended-hours volume live in
+ * the shared scan-core module; re-exported here for the app. Session
+ * boundaries and the session clock are in the market calendar.
+ */
+
+export {
+  GAPPER_MIN_PERCENT,
+  MARKET_SESSION_LABELS,
+  MARKET_SESSION_SHORT_LABELS,
+  computeSessionMetrics,
+  deriveSessionTags,
+} from '@scan-core';
+export type { SessionMetrics } from '@scan-core';
@@ -1,4 +1,4 @@
-import { SavedScanProfile, WatchlistItem } from './types';
+import { CustomUniverse, SavedScanProfile, ScoringModel, WatchlistItem } from './types';
 import { DataMode } from './config';
 
 /**
@@ -45,6 +45,20 @@ export const storage = {
     safeSetItem('detonationScanner.savedScans', value);
   },
 
+  /**
+   * Get all custom universes
+   */
+  getCustomUniverses(): CustomUniverse[] {
+    return safeGetItem<CustomUniverse[]>('detonationScanner.customUniverses', []);
+  },
+
+  /**
+   * Save custom universes to storage
+   */
+  setCustomUniverses(value: CustomUniverse[]): void {
+    safeSetItem('detonationScanner.customUniverses', value);
+  },
+
   /**
    * Get all watchlist items
    */
@@ -75,6 +89,20 @@ export const storage = {
     safeSetItem('detonationScanner.dataMode', mode);
   },
 
+  /**
+   * Get the user's scoring model (null when the default is in use)
+   */
+  getScoringModel(): ScoringModel | null {
+    return safeGetItem<ScoringModel | null>('detonationScanner.scoringModel', null);
+  },
+
+  /**
+   * Save the user's scoring model
+   */
+  setScoringModel(model: ScoringModel): void {
+    safeSetItem('detonationScanner.scoringModel', model);
+  },
+
   /**
    * Get scan history entries
    */
@@ -1,66 +1,72 @@
-export type ScanMode = 'unified';
-export type MomentumGrade = 'A' | 'B' | 'C' | 'D';
-export type Sentiment = 'Long' | 'Short' | 'Neutral';
-export type RiskLevel = 'Low' | 'Medium' | 'High';
-export type MarketCapRange = 'micro' | 'small' | 'mid' | 'large' | 'any';
+import type { ScanMode, ScanFilters, ScanResult, ScoringModel } from '@scan-core';
 
-export interface ScoreBreakdown {
-  catalysts: number;
-  momentum: number;
-  structure: number;
-  sentiment: number;
-}
-
-export interface ScanFilters {
-  marketCap: MarketCapRange;
-  minPrice?: number;
-  maxPrice?: number;
-  minVolume?: number;
-  sectors: string[];
-  highVolatilityOnly?: boolean;
-}
-
-export interface ScanRequest {
-  mode: ScanMode;
-  filters: ScanFilters;
-  notes?: string;
-}
-
-export interface ScanResult {
-  ticker: string;
-  companyName: string;
-  price: number;
-  changePercent: number;
-  volume: number;
-  marketCap: number;
-  float: number;
-  sector: string;
-  scanMode: ScanMode;
-  catalystSummary: string;
-  momentumGrade: MomentumGrade;
-  explosivePotential: number;
-  scoreBreakdown: ScoreBreakdown;
-  sentiment: Sentiment;
-  riskLevel: RiskLevel;
-  riskNotes: string;
-  whyItMightMove: string;
-  tags: string[];
-  // Optional news/catalyst fields (populated in live mode)
-  primaryNewsHeadline?: string;
-  primaryNewsUrl?: string;
-  primaryNewsDatetime?: string; // ISO string
-}
-
-export const SECTORS = ['Technology', 'Biotech', 'Energy', 'Defense', 'Retail', 'Finance', 'Healthcare', 'Industrial', 'Materials', 'Communications'];
+/**
+ * Core scan types live in the shared scan-core module so the live-scan edge
+ * function and the browser cannot drift apart. App-only types stay here.
+ */
+export type {
+  ScanMode,
+  MomentumGrade,
+  Sentiment,
+  RiskLevel,
+  MarketCapRange,
+  CapBucket,
+  VolatilityMethod,
+  MarketSession,
+  ScoreBreakdown,
+  ScoringWeights,
+  ScoreDriver,
+  ScoreDrivers,
+  ScoringModel,
+  ScoringModelRef,
+  TechnicalIndicators,
+  ScanFilters,
+  ScanRequest,
+  ScanResult,
+  ProvenanceField,
+  FieldProvenance,
+  ScanResultProvenance,
+  NewsEntry,
+  EarningsTime,
+  UpcomingEarnings,
+  BiotechEventType,
+  NextBiotechEvent,
+  BiotechEventBonus,
+  FilingSignalType,
+  FilingSignal,
+  FilingsSummary,
+  PreScoreWeights,
+  PreScreenSettings,
+  ScanStageCounts,
+  ScanStage,
+  ScanResponse,
+  ScanDiagnostics,
+  DroppedTicker,
+  DroppedTickerReason,
+} from '@scan-core';
+export { SECTORS } from '@scan-core';
 
 export const SCAN_MODE_LABELS: Record<ScanMode, string> = {
   'unified': 'Unified Scan',
+  'extended-hours': 'Pre/Post Market',
 };
 
 export const SCAN_MODE_DESCRIPTIONS: Record<ScanMode, string> = {
   'unified': 'Comprehensive market scan driven by your custom filters',
+  'extended-hours': 'Pre-market and after-hours movers scored on their extended-hours change',
 };
 
+/**
+ * Scan Preset - a built-in mode and filter set applied in one click
+ */
+export interface ScanPreset {
+  id: string;
+  name: string;
+  description: string;
+  mode: ScanMode;
+  filters: ScanFilters;
+}
+
 /**
  * Saved Scan Profile - stores scan configurations for quick reuse
  */
@@ -70,10 +76,23 @@ export interface SavedScanProfile {
   description?: string;
   mode: ScanMode;
   filters: ScanFilters;
+  scoringModel?: ScoringModel;
+  universeId?: string; // CustomUniverse scanned by this profile (default universe when absent)
   notes?: string;
   createdAt: string;
 }
 
+/**
+ * Custom Universe - a user-defined ticker list to scan instead of the default universe
+ */
+export interface CustomUniverse {
+  id: string;
+  name: string;
+  description?: string;
+  tickers: string[];
+  createdAt: string;
+}
+
 /**
  * Watchlist Item - stores snapshots of scan results for tracking
  */
@@ -6,7 +6,8 @@ import { ScanResultsTable } from '@/components/scan/ScanResultsTable';
 import { ScanDetailDrawer } from '@/components/scan/ScanDetailDrawer';
 import { FiltersSummary } from '@/components/scan/FiltersSummary';
 import { Button } from '@/components/ui/button';
-import { ScanMode, ScanFilters, ScanResult, ScanRequest, SavedScanProfile, WatchlistItem, ScanHistoryEntry } from '@/lib/types';
+import { ScanMode, ScanFilters, ScanResult, ScanRequest, SavedScanProfile, WatchlistItem, ScanHistoryEntry, ScoringModel, CustomUniverse, ScanDiagnostics, ScanPreset } from '@/lib/types';
+import { DEFAULT_SCORING_MODEL, normalizeScoringModel } from '@/lib/scoring';
 import { runScan } from '@/lib/scanEngine';
 import { storage } from '@/lib/storage';
 import { exportScanResultsToCsv, downloadCsv, generateTimestampedFilename } from '@/lib/export';
@@ -14,37 +15,55 @@ import { toast } from '@/hooks/use-toast';
 import { Download } from 'lucide-react';
 
 const Index = () => {
+  const [mode, setMode] = useState<ScanMode>('unified');
   const [filters, setFilters] = useState<ScanFilters>({
     marketCap: 'any',
     minPrice: undefined,
     maxPrice: undefined,
     minVolume: undefined,
+    minRelativeVolume: undefined,
     sectors: [],
     highVolatilityOnly: false,
+    volatilityMethod: 'dailyChange',
+    earningsWithinDays: undefined,
   });
   const [isScanning, setIsScanning] = useState(false);
   const [results, setResults] = useState<ScanResult[]>([]);
   const [selectedResult, setSelectedResult] = useState<ScanResult | null>(null);
   const [lastRunAt, setLastRunAt] = useState<string | undefined>(undefined);
+  const [lastScanId, setLastScanId] = useState<string | undefined>(undefined);
+  const [diagnostics, setDiagnostics] = useState<ScanDiagnostics | null>(null);
 
   // Saved Scans State
   const [savedScans, setSavedScans] = useState<SavedScanProfile[]>([]);
 
+  // Custom Universe State
+  const [customUniverses, setCustomUniverses] = useState<CustomUniverse[]>([]);
+  const [activeUniverseId, setActiveUniverseId] = useState<string | null>(null);
+
   // Watchlist State
   const [watchlist, setWatchlist] = useState<WatchlistItem[]>([]);
 
   // Scan History State
   const [scanHistory, setScanHistory] = useState<ScanHistoryEntry[]>([]);
 
+  // Scoring Model State
+  const [scoringModel, setScoringModel] = useState<ScoringModel>(DEFAULT_SCORING_MODEL);
+
   // Load saved data from localStorage on mount
   useEffect(() => {
     const initialSaved = storage.getSavedScans();
+    const initialUniverses = storage.getCustomUniverses();
     const initialWatchlist = storage.getWatchlist();
     const initialHistory = storage.getScanHistory();
+    const initialScoringModel = storage.getScoringModel();
     
     setSavedScans(initialSaved);
+    setCustomUniverses(initialUniverses);
     setWatchlist(initialWatchlist);
     setScanHistory(initialHistory);
+    // Models saved by older versions lack newer weights; the normalized one is stored back below
+    if (initialScoringModel) setScoringModel(normalizeScoringModel(initialScoringModel));
   }, []);
 
   // Persist saved scans to localStorage
@@ -52,6 +71,11 @@ const Index = () => {
     storage.setSavedScans(savedScans);
   }, [savedScans]);
 
+  // Persist custom universes to localStorage
+  useEffect(() => {
+    storage.setCustomUniverses(customUniverses);
+  }, [customUniverses]);
+
   // Persist watchlist to localStorage
   useEffect(() => {
     storage.setWatchlist(watchlist);
@@ -62,6 +86,11 @@ const Index = () => {
     storage.setScanHistory(scanHistory);
   }, [scanHistory]);
 
+  // Persist scoring model to localStorage
+  useEffect(() => {
+    storage.setScoringModel(scoringModel);
+  }, [scoringModel]);
+
   // Calculate summary metrics
   const averageExplosivePotential = results.length > 0
     ? results.reduce((sum, r) => sum + r.explosivePotential, 0) / results.length
@@ -69,6 +98,8 @@ const Index = () => {
   
   const highRiskCount = results.filter(r => r.riskLevel === 'High').length;
 
+  const activeUniverse = customUniverses.find(u => u.id === activeUniverseId) ?? null;
+
   const handleRunScan = async () => {
     setIsScanning(true);
     setResults([]);
@@ -78,14 +109,20 @@ const Index = () => {
     const { normalizeFilters } = await import('@/lib/filterUtils');
 
     const request: ScanRequest = {
-      mode: 'unified',
+      mode,
       filters: normalizeFilters(filters),
+      scoringModel,
+      universeId: activeUniverse?.id,
+      tickers: activeUniverse?.tickers,
     };
 
     try {
-      const scanResults = await runScan(request, 'live');
+      const response = await runScan(request, 'live');
+      const scanResults = response.results;
       setResults(scanResults);
-      setLastRunAt(new Date().toLocaleTimeString());
+      setLastScanId(response.scanId);
+      setDiagnostics(response.diagnostics);
+      setLastRunAt(new Date(response.startedAt).toLocaleTimeString());
       
       // Log to scan history
       logScanToHistory(request, scanResults.length);
@@ -117,7 +154,8 @@ const Index = () => {
   // Helper to log scan to history
   const logScanToHistory = async (request: ScanRequest, resultCount: number) => {
     const { buildFiltersSummary } = await import('@/lib/filterUtils');
-    const filtersSummary = buildFiltersSummary(request.filters);
+    const universe = customUniverses.find(u => u.id === request.universeId);
+    const filtersSummary = buildFiltersSummary(request.filters) + (universe ? ` | Universe: ${universe.name}` : '');
     
     const entry: ScanHistoryEntry = {
       id: crypto.randomUUID?.() ?? `h-${Date.now()}`,
@@ -144,8 +182,10 @@ const Index = () => {
       id: crypto.randomUUID?.() ?? `profile-${Date.now()}`,
       name,
       description,
-      mode: 'unified',
+      mode,
       filters: normalizeFilters(filters),
+      scoringModel,
+      universeId: activeUniverse?.id,
       createdAt: new Date().toISOString(),
     };
 
@@ -159,7 +199,12 @@ const Index = () => {
 
   // Load a saved profile
   const handleLoadProfile = (profile: SavedScanProfile) => {
+    setMode(profile.mode);
     setFilters(profile.filters);
+    if (profile.scoringModel) setScoringModel(normalizeScoringModel(profile.scoringModel));
+    setActiveUniverseId(
+      profile.universeId && customUniverses.some(u => u.id === profile.universeId) ? profile.universeId : null
+    );
     
     toast({
       title: 'Profile Loaded',
@@ -167,6 +212,39 @@ const Index = () => {
     });
   };
 
+  // Apply a built-in preset (mode and filters)
+  const handleApplyPreset = (preset: ScanPreset) => {
+    setMode(preset.mode);
+    setFilters(preset.filters);
+
+    toast({
+      title: 'Preset Applied',
+      description: `"${preset.name}": ${preset.description}`,
+    });
+  };
+
+  // Create a custom universe and make it the active one
+  const handleCreateUniverse = (universe: CustomUniverse) => {
+    setCustomUniverses(prev => [...prev, universe]);
+    setActiveUniverseId(universe.id);
+
+    toast({
+      title: 'Universe Saved',
+      description: `"${universe.name}" with ${universe.tickers.length} tickers is now active`,
+    });
+  };
+
+  // Delete a custom universe
+  const handleDeleteUniverse = (id: string) => {
+    setCustomUniverses(prev => prev.filter(u => u.id !== id));
+    if (activeUniverseId === id) setActiveUniverseId(null);
+
+    toast({
+      title: 'Universe Deleted',
+      description: 'Custom universe removed',
+    });
+  };
+
   // Delete a saved profile
   const handleDeleteProfile = (id: string) => {
     setSavedScans(prev => prev.filter(p => p.id !== id));
@@ -260,15 +338,23 @@ const Index = () => {
 
   return (
     <AppShell 
-      currentMode={'unified'} 
-      onModeChange={() => {}}
+      currentMode={mode}
+      onModeChange={setMode}
       savedScans={savedScans}
       onLoadProfile={handleLoadProfile}
       onDeleteProfile={handleDeleteProfile}
+      customUniverses={customUniverses}
+      activeUniverseId={activeUniverseId}
+      onSelectUniverse={setActiveUniverseId}
+      onCreateUniverse={handleCreateUniverse}
+      onDeleteUniverse={handleDeleteUniverse}
       watchlist={watchlist}
       onSelectWatchlistItem={handleSelectWatchlistItem}
       onRemoveWatchlistItem={handleRemoveWatchlistItem}
       scanHistory={scanHistory}
+      scoringModel={scoringModel}
+      onScoringModelChange={setScoringModel}
+      diagnostics={diagnostics}
     >
       <div className="p-6 space-y-6">
         <ScanControls
@@ -276,17 +362,20 @@ const Index = () => {
           onFiltersChange={setFilters}
           onRunScan={handleRunScan}
           onSaveProfile={handleSaveProfile}
+          onApplyPreset={handleApplyPreset}
           isScanning={isScanning}
         />
 
         <FiltersSummary filters={filters} />
 
         <ScanSummaryBar
-          mode={'unified'}
+          mode={mode}
           resultCount={results.length}
           averageExplosivePotential={averageExplosivePotential}
           highRiskCount={highRiskCount}
           lastRunAt={lastRunAt}
+          scanId={lastScanId}
+          diagnostics={diagnostics}
         />
 
         <div className="space-y-3">
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { parseBiotechEvents } from '@scan-core';
+
+describe('parseBiotechEvents', () => {
+  it('reads a JSON array or an object with an events list', () => {
+    const json = JSON.stringify([
+      { ticker: 'acme', type: 'PDUFA date', date: '2026-11-20', drug: 'ACM-101', indication: 'Obesity' },
+      { symbol: 'GLBX', type: 'Topline', date: '2026-12-01', phase: 3 },
+    ]);
+
+    expect(parseBiotechEvents(json, 'biotech-file')).toEqual([
+      { source: 'biotech-file', ticker: 'ACME', type: 'pdufa', date: '2026-11-20', drug: 'ACM-101', indication: 'Obesity' },
+      { source: 'biotech-file', ticker: 'GLBX', type: 'readout', date: '2026-12-01', phase: '3' },
+    ]);
+    expect(parseBiotechEvents(JSON.stringify({ events: [{ ticker: 'ACME', type: 'AdCom', date: '2026-11-05' }] }), 'biotech-file'))
+      .toEqual([{ source: 'biotech-file', ticker: 'ACME', type: 'adcom', date: '2026-11-05' }]);
+  });
+
+  it('reads CSV with any column order, quoted fields and comment lines', () => {
+    const csv = [
+      '# Upcoming catalysts',
+      'Date,Ticker,Type,Drug,Indication',
+      '2026-11-20,ACME,pdufa,ACM-101,"Obesity, adult"',
+      '',
+      '2026-11-05,GLBX,Advisory Committee,,',
+    ].join('\r\n');
+
+    expect(parseBiotechEvents(csv, 'biotech-file')).toEqual([
+      { source: 'biotech-file', ticker: 'ACME', type: 'pdufa', date: '2026-11-20', drug: 'ACM-101', indication: 'Obesity, adult' },
+      { source: 'biotech-file', ticker: 'GLBX', type: 'adcom', date: '2026-11-05' },
+    ]);
+  });
+
+  it('skips rows without a ticker, a known type or an ISO date', () => {
+    const csv = [
+      'ticker,type,date',
+      ',pdufa,2026-11-20',
+      'ACME,earnings,2026-11-20',
+      'ACME,pdufa,11/20/2026',
+      'ACME,pdufa,2026-11-20',
+    ].join('\n');
+
+    expect(parseBiotechEvents(csv, 'biotech-file').map(e => e.ticker)).toEqual(['ACME']);
+    expect(parseBiotechEvents('   ', 'biotech-file')).toEqual([]);
+  });
+});
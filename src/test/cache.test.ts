@@ -0,0 +1,81 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { MemoryCacheStore, ProviderCache } from '@scan-core';
+
+interface Item {
+  ticker: string;
+  headline: string;
+}
+
+function item(ticker: string, headline = `${ticker} news`): Item {
+  return { ticker, headline };
+}
+
+describe('ProviderCache.getOrFetch', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('fetches only the tickers that missed and serves the rest from the store', async () => {
+    const cache = new ProviderCache(new MemoryCacheStore());
+    const fetchMissing = vi.fn(async (tickers: string[]) => tickers.map(t => item(t)));
+
+    await cache.getOrFetch('news', 'finnhub-news', ['ACME'], fetchMissing);
+    const items = await cache.getOrFetch('news', 'finnhub-news', ['ACME', 'GLBX'], fetchMissing);
+
+    expect(fetchMissing).toHaveBeenLastCalledWith(['GLBX']);
+    expect(items).toEqual([item('ACME'), item('GLBX')]);
+    expect(cache.getStats()).toEqual({ hits: 1, misses: 2, errors: 0 });
+  });
+
+  it('caches only the requested misses, not items tagged with other tickers', async () => {
+    const cache = new ProviderCache(new MemoryCacheStore());
+    const fetchMissing = vi.fn(async (tickers: string[]) =>
+      tickers[0] === 'ACME' ? [item('ACME', 'Acme to acquire Globex'), item('GLBX', 'Acme to acquire Globex')] : tickers.map(t => item(t)));
+
+    const first = await cache.getOrFetch('news', 'finnhub-news', ['ACME'], fetchMissing);
+    expect(first).toHaveLength(2);
+
+    await cache.getOrFetch('news', 'finnhub-news', ['GLBX'], fetchMissing);
+    expect(fetchMissing).toHaveBeenLastCalledWith(['GLBX']);
+  });
+
+  it('does not cache tickers whose fetch came back empty', async () => {
+    const cache = new ProviderCache(new MemoryCacheStore());
+    const fetchMissing = vi.fn(async () => [] as Item[]);
+
+    await cache.getOrFetch('news', 'finnhub-news', ['ACME'], fetchMissing);
+    await cache.getOrFetch('news', 'finnhub-news', ['ACME'], fetchMissing);
+
+    expect(fetchMissing).toHaveBeenCalledTimes(2);
+  });
+
+  it('serves cached items when the fetch for the misses fails', async () => {
+    const cache = new ProviderCache(new MemoryCacheStore());
+    await cache.getOrFetch('news', 'finnhub-news', ['ACME'], async tickers => tickers.map(t => item(t)));
+
+    const failing = async (): Promise<Item[]> => {
+      throw new Error('upstream 503');
+    };
+
+    await expect(cache.getOrFetch('news', 'finnhub-news', ['ACME', 'GLBX'], failing)).resolves.toEqual([item('ACME')]);
+    await expect(cache.getOrFetch('news', 'finnhub-news', ['GLBX'], failing)).rejects.toThrow('upstream 503');
+  });
+
+  it('re-fetches once an entry has expired', async () => {
+    let now = Date.parse('2026-10-15T14:00:00Z');
+    const cache = new ProviderCache(new MemoryCacheStore(100, () => now));
+    const fetchMissing = vi.fn(async (tickers: string[]) => tickers.map(t => item(t)));
+
+    await cache.getOrFetch('quotes', 'finnhub', ['ACME'], fetchMissing);
+    now += 10_000;
+    await cache.getOrFetch('quotes', 'finnhub', ['ACME'], fetchMissing);
+    now += 10_000;
+    await cache.getOrFetch('quotes', 'finnhub', ['ACME'], fetchMissing);
+
+    expect(fetchMissing).toHaveBeenCalledTimes(2);
+  });
+});
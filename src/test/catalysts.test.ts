@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { classifyCatalysts, scoreTextSentiment } from '@scan-core';
+
+describe('scoreTextSentiment', () => {
+  it('scores a phrase once, without counting its words again', () => {
+    expect(scoreTextSentiment('Acme beats estimates')).toBeCloseTo(Math.tanh(1));
+    expect(scoreTextSentiment('Acme misses expectations')).toBeCloseTo(Math.tanh(-1));
+    expect(scoreTextSentiment('Acme cuts guidance')).toBeCloseTo(Math.tanh(-1));
+  });
+
+  it('flips a word preceded by a negator within three words', () => {
+    expect(scoreTextSentiment('Acme expects a loss')).toBeLessThan(0);
+    expect(scoreTextSentiment('Acme does not expect a loss')).toBeCloseTo(Math.tanh(0.35));
+    expect(scoreTextSentiment('No plans for layoffs, Acme says')).toBeGreaterThan(0);
+  });
+
+  it('leaves a negator further back out of the window', () => {
+    expect(scoreTextSentiment('Not in this quarter, says Acme: shares plunge')).toBeCloseTo(Math.tanh(-0.75));
+  });
+
+  it('returns 0 for text without lexicon terms', () => {
+    expect(scoreTextSentiment('Acme to present at investor conference')).toBe(0);
+  });
+});
+
+describe('classifyCatalysts', () => {
+  it('returns every matching type in rule order', () => {
+    expect(classifyCatalysts('Q3 earnings top estimates; Acme raises FY2026 outlook')).toEqual(['Earnings', 'Guidance']);
+    expect(classifyCatalysts('Acme wins FDA approval for Phase 3 drug')).toEqual(['Biotech Catalyst', 'Product']);
+    expect(classifyCatalysts('Acme prices $50M registered direct offering')).toEqual(['Offering']);
+    expect(classifyCatalysts('Acme to be acquired by Globex in $2B buyout')).toEqual(['M&A']);
+  });
+
+  it('matches whole words only', () => {
+    expect(classifyCatalysts('Epsilon names new chief executive')).toEqual([]);
+    expect(classifyCatalysts('Acme shares recalibrate after contracting volume')).toEqual([]);
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest';
+import {
+  assessFilingsRisk,
+  classifyFiling,
+  createFixtureFilingsProvider,
+  parseFilingsFixture,
+  summarizeFilings,
+} from '@scan-core';
+import type { RawFiling, ScanRequest } from '@scan-core';
+
+function filing(fields: Partial<RawFiling> & Pick<RawFiling, 'formType'>): RawFiling {
+  return { source: 'sec-edgar', ticker: 'ABC', filedAt: '2026-10-15', ...fields };
+}
+
+describe('classifyFiling', () => {
+  it('flags shelf registrations and equity offering prospectuses as severe dilution', () => {
+    expect(classifyFiling(filing({ formType: 'S-3' }))).toMatchObject([
+      { type: 'dilution', label: 'Shelf registration (S-3)', severe: true },
+    ]);
+    expect(classifyFiling(filing({ formType: '424B5' }))).toMatchObject([
+      { type: 'dilution', label: 'Equity offering prospectus (424B5)', severe: true },
+    ]);
+  });
+
+  it('ignores debt and resale prospectuses', () => {
+    expect(classifyFiling(filing({ formType: '424B2' }))).toEqual([]);
+    expect(classifyFiling(filing({ formType: '424B3' }))).toEqual([]);
+  });
+
+  it('reads Form 4 open-market purchases and sales from the transaction code', () => {
+    const insider = { name: 'Jane Doe', shares: 10_000, pricePerShare: 4.5 };
+
+    expect(classifyFiling(filing({ formType: '4', insider: { ...insider, transactionCode: 'P' } }))).toMatchObject([
+      { type: 'insider-buy', label: 'Insider purchase by Jane Doe (10,000 shares at $4.50)', severe: false },
+    ]);
+    expect(classifyFiling(filing({ formType: '4', insider: { ...insider, transactionCode: 'S', shares: -2_500 } }))).toMatchObject([
+      { type: 'insider-sell', label: 'Insider sale by Jane Doe (2,500 shares at $4.50)', severe: false },
+    ]);
+    expect(classifyFiling(filing({ formType: '4', insider: { ...insider, transactionCode: 'A' } }))).toEqual([]);
+  });
+
+  it('yields one signal per known 8-K item and skips exhibits', () => {
+    const signals = classifyFiling(filing({ formType: '8-K', items: ['1.03', '3.02', '9.01'] }));
+
+    expect(signals).toMatchObject([
+      { type: 'material-event', label: 'Bankruptcy or receivership (8-K 1.03)', severe: true },
+      { type: 'dilution', label: 'Unregistered equity sale (8-K 3.02)', severe: true },
+    ]);
+  });
+});
+
+describe('summarizeFilings', () => {
+  it('keeps a signal reported by two providers once and lists signals newest first', () => {
+    const summaries = summarizeFilings([
+      filing({ formType: 'S-3', filedAt: '2026-10-01' }),
+      filing({ formType: '4', filedAt: '2026-10-14', insider: { transactionCode: 'P', name: 'Jane Doe' } }),
+      filing({ formType: '4', filedAt: '2026-10-14T18:00:00Z', source: 'finnhub-insider', insider: { transactionCode: 'P', name: 'Jane Doe' } }),
+      filing({ formType: '10-Q', filedAt: '2026-10-16' }),
+      filing({ ticker: 'XYZ', formType: '10-Q', filedAt: '2026-10-16' }),
+    ]);
+
+    const abc = summaries.get('ABC')!;
+    expect(abc.signals.map(s => [s.type, s.source])).toEqual([
+      ['insider-buy', 'sec-edgar'],
+      ['dilution', 'sec-edgar'],
+    ]);
+    expect(abc).toMatchObject({ dilutionRisk: true, insiderBuying: true, insiderSelling: false });
+    expect(summaries.has('XYZ')).toBe(false);
+  });
+});
+
+describe('assessFilingsRisk', () => {
+  it('raises the risk level one step and tags dilution and insider buying', () => {
+    const summary = summarizeFilings([
+      filing({ formType: '424B5' }),
+      filing({ formType: '4', insider: { transactionCode: 'P' } }),
+    ]).get('ABC');
+
+    const assessed = assessFilingsRisk(summary, 'Low');
+
+    expect(assessed.riskLevel).toBe('Medium');
+    expect(assessed.tags).toEqual(['Dilution Risk', 'Insider Buying']);
+    expect(assessed.riskNotes).toEqual([
+      'Dilution risk: Equity offering prospectus (424B5)',
+      'Insider buying in the last 30 days',
+    ]);
+  });
+
+  it('leaves the risk level alone without severe signals', () => {
+    const summary = summarizeFilings([filing({ formType: '8-K', items: ['5.02'] })]).get('ABC');
+
+    expect(assessFilingsRisk(summary, 'Medium')).toEqual({ riskLevel: 'Medium', riskNotes: [], tags: [] });
+    expect(assessFilingsRisk(undefined, 'High')).toEqual({ riskLevel: 'High', riskNotes: [], tags: [] });
+  });
+});
+
+describe('createFixtureFilingsProvider', () => {
+  const FIXTURE = JSON.stringify({
+    filings: [
+      { symbol: 'abc', form: '8-K', filingDate: '2026-10-10', items: '1.01, 9.01' },
+      { ticker: 'ABC', formType: 'S-1', filedAt: '2026-08-01' },
+      { ticker: 'XYZ', formType: '424B4', filedAt: '2026-10-12' },
+      { ticker: 'BAD', formType: '8-K' },
+    ],
+  });
+
+  it('parses fixture rows and serves the requested tickers inside the window', async () => {
+    const filings = parseFilingsFixture(FIXTURE, 'fixture-filings');
+    expect(filings).toHaveLength(3);
+    expect(filings[0]).toMatchObject({ ticker: 'ABC', formType: '8-K', items: ['1.01', '9.01'] });
+
+    const provider = createFixtureFilingsProvider(filings);
+    const served = await provider.fetchFilings(['ABC'], { from: '2026-09-19', to: '2026-10-19' }, {} as ScanRequest);
+
+    expect(served.map(f => [f.ticker, f.formType])).toEqual([['ABC', '8-K']]);
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { computeGapPercent, computeRelativeVolume, detectConsolidation } from '@scan-core';
+import type { Candle } from '@scan-core';
+
+function day(date: string, bar: Partial<Candle> = {}): Candle {
+  // Stamped at midnight UTC, as Finnhub does
+  return { timestamp: Date.parse(`${date}T00:00:00Z`), open: 10, high: 10.2, low: 9.8, close: 10, volume: 1_000, ...bar };
+}
+
+// Nine quiet sessions (Oct 5-15, 2026), then a breakout on Friday the 16th and Monday's partial bar
+const QUIET = ['2026-10-05', '2026-10-06', '2026-10-07', '2026-10-08', '2026-10-09', '2026-10-12', '2026-10-13', '2026-10-14', '2026-10-15']
+  .map(date => day(date));
+const FRIDAY = day('2026-10-16', { open: 11, high: 12, low: 10.9, close: 12, volume: 5_000 });
+const MONDAY = day('2026-10-19', { open: 12.6, high: 12.8, low: 12.5, close: 12.7, volume: 400 });
+
+const SATURDAY = Date.parse('2026-10-17T16:00:00Z');
+const MONDAY_PRE_MARKET = Date.parse('2026-10-19T12:00:00Z'); // 08:00 ET
+const MONDAY_MIDDAY = Date.parse('2026-10-19T16:00:00Z');     // 12:00 ET
+
+describe('computeGapPercent', () => {
+  it('measures the open of today against the prior close once today has a bar', () => {
+    expect(computeGapPercent([...QUIET, FRIDAY, MONDAY], MONDAY_MIDDAY)).toBeCloseTo(5);
+  });
+
+  it('has no gap on a weekend or before today has a bar', () => {
+    expect(computeGapPercent([...QUIET, FRIDAY], SATURDAY)).toBeNull();
+    expect(computeGapPercent([...QUIET, FRIDAY], MONDAY_PRE_MARKET)).toBeNull();
+  });
+});
+
+describe('detectConsolidation', () => {
+  it('ranges over the completed sessions, including the last one when today has no bar yet', () => {
+    // Friday's wide bar is part of the range, so the stock is not consolidating
+    expect(detectConsolidation([day('2026-10-02'), ...QUIET, FRIDAY], 12.5, 10, SATURDAY)).toMatchObject({ consolidating: false, breakout: false });
+  });
+
+  it('leaves the partial bar of today out of the range', () => {
+    const quietWeek = [...QUIET, day('2026-10-16'), MONDAY];
+
+    expect(detectConsolidation(quietWeek, 12.7, 10, MONDAY_MIDDAY)).toMatchObject({ consolidating: true, breakout: true });
+  });
+});
+
+describe('computeRelativeVolume', () => {
+  it('averages the completed sessions, leaving out only the partial bar of today', () => {
+    const bars = [...QUIET, FRIDAY, MONDAY];
+
+    // 9 quiet sessions and Friday: (9 * 1000 + 5000) / 10
+    expect(computeRelativeVolume(bars, 2_800, 20, MONDAY_MIDDAY)).toBeCloseTo(2);
+    // On Saturday Friday is the latest completed session and stays in the average
+    expect(computeRelativeVolume([...QUIET, FRIDAY], 2_800, 20, SATURDAY)).toBeCloseTo(2);
+  });
+});
@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { newYorkTime, recentTradingDaysRange } from '@scan-core';
+
+describe('recentTradingDaysRange', () => {
+  it('ends at the last completed session before Monday\'s pre-market and on holidays', () => {
+    // Monday 2026-10-19 03:00 ET: the last completed session is Friday's
+    const monday = recentTradingDaysRange(5, Date.parse('2026-10-19T07:00:00Z'));
+    expect(monday.to).toBe(newYorkTime('2026-10-16', 16 * 60));
+    expect(monday.from).toBe(newYorkTime('2026-10-09', 0));
+
+    // Thanksgiving 2026-11-26: Wednesday is the last session, the week before is walked back in trading days
+    const thanksgiving = recentTradingDaysRange(5, Date.parse('2026-11-26T17:00:00Z'));
+    expect(thanksgiving.to).toBe(newYorkTime('2026-11-25', 16 * 60));
+    expect(thanksgiving.from).toBe(newYorkTime('2026-11-18', 0));
+  });
+
+  it('keeps today\'s partial bar during an intraday scan', () => {
+    const now = Date.parse('2026-10-20T15:00:00Z'); // Tuesday 11:00 ET
+    const range = recentTradingDaysRange(5, now);
+
+    expect(range.to).toBe(now);
+    expect(range.from).toBe(newYorkTime('2026-10-12', 0));
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { clusterNews, normalizeNewsUrl } from '@scan-core';
+import type { RawNewsItem } from '@scan-core';
+
+function news(fields: Partial<RawNewsItem> & Pick<RawNewsItem, 'headline' | 'url' | 'datetime'>): RawNewsItem {
+  return { source: 'finnhub-news', ticker: 'ACME', summary: '', ...fields };
+}
+
+describe('normalizeNewsUrl', () => {
+  it('drops protocol, www, fragment, trailing slash and tracking parameters', () => {
+    expect(normalizeNewsUrl('https://www.Example.com/story/123/?utm_source=x&id=7#top')).toBe('example.com/story/123?id=7');
+    expect(normalizeNewsUrl('not a url')).toBeNull();
+  });
+});
+
+describe('clusterNews', () => {
+  it('merges reports of the same URL and keeps the earliest with the fullest summary', () => {
+    const clusters = clusterNews([
+      news({
+        source: 'benzinga-news',
+        headline: 'Acme shares jump on Navy award',
+        url: 'http://example.com/acme-navy/?utm_campaign=feed',
+        datetime: '2026-10-15T14:05:00Z',
+        summary: 'Acme won a $2B Navy contract for autonomous vessels.',
+      }),
+      news({
+        headline: 'Acme lands Navy contract',
+        url: 'https://www.example.com/acme-navy',
+        datetime: '2026-10-15T13:30:00Z',
+        summary: 'Navy contract.',
+      }),
+    ]);
+
+    expect(clusters).toHaveLength(1);
+    expect(clusters[0]).toMatchObject({
+      id: 'example.com/acme-navy',
+      story: { headline: 'Acme lands Navy contract', summary: 'Acme won a $2B Navy contract for autonomous vessels.' },
+      sources: ['finnhub-news', 'benzinga-news'],
+      firstSeen: '2026-10-15T13:30:00Z',
+      lastSeen: '2026-10-15T14:05:00Z',
+    });
+  });
+
+  it('merges near-duplicate headlines from different URLs, ignoring the outlet suffix', () => {
+    const clusters = clusterNews([
+      news({ headline: 'Acme Wins $2B Navy Contract', url: 'https://a.example/1', datetime: '2026-10-15T13:30:00Z' }),
+      news({ source: 'benzinga-news', headline: 'Acme wins $2B Navy contract - Reuters', url: 'https://b.example/2', datetime: '2026-10-15T18:00:00Z' }),
+      news({ headline: 'Acme to present at investor conference', url: 'https://a.example/3', datetime: '2026-10-15T15:00:00Z' }),
+    ]);
+
+    expect(clusters.map(c => c.items.length)).toEqual([1, 2]);
+    expect(clusters[1].sources).toEqual(['finnhub-news', 'benzinga-news']);
+  });
+
+  it('keeps matching headlines more than 48h apart as separate stories, newest first', () => {
+    const clusters = clusterNews([
+      news({ headline: 'Acme shares are trading higher', url: 'https://a.example/1', datetime: '2026-10-12T14:00:00Z' }),
+      news({ headline: 'Acme shares are trading higher', url: 'https://a.example/2', datetime: '2026-10-15T14:00:00Z' }),
+    ]);
+
+    expect(clusters.map(c => c.firstSeen)).toEqual(['2026-10-15T14:00:00Z', '2026-10-12T14:00:00Z']);
+  });
+
+  it('still merges a repeated URL outside the headline window', () => {
+    const clusters = clusterNews([
+      news({ headline: 'Acme lands Navy contract', url: 'https://example.com/acme-navy', datetime: '2026-10-12T14:00:00Z' }),
+      news({ headline: 'Update: Acme Navy deal details', url: 'https://example.com/acme-navy', datetime: '2026-10-15T14:00:00Z' }),
+    ]);
+
+    expect(clusters).toHaveLength(1);
+    expect(clusters[0].lastSeen).toBe('2026-10-15T14:00:00Z');
+  });
+});
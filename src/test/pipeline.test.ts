@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_PRESCREEN, estimateEnrichmentCalls, preScreenCandidates } from '@scan-core';
+import type { RawQuote, ScanFilters, TickerMeta } from '@scan-core';
+
+// Tuesday 2026-10-20, 08:00 ET
+const PRE_MARKET = Date.parse('2026-10-20T12:00:00Z');
+const MONDAY_CLOSE = Date.parse('2026-10-19T20:00:00Z');
+
+const FILTERS: ScanFilters = { marketCap: 'any', sectors: [] };
+
+function quote(ticker: string, price: number, timestamp: number): RawQuote {
+  return { source: 'massive', ticker, price, prevClose: 100, volume: 1_000_000, timestamp };
+}
+
+// STALE moved 30% on Monday but has no pre-market quote; the others are gapping today
+const QUOTES = new Map<string, RawQuote>([
+  ['STALE', quote('STALE', 130, MONDAY_CLOSE)],
+  ['GAP', quote('GAP', 112, PRE_MARKET)],
+  ['FLAT', quote('FLAT', 101, PRE_MARKET)],
+]);
+const UNIVERSE: TickerMeta[] = [{ symbol: 'STALE' }, { symbol: 'GAP' }, { symbol: 'FLAT' }];
+
+describe('preScreenCandidates', () => {
+  it('ranks extended-hours candidates on the current session move and keeps the top N', () => {
+    const outcome = preScreenCandidates(QUOTES, UNIVERSE, FILTERS, { ...DEFAULT_PRESCREEN, topN: 2 }, new Map(), 'extended-hours', PRE_MARKET);
+
+    expect(outcome.candidates.map(c => c.ticker)).toEqual(['GAP', 'FLAT']);
+    expect(outcome.dropped).toEqual([{ ticker: 'STALE', reason: 'below_top_n' }]);
+  });
+
+  it('ranks unified scans on the quote change', () => {
+    const outcome = preScreenCandidates(QUOTES, UNIVERSE, FILTERS, { ...DEFAULT_PRESCREEN, topN: 2 }, new Map(), 'unified', PRE_MARKET);
+
+    expect(outcome.candidates.map(c => c.ticker)).toEqual(['STALE', 'GAP']);
+    expect(outcome.dropped).toEqual([{ ticker: 'FLAT', reason: 'below_top_n' }]);
+  });
+});
+
+describe('estimateEnrichmentCalls', () => {
+  it('counts one call per candidate and run for each provider with a rate-limit bucket', () => {
+    const calls = estimateEnrichmentCalls([
+      { providers: [{ id: 'finnhub-fundamentals', name: 'Fundamentals', rateLimitBucket: 'finnhub' }] },
+      { providers: [{ id: 'sec-edgar', name: 'EDGAR', rateLimitBucket: 'sec' }, { id: 'fixture-filings', name: 'Fixture' }] },
+      { providers: [{ id: 'finnhub-candles', name: 'Candles', rateLimitBucket: 'finnhub' }], runs: 2 },
+    ], 12);
+
+    expect(Object.fromEntries(calls)).toEqual({ finnhub: 36, sec: 12 });
+  });
+});
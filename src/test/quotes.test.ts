@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { backfillQuoteVolume } from '@scan-core';
+import type { CandleSeries, RawQuote } from '@scan-core';
+
+const QUOTE: RawQuote = { source: 'finnhub', ticker: 'ABC', price: 10, prevClose: 9, volume: null, timestamp: Date.parse('2026-10-19T15:00:00Z') };
+
+function daily(bars: [string, number][]): CandleSeries {
+  return {
+    source: 'finnhub-candles',
+    ticker: 'ABC',
+    resolution: 'D',
+    candles: bars.map(([iso, volume]) => ({ timestamp: Date.parse(iso), open: 10, high: 10, low: 10, close: 10, volume })),
+  };
+}
+
+const SINCE = Date.parse('2026-10-12T04:00:00Z');
+
+describe('backfillQuoteVolume', () => {
+  it('takes the latest daily bar with volume and records the candle source', () => {
+    const series = daily([['2026-10-16T04:00:00Z', 800], ['2026-10-19T04:00:00Z', 300]]);
+
+    expect(backfillQuoteVolume(QUOTE, series, SINCE)).toEqual({
+      ...QUOTE,
+      volume: 300,
+      volumeOrigin: { source: 'finnhub-candles', timestamp: Date.parse('2026-10-19T04:00:00Z') },
+    });
+  });
+
+  it('skips empty bars but not past the lookback', () => {
+    expect(backfillQuoteVolume(QUOTE, daily([['2026-10-16T04:00:00Z', 800], ['2026-10-19T04:00:00Z', 0]]), SINCE).volume).toBe(800);
+    expect(backfillQuoteVolume(QUOTE, daily([['2026-10-09T04:00:00Z', 800]]), SINCE).volume).toBeNull();
+  });
+
+  it('keeps a reported volume', () => {
+    const quote = { ...QUOTE, volume: 50 };
+    expect(backfillQuoteVolume(quote, daily([['2026-10-19T04:00:00Z', 300]]), SINCE)).toBe(quote);
+  });
+});
@@ -0,0 +1,68 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ProviderRegistry } from '@scan-core';
+import type { PriceDataProvider, RawQuote, ScanRequest } from '@scan-core';
+
+const REQUEST = {} as ScanRequest;
+
+/**
+ * Price provider that answers after `delayMs` (never when null)
+ */
+function delayedProvider(delayMs: number | null): PriceDataProvider {
+  return {
+    id: 'slow',
+    name: 'Slow',
+    rateLimitBucket: 'slow',
+    fetchQuotes: () => new Promise<RawQuote[]>(resolve => {
+      if (delayMs != null) setTimeout(() => resolve([{ ticker: 'AAPL' } as RawQuote]), delayMs);
+    }),
+  };
+}
+
+describe('ProviderRegistry timeouts', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('fails a hung provider after its own timeout when nothing is queued', async () => {
+    const registry = new ProviderRegistry({ queuedTime: () => 0 })
+      .register('price', delayedProvider(null), { timeoutMs: 100 });
+
+    const result = registry.run('price', p => p.fetchQuotes(['AAPL'], REQUEST));
+    await vi.advanceTimersByTimeAsync(100);
+
+    expect(await result).toEqual([]);
+    expect(registry.getHealth()[0].lastError).toBe('Slow timed out after 100ms');
+  });
+
+  it('extends the timeout by the time its bucket spent queued', async () => {
+    let queuedMs = 0;
+    setTimeout(() => { queuedMs = 300; }, 50);
+    const registry = new ProviderRegistry({ queuedTime: () => queuedMs })
+      .register('price', delayedProvider(350), { timeoutMs: 100 });
+
+    const result = registry.run('price', p => p.fetchQuotes(['AAPL'], REQUEST));
+    await vi.advanceTimersByTimeAsync(350);
+
+    expect(await result).toEqual([{ ticker: 'AAPL' }]);
+    expect(registry.getHealth()[0].lastCallOk).toBe(true);
+  });
+
+  it('still times out once the queued time is used up', async () => {
+    let queuedMs = 0;
+    setTimeout(() => { queuedMs = 200; }, 50);
+    const registry = new ProviderRegistry({ queuedTime: () => queuedMs })
+      .register('price', delayedProvider(null), { timeoutMs: 100 });
+
+    const result = registry.run('price', p => p.fetchQuotes(['AAPL'], REQUEST));
+    await vi.advanceTimersByTimeAsync(300);
+
+    expect(await result).toEqual([]);
+    expect(registry.getHealth()[0].lastError).toBe('Slow timed out after 100ms plus 200ms queued');
+  });
+});
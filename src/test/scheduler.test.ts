@@ -0,0 +1,142 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { DEFAULT_RATE_LIMITS, DEFAULT_SCAN_DEADLINE_MS, RequestScheduler, parseRetryAfter } from '@scan-core';
+
+const NOW = Date.parse('2026-10-19T14:00:00Z');
+
+/**
+ * Scheduler on a frozen clock whose sleeps resolve at once, recording each wait
+ */
+function createScheduler() {
+  const waits: number[] = [];
+  const scheduler = new RequestScheduler(DEFAULT_RATE_LIMITS, {
+    now: () => NOW,
+    sleep: async ms => { waits.push(ms); },
+    random: () => 0.5,
+  });
+  return { scheduler, waits };
+}
+
+function fetchConcurrently(scheduler: RequestScheduler, count: number) {
+  return Promise.allSettled(
+    Array.from({ length: count }, (_, i) => scheduler.fetch('finnhub', `https://finnhub.test/quote?symbol=T${i}`)),
+  );
+}
+
+describe('RequestScheduler', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it('spaces calls beyond the burst at the sustained rate', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('{}', { status: 200 })));
+    const { scheduler, waits } = createScheduler();
+
+    await fetchConcurrently(scheduler, 7);
+
+    const interval = 60_000 / DEFAULT_RATE_LIMITS.finnhub.perMinute;
+    expect(waits).toHaveLength(2);
+    expect(waits[0]).toBeCloseTo(interval);
+    expect(waits[1]).toBeCloseTo(2 * interval);
+    expect(scheduler.getStats()[0]).toMatchObject({ calls: 7, queued: 2, dropped: 0 });
+  });
+
+  it('retries a 429 after the Retry-After delay', async () => {
+    const upstream = vi.fn()
+      .mockResolvedValueOnce(new Response('', { status: 429, headers: { 'Retry-After': '2' } }))
+      .mockResolvedValueOnce(new Response('{}', { status: 200 }));
+    vi.stubGlobal('fetch', upstream);
+    const { scheduler, waits } = createScheduler();
+
+    const res = await scheduler.fetch('finnhub', 'https://finnhub.test/quote?symbol=AAPL');
+
+    expect(res.status).toBe(200);
+    expect(upstream).toHaveBeenCalledTimes(2);
+    expect(waits).toContain(2_000);
+    expect(scheduler.getStats()[0]).toMatchObject({ calls: 2, throttled: 1, retried: 1, dropped: 0 });
+  });
+
+  it('returns the last 5xx response once retries run out', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('', { status: 503 })));
+    const { scheduler } = createScheduler();
+
+    const res = await scheduler.fetch('finnhub', 'https://finnhub.test/quote?symbol=AAPL');
+
+    expect(res.status).toBe(503);
+    expect(scheduler.getStats()[0]).toMatchObject({ calls: 4, retried: 3, dropped: 1 });
+  });
+
+  it('queues 40 concurrent Finnhub calls until the scan deadline instead of dropping them', async () => {
+    const upstream = vi.fn(async () => new Response('{}', { status: 200 }));
+    vi.stubGlobal('fetch', upstream);
+    const { scheduler, waits } = createScheduler();
+
+    const endScan = scheduler.beginScan(NOW + DEFAULT_SCAN_DEADLINE_MS);
+    const settled = await fetchConcurrently(scheduler, 40);
+    endScan();
+
+    expect(settled.every(s => s.status === 'fulfilled')).toBe(true);
+    expect(upstream).toHaveBeenCalledTimes(40);
+
+    const [stats] = scheduler.getStats();
+    expect(stats).toMatchObject({ bucket: 'finnhub', calls: 40, dropped: 0, queued: 40 - DEFAULT_RATE_LIMITS.finnhub.burst });
+    // The last call waits for 35 refills at 55/min
+    expect(Math.max(...waits)).toBeCloseTo((35 * 60_000) / DEFAULT_RATE_LIMITS.finnhub.perMinute);
+  });
+
+  it('drops only the calls whose token would arrive after the deadline', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('{}', { status: 200 })));
+    const { scheduler } = createScheduler();
+
+    // 5 burst tokens plus 9 refills in the first 10s
+    scheduler.beginScan(NOW + 10_000);
+    const settled = await fetchConcurrently(scheduler, 40);
+
+    expect(settled.filter(s => s.status === 'fulfilled')).toHaveLength(14);
+    expect(scheduler.getStats()[0].dropped).toBe(26);
+  });
+  it('reports how long a bucket had calls queued', async () => {
+    vi.useFakeTimers({ now: NOW });
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('{}', { status: 200 })));
+    const scheduler = new RequestScheduler(DEFAULT_RATE_LIMITS);
+
+    const settled = fetchConcurrently(scheduler, 7);
+    await vi.runAllTimersAsync();
+    await settled;
+
+    // The 6th and 7th calls wait one and two refills, overlapping
+    expect(scheduler.queuedTime('finnhub')).toBeCloseTo((2 * 60_000) / DEFAULT_RATE_LIMITS.finnhub.perMinute, -1);
+    expect(scheduler.queuedTime('massive')).toBe(0);
+  });
+
+  it('counts the calls a bucket can still start before a deadline', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('{}', { status: 200 })));
+    const { scheduler } = createScheduler();
+
+    expect(scheduler.availableCalls('finnhub', NOW + 120_000)).toBe(5 + 110);
+    scheduler.beginScan(NOW + 120_000);
+    await fetchConcurrently(scheduler, 41);
+    // 41 stage-1 calls leave 74 of the 115 for stage 2
+    expect(scheduler.availableCalls('finnhub', NOW + 120_000)).toBe(74);
+  });
+
+  it('caps the wait at maxQueueMs outside a scan', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('{}', { status: 200 })));
+    const { scheduler } = createScheduler();
+
+    const settled = await fetchConcurrently(scheduler, 40);
+
+    // 5 burst tokens plus the refills within 8s
+    expect(settled.filter(s => s.status === 'fulfilled')).toHaveLength(12);
+    expect(scheduler.getStats()[0].dropped).toBe(28);
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it('reads delta seconds and HTTP dates', () => {
+    expect(parseRetryAfter('3', NOW)).toBe(3_000);
+    expect(parseRetryAfter(new Date(NOW + 5_000).toUTCString(), NOW)).toBe(5_000);
+    expect(parseRetryAfter(null, NOW)).toBeNull();
+    expect(parseRetryAfter('soon', NOW)).toBeNull();
+  });
+});
@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SCORING_MODEL, normalizeScoringModel, toScoringModelRef } from '@scan-core';
+import type { StoredScoringModel } from '@scan-core';
+
+// As saved by the app before the squeeze weight and the biotech bonus existed
+const STORED_V1_MODEL: StoredScoringModel = {
+  id: 'custom',
+  name: 'Momentum heavy',
+  version: 1,
+  weights: { momentum: 0.6, structure: 0.2, catalysts: 0.1, sentiment: 0.1 },
+};
+
+describe('normalizeScoringModel', () => {
+  it('fills an old stored model with defaults under a new version', () => {
+    const normalized = normalizeScoringModel(STORED_V1_MODEL);
+
+    expect(normalized.weights).toEqual({ momentum: 0.6, structure: 0.2, catalysts: 0.1, sentiment: 0.1, squeeze: DEFAULT_SCORING_MODEL.weights.squeeze });
+    expect(normalized.biotechEventBonus).toEqual(DEFAULT_SCORING_MODEL.biotechEventBonus);
+    expect(toScoringModelRef(normalized)).toEqual({ id: 'custom', name: 'Momentum heavy', version: 2 });
+  });
+
+  it('leaves a complete model, including a normalized one, at its version', () => {
+    const normalized = normalizeScoringModel(STORED_V1_MODEL);
+
+    expect(normalizeScoringModel(normalized)).toEqual(normalized);
+    expect(normalizeScoringModel({ ...DEFAULT_SCORING_MODEL })).toEqual(DEFAULT_SCORING_MODEL);
+  });
+});
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { canonicalSector, normalizeSector } from '@scan-core';
+
+describe('normalizeSector', () => {
+  it('uses the provider mapping table first', () => {
+    expect(normalizeSector('Semiconductors', 'finnhub-fundamentals')).toEqual({ sector: 'Technology', industry: 'Semiconductors' });
+    expect(normalizeSector('Technology', 'finnhub-fundamentals')).toEqual({ sector: 'Technology', industry: 'Software' });
+    expect(normalizeSector('Technology')).toEqual({ sector: 'Technology', industry: null });
+  });
+
+  it('matches canonical names and generic aliases regardless of case and spacing', () => {
+    expect(normalizeSector('  biotech ')).toEqual({ sector: 'Biotech', industry: null });
+    expect(normalizeSector('Health Care')).toEqual({ sector: 'Healthcare', industry: null });
+    expect(normalizeSector('Financials', 'massive-fundamentals')).toEqual({ sector: 'Finance', industry: null });
+  });
+
+  it('falls back to the industries of the taxonomy', () => {
+    expect(normalizeSector('REITs')).toEqual({ sector: 'Real Estate', industry: 'REITs' });
+    expect(normalizeSector('metals & mining')).toEqual({ sector: 'Materials', industry: 'Metals & Mining' });
+  });
+
+  it('returns null for empty and unrecognized values', () => {
+    expect(normalizeSector(null)).toBeNull();
+    expect(normalizeSector('   ')).toBeNull();
+    expect(normalizeSector('N/A', 'finnhub-fundamentals')).toBeNull();
+  });
+});
+
+describe('canonicalSector', () => {
+  it('maps recognized values and passes anything else through', () => {
+    expect(canonicalSector('Information Technology')).toBe('Technology');
+    expect(canonicalSector('Pharmaceuticals')).toBe('Biotech');
+    expect(canonicalSector('Widgets')).toBe('Widgets');
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { computeSessionMetrics } from '@scan-core';
+import type { Candle, RawQuote } from '@scan-core';
+
+function bar(iso: string, close: number, volume = 1_000): Candle {
+  return { timestamp: Date.parse(iso), open: close, high: close, low: close, close, volume };
+}
+
+// Monday 2026-10-19: pre-market at 90, regular session 100 -> 110
+const MONDAY_BARS: Candle[] = [
+  bar('2026-10-19T12:00:00Z', 90),  // 08:00 ET
+  bar('2026-10-19T13:30:00Z', 100), // 09:30 ET
+  bar('2026-10-19T19:55:00Z', 110), // 15:55 ET
+];
+
+// Finnhub /quote before Tuesday's open: Monday's close, with Friday's close as prevClose
+const STALE_QUOTE: RawQuote = {
+  source: 'finnhub',
+  ticker: 'ABC',
+  price: 110,
+  prevClose: 100,
+  volume: null,
+  timestamp: Date.parse('2026-10-19T20:00:00Z'),
+};
+
+describe('computeSessionMetrics', () => {
+  it('ignores the previous day pre-market bars before today has any', () => {
+    const metrics = computeSessionMetrics({
+      quote: STALE_QUOTE,
+      intraday: MONDAY_BARS,
+      now: Date.parse('2026-10-20T08:05:00Z'), // Tuesday 04:05 ET
+    });
+
+    expect(metrics.session).toBe('pre-market');
+    expect(metrics.preMarketVolume).toBeNull();
+    expect(metrics.gapPercent).toBeNull();
+    expect(metrics.extendedChangePercent).toBeNull();
+  });
+
+  it('measures the pre-market gap against the last regular close, not the stale quote prevClose', () => {
+    const now = Date.parse('2026-10-20T12:00:00Z'); // Tuesday 08:00 ET
+    const tuesdayPreMarket = [bar('2026-10-20T11:00:00Z', 118, 2_000), bar('2026-10-20T11:55:00Z', 121, 3_000)];
+
+    const fromBars = computeSessionMetrics({ quote: STALE_QUOTE, intraday: [...MONDAY_BARS, ...tuesdayPreMarket], now });
+    expect(fromBars.gapPercent).toBeCloseTo(10);
+    expect(fromBars.extendedChangePercent).toBeCloseTo(10);
+    expect(fromBars.preMarketVolume).toBe(5_000);
+
+    // Without Monday's regular bars the stale quote's price is the last close
+    const fromQuote = computeSessionMetrics({ quote: STALE_QUOTE, intraday: tuesdayPreMarket, now });
+    expect(fromQuote.gapPercent).toBeCloseTo(10);
+  });
+});
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { buildLiveUniverse, MAX_CUSTOM_UNIVERSE_SIZE } from '@scan-core';
+import type { ScanRequest, TickerMeta } from '@scan-core';
+
+const SYMBOLS: TickerMeta[] = [
+  { symbol: 'NVDA', sector: 'Technology', lastPrice: 120 },
+  { symbol: 'MRNA', sector: 'Biotech', lastPrice: 30 },
+];
+
+function request(tickers: string[], filters: Partial<ScanRequest['filters']> = {}): ScanRequest {
+  return { mode: 'unified', filters: { marketCap: 'any', sectors: [], ...filters }, tickers };
+}
+
+describe('buildLiveUniverse', () => {
+  it('keeps an explicit list in the given order, trimmed and deduplicated', () => {
+    const { universe, dropped } = buildLiveUniverse(request([' mrna', 'XYZ ', 'MRNA', '  ', 'nvda']), SYMBOLS);
+
+    expect(universe.map(m => m.symbol)).toEqual(['MRNA', 'XYZ', 'NVDA']);
+    expect(dropped).toEqual([]);
+  });
+
+  it('reports explicit tickers whose known metadata fails the filters', () => {
+    const { universe, dropped } = buildLiveUniverse(request(['NVDA', 'MRNA', 'XYZ'], { sectors: ['Biotech'], maxPrice: 100 }), SYMBOLS);
+
+    // XYZ has no metadata, so nothing rules it out before the snapshot
+    expect(universe.map(m => m.symbol)).toEqual(['MRNA', 'XYZ']);
+    expect(dropped).toEqual([{ ticker: 'NVDA', reason: 'universe_filter' }]);
+  });
+
+  it('cuts explicit lists at the custom universe cap and reports the rest', () => {
+    const tickers = Array.from({ length: MAX_CUSTOM_UNIVERSE_SIZE + 2 }, (_, i) => `T${i}`);
+
+    const { universe, dropped } = buildLiveUniverse(request(tickers), SYMBOLS);
+
+    expect(universe).toHaveLength(MAX_CUSTOM_UNIVERSE_SIZE);
+    expect(dropped).toEqual([
+      { ticker: `T${MAX_CUSTOM_UNIVERSE_SIZE}`, reason: 'universe_cap' },
+      { ticker: `T${MAX_CUSTOM_UNIVERSE_SIZE + 1}`, reason: 'universe_cap' },
+    ]);
+  });
+});
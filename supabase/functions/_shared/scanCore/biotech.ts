@@ -0,0 +1,197 @@
+/**
+ * Biotech Event Calendar
+ *
+ * Binary events that move biotech names: FDA action (PDUFA) dates, FDA
+ * advisory committee meetings and clinical trial readouts. The next event per
+ * ticker is attached to the result, sets the "Biotech Catalyst" tag when it
+ * falls within the bonus window, and adds the scoring model's bonus to the
+ * catalysts sub-score.
+ *
+ * Events come from a local file (JSON or CSV) until a vendor feed is added:
+ * - JSON: an array of events, or { "events": [...] }, with the fields below
+ * - CSV: header row with ticker (or symbol), type, date, and optionally drug,
+ *   indication, phase
+ * type accepts pdufa, adcom / advisory committee, readout / topline / data;
+ * date is YYYY-MM-DD. Rows that do not parse are skipped.
+ */
+
+import { addCalendarDays, daysUntilDate, newYorkDate } from './marketCalendar.ts';
+import type { BiotechEvent, CalendarQuery } from './providers.ts';
+import type { BiotechEventBonus, BiotechEventType, NextBiotechEvent, ScoreDriver } from './types.ts';
+import { splitCsvLine } from './universe.ts';
+
+/**
+ * How far ahead events are looked up (PDUFA dates are set months in advance)
+ */
+export const BIOTECH_EVENT_LOOKAHEAD_DAYS = 180;
+
+export const DEFAULT_BIOTECH_EVENT_BONUS: BiotechEventBonus = {
+  points: 15,
+  withinDays: 30,
+};
+
+export const MAX_BIOTECH_EVENT_BONUS_POINTS = 50;
+
+export const BIOTECH_EVENT_LABELS: Record<BiotechEventType, string> = {
+  pdufa: 'PDUFA date',
+  adcom: 'Advisory committee',
+  readout: 'Trial readout',
+};
+
+export const BIOTECH_EVENT_SHORT_LABELS: Record<BiotechEventType, string> = {
+  pdufa: 'PDUFA',
+  adcom: 'AdCom',
+  readout: 'Readout',
+};
+
+const TYPE_ALIASES: Record<string, BiotechEventType> = {
+  'pdufa': 'pdufa',
+  'pdufa date': 'pdufa',
+  'fda decision': 'pdufa',
+  'adcom': 'adcom',
+  'advisory committee': 'adcom',
+  'readout': 'readout',
+  'trial readout': 'readout',
+  'data readout': 'readout',
+  'topline': 'readout',
+  'topline data': 'readout',
+  'data': 'readout',
+};
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export function parseBiotechEventType(raw: string | null | undefined): BiotechEventType | null {
+  if (raw == null) return null;
+  return TYPE_ALIASES[raw.trim().toLowerCase()] ?? null;
+}
+
+function optionalText(value: unknown): string | undefined {
+  if (typeof value === 'number') return String(value);
+  return typeof value === 'string' && value.trim() !== '' ? value.trim() : undefined;
+}
+
+function toBiotechEvent(fields: Record<string, unknown>, source: string): BiotechEvent | null {
+  const ticker = optionalText(fields.ticker ?? fields.symbol)?.toUpperCase();
+  const type = parseBiotechEventType(optionalText(fields.type));
+  const date = optionalText(fields.date);
+  if (!ticker || !type || !date || !DATE_PATTERN.test(date)) return null;
+
+  return {
+    source,
+    ticker,
+    type,
+    date,
+    drug: optionalText(fields.drug),
+    indication: optionalText(fields.indication),
+    phase: optionalText(fields.phase),
+  };
+}
+
+/**
+ * Parse a biotech event file, JSON or CSV (detected from the first character)
+ *
+ * @param text - File contents
+ * @param source - Provider id recorded on each event
+ */
+export function parseBiotechEvents(text: string, source: string): BiotechEvent[] {
+  const trimmed = text.trim();
+  if (trimmed === '') return [];
+
+  let rows: Record<string, unknown>[];
+  if (trimmed.startsWith('[') || trimmed.startsWith('{')) {
+    const data = JSON.parse(trimmed);
+    const list = Array.isArray(data) ? data : Array.isArray(data?.events) ? data.events : [];
+    rows = list.filter((row: unknown): row is Record<string, unknown> => typeof row === 'object' && row !== null);
+  } else {
+    const lines = trimmed.split(/\r?\n/).filter(line => line.trim() !== '' && !line.startsWith('#'));
+    const header = splitCsvLine(lines[0] ?? '').map(h => h.trim().toLowerCase());
+    rows = lines.slice(1).map(line => {
+      const fields = splitCsvLine(line);
+      return Object.fromEntries(header.map((name, i) => [name, fields[i]]));
+    });
+  }
+
+  const events: BiotechEvent[] = [];
+  for (const row of rows) {
+    const event = toBiotechEvent(row, source);
+    if (event) events.push(event);
+  }
+  return events;
+}
+
+/**
+ * Calendar window to query: today through BIOTECH_EVENT_LOOKAHEAD_DAYS
+ */
+export function buildBiotechEventQuery(now: number = Date.now()): CalendarQuery {
+  const today = newYorkDate(now);
+  return { from: today, to: addCalendarDays(today, BIOTECH_EVENT_LOOKAHEAD_DAYS) };
+}
+
+/**
+ * Events of the given tickers inside a query window
+ */
+export function eventsInWindow(events: BiotechEvent[], tickers: string[], query: CalendarQuery): BiotechEvent[] {
+  const wanted = new Set(tickers);
+  return events.filter(e => wanted.has(e.ticker) && e.date >= query.from && e.date <= query.to);
+}
+
+/**
+ * Next event per ticker (earliest date today or later; earlier providers win ties)
+ */
+export function selectNextBiotechEvents(events: BiotechEvent[], now: number = Date.now()): Map<string, NextBiotechEvent> {
+  const next = new Map<string, NextBiotechEvent>();
+
+  for (const event of events) {
+    const daysUntil = daysUntilDate(event.date, now);
+    if (!Number.isFinite(daysUntil) || daysUntil < 0) continue;
+
+    const current = next.get(event.ticker);
+    if (current && current.daysUntil <= daysUntil) continue;
+
+    next.set(event.ticker, {
+      type: event.type,
+      date: event.date,
+      daysUntil,
+      drug: event.drug,
+      indication: event.indication,
+      phase: event.phase,
+      source: event.source,
+    });
+  }
+
+  return next;
+}
+
+/**
+ * Fill missing or out-of-range bonus settings with defaults
+ */
+export function normalizeBiotechEventBonus(bonus?: Partial<BiotechEventBonus> | null): BiotechEventBonus {
+  const points = bonus?.points;
+  const withinDays = bonus?.withinDays;
+  return {
+    points: typeof points === 'number' && Number.isFinite(points) && points >= 0
+      ? Math.min(points, MAX_BIOTECH_EVENT_BONUS_POINTS)
+      : DEFAULT_BIOTECH_EVENT_BONUS.points,
+    withinDays: typeof withinDays === 'number' && Number.isFinite(withinDays) && withinDays >= 0
+      ? Math.min(Math.floor(withinDays), BIOTECH_EVENT_LOOKAHEAD_DAYS)
+      : DEFAULT_BIOTECH_EVENT_BONUS.withinDays,
+  };
+}
+
+/**
+ * True when the event falls inside the bonus window
+ */
+export function isBiotechEventInWindow(event: NextBiotechEvent | null | undefined, bonus: BiotechEventBonus): boolean {
+  return event != null && event.daysUntil >= 0 && event.daysUntil <= bonus.withinDays;
+}
+
+/**
+ * Catalysts driver: the model's bonus points when the next event falls inside its window
+ */
+export function deriveBiotechEventDriver(
+  event: NextBiotechEvent | null | undefined,
+  bonus: BiotechEventBonus = DEFAULT_BIOTECH_EVENT_BONUS,
+): ScoreDriver | null {
+  if (!event || !isBiotechEventInWindow(event, bonus) || bonus.points <= 0) return null;
+  return { indicator: 'biotechEvent', value: event.daysUntil, points: bonus.points };
+}
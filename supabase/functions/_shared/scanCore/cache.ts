@@ -0,0 +1,321 @@
+/**
+ * Provider Response Cache
+ *
+ * A per-ticker TTL cache wrapped around price, candle, news and fundamentals
+ * providers, so repeat scans reuse recent upstream responses instead of
+ * spending rate limit. Each data type has its own TTL (quotes seconds, news
+ * minutes, fundamentals a day).
+ *
+ * Entries live in a pluggable CacheStore:
+ * - MemoryCacheStore: per-instance, survives warm invocations only
+ * - PostgresCacheStore: shared table accessed through the PostgREST API
+ *   (see supabase/migrations/*_scan_cache.sql; a pg_cron job purges expired rows)
+ *
+ * TTLs can be overridden with SCAN_CACHE_TTL_<TYPE>_MS (e.g. SCAN_CACHE_TTL_QUOTES_MS).
+ * A store failure is logged and treated as a miss; it never fails a scan.
+ */
+
+import type {
+  CandleDataProvider,
+  CandleQuery,
+  CandleSeries,
+  FundamentalSnapshot,
+  FundamentalsDataProvider,
+  NewsDataProvider,
+  PriceDataProvider,
+  RawNewsItem,
+} from './providers.ts';
+import { candleResolutionToMs, groupByTicker } from './providers.ts';
+import type { RawQuote } from './quotes.ts';
+import type { EnvReader } from './registry.ts';
+
+export type CacheDataType = 'quotes' | 'candles' | 'news' | 'fundamentals';
+
+export const DEFAULT_CACHE_TTLS: Record<CacheDataType, number> = {
+  quotes: 15_000,
+  candles: 5 * 60_000,
+  news: 5 * 60_000,
+  fundamentals: 24 * 60 * 60_000,
+};
+
+export interface CacheWrite<T> {
+  key: string;
+  value: T;
+  ttlMs: number;
+}
+
+/**
+ * Key/value storage with per-entry expiry
+ */
+export interface CacheStore {
+  readonly name: string;
+  getMany<T>(keys: string[]): Promise<Map<string, T>>;
+  setMany<T>(entries: CacheWrite<T>[]): Promise<void>;
+}
+
+/**
+ * Build per-type TTLs from environment variables, falling back to defaults
+ */
+export function loadCacheTtlsFromEnv(getEnv: EnvReader): Record<CacheDataType, number> {
+  const ttls = { ...DEFAULT_CACHE_TTLS };
+  for (const type of Object.keys(ttls) as CacheDataType[]) {
+    const raw = getEnv(`SCAN_CACHE_TTL_${type.toUpperCase()}_MS`);
+    const value = raw != null && raw.trim() !== '' ? Number(raw) : NaN;
+    if (Number.isFinite(value) && value >= 0) ttls[type] = value;
+  }
+  return ttls;
+}
+
+// ============================================================================
+// STORES
+// ============================================================================
+
+/**
+ * In-process store; the oldest entries are evicted beyond `maxEntries`
+ */
+export class MemoryCacheStore implements CacheStore {
+  readonly name = 'memory';
+  private readonly entries = new Map<string, { value: unknown; expiresAt: number }>();
+
+  constructor(
+    private readonly maxEntries = 10_000,
+    private readonly now: () => number = Date.now,
+  ) {}
+
+  async getMany<T>(keys: string[]): Promise<Map<string, T>> {
+    const found = new Map<string, T>();
+    const now = this.now();
+    for (const key of keys) {
+      const entry = this.entries.get(key);
+      if (!entry) continue;
+      if (entry.expiresAt <= now) {
+        this.entries.delete(key);
+        continue;
+      }
+      found.set(key, entry.value as T);
+    }
+    return found;
+  }
+
+  async setMany<T>(entries: CacheWrite<T>[]): Promise<void> {
+    const now = this.now();
+    for (const { key, value, ttlMs } of entries) {
+      this.entries.delete(key); // Re-insert so Map order tracks recency
+      this.entries.set(key, { value, expiresAt: now + ttlMs });
+    }
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) break;
+      this.entries.delete(oldest);
+    }
+  }
+}
+
+export interface PostgresCacheStoreOptions {
+  url: string;        // Supabase project URL
+  serviceKey: string; // Service role key (the table is not exposed to clients)
+  table?: string;
+  now?: () => number;
+}
+
+const POSTGRES_KEY_CHUNK_SIZE = 100;
+
+/**
+ * Store backed by a Postgres table through PostgREST
+ * Table shape: key text primary key, value jsonb, expires_at timestamptz.
+ */
+export class PostgresCacheStore implements CacheStore {
+  readonly name = 'postgres';
+  private readonly endpoint: string;
+  private readonly headers: Record<string, string>;
+  private readonly now: () => number;
+
+  constructor(options: PostgresCacheStoreOptions) {
+    this.endpoint = `${options.url.replace(/\/$/, '')}/rest/v1/${options.table ?? 'scan_cache'}`;
+    this.headers = {
+      apikey: options.serviceKey,
+      Authorization: `Bearer ${options.serviceKey}`,
+      'Content-Type': 'application/json',
+    };
+    this.now = options.now ?? Date.now;
+  }
+
+  async getMany<T>(keys: string[]): Promise<Map<string, T>> {
+    const found = new Map<string, T>();
+    const nowIso = new Date(this.now()).toISOString();
+
+    for (let i = 0; i < keys.length; i += POSTGRES_KEY_CHUNK_SIZE) {
+      const chunk = keys.slice(i, i + POSTGRES_KEY_CHUNK_SIZE);
+      const inList = chunk.map(k => `"${k.replace(/"/g, '\\"')}"`).join(',');
+      const url = `${this.endpoint}?select=key,value&key=in.(${encodeURIComponent(inList)})&expires_at=gt.${encodeURIComponent(nowIso)}`;
+
+      const res = await fetch(url, { headers: this.headers });
+      if (!res.ok) {
+        throw new Error(`Cache read failed: ${res.status} ${await res.text()}`);
+      }
+      const rows: Array<{ key: string; value: T }> = await res.json();
+      for (const row of rows) {
+        found.set(row.key, row.value);
+      }
+    }
+    return found;
+  }
+
+  async setMany<T>(entries: CacheWrite<T>[]): Promise<void> {
+    if (entries.length === 0) return;
+    const now = this.now();
+
+    const res = await fetch(this.endpoint, {
+      method: 'POST',
+      headers: { ...this.headers, Prefer: 'resolution=merge-duplicates,return=minimal' },
+      body: JSON.stringify(entries.map(({ key, value, ttlMs }) => ({
+        key,
+        value,
+        expires_at: new Date(now + ttlMs).toISOString(),
+      }))),
+    });
+    if (!res.ok) {
+      throw new Error(`Cache write failed: ${res.status} ${await res.text()}`);
+    }
+  }
+}
+
+// ============================================================================
+// CACHE
+// ============================================================================
+
+export interface CacheStats {
+  hits: number;
+  misses: number;
+  errors: number;
+}
+
+/**
+ * Per-ticker read-through cache over a store
+ */
+export class ProviderCache {
+  private readonly stats: CacheStats = { hits: 0, misses: 0, errors: 0 };
+
+  constructor(
+    private readonly store: CacheStore,
+    private readonly ttls: Record<CacheDataType, number> = DEFAULT_CACHE_TTLS,
+  ) {}
+
+  get storeName(): string {
+    return this.store.name;
+  }
+
+  getStats(): CacheStats {
+    return { ...this.stats };
+  }
+
+  /**
+   * Return cached items for each ticker and fetch only the tickers that missed.
+   * Tickers whose fetch came back empty are not cached, so failures are retried;
+   * items for tickers that were not requested are returned but not cached.
+   * If the fetch fails but some tickers were cached, the cached items are returned.
+   */
+  async getOrFetch<T extends { ticker: string }>(
+    type: CacheDataType,
+    scope: string,
+    tickers: string[],
+    fetchMissing: (tickers: string[]) => Promise<T[]>,
+  ): Promise<T[]> {
+    const ttlMs = this.ttls[type];
+    if (ttlMs <= 0 || tickers.length === 0) return fetchMissing(tickers);
+
+    const keyOf = (ticker: string) => `${type}:${scope}:${ticker}`;
+
+    let cached = new Map<string, T[]>();
+    try {
+      cached = await this.store.getMany<T[]>(tickers.map(keyOf));
+    } catch (err) {
+      this.stats.errors += 1;
+      console.error(`[ProviderCache] ${this.store.name} read error:`, err);
+    }
+
+    const hits: T[] = [];
+    const missing: string[] = [];
+    for (const ticker of tickers) {
+      const items = cached.get(keyOf(ticker));
+      if (items) hits.push(...items);
+      else missing.push(ticker);
+    }
+    this.stats.hits += tickers.length - missing.length;
+    this.stats.misses += missing.length;
+
+    if (missing.length === 0) return hits;
+
+    let fetched: T[];
+    try {
+      fetched = await fetchMissing(missing);
+    } catch (err) {
+      if (hits.length === 0) throw err;
+      console.error(`[ProviderCache] ${scope} fetch failed, serving ${hits.length} cached items:`, err);
+      return hits;
+    }
+
+    // Only the requested misses are written: items tagged with other tickers (a news
+    // story naming several symbols) are not a complete answer for those tickers
+    const requested = new Set(missing);
+    const writes: CacheWrite<T[]>[] = [];
+    for (const [ticker, items] of groupByTicker(fetched).entries()) {
+      if (requested.has(ticker)) writes.push({ key: keyOf(ticker), value: items, ttlMs });
+    }
+    try {
+      await this.store.setMany(writes);
+    } catch (err) {
+      this.stats.errors += 1;
+      console.error(`[ProviderCache] ${this.store.name} write error:`, err);
+    }
+
+    return [...hits, ...fetched];
+  }
+}
+
+// ============================================================================
+// PROVIDER WRAPPERS
+// ============================================================================
+
+/**
+ * Cache key scope for a candle query: provider, resolution and window length in bars
+ * (the window's end moves with every scan, so it is not part of the key)
+ */
+function candleScope(providerId: string, query: CandleQuery): string {
+  const bars = Math.round((query.to - query.from) / candleResolutionToMs(query.resolution));
+  return `${providerId}:${query.resolution}:${bars}`;
+}
+
+export function withQuoteCache(provider: PriceDataProvider, cache: ProviderCache): PriceDataProvider {
+  return {
+    ...provider,
+    fetchQuotes: (tickers, request) =>
+      cache.getOrFetch<RawQuote>('quotes', provider.id, tickers, missing => provider.fetchQuotes(missing, request)),
+  };
+}
+
+export function withCandleCache(provider: CandleDataProvider, cache: ProviderCache): CandleDataProvider {
+  return {
+    ...provider,
+    fetchCandles: (tickers, query, request) =>
+      cache.getOrFetch<CandleSeries>('candles', candleScope(provider.id, query), tickers, missing =>
+        provider.fetchCandles(missing, query, request)),
+  };
+}
+
+export function withNewsCache(provider: NewsDataProvider, cache: ProviderCache): NewsDataProvider {
+  return {
+    ...provider,
+    fetchNews: (tickers, request) =>
+      cache.getOrFetch<RawNewsItem>('news', provider.id, tickers, missing => provider.fetchNews(missing, request)),
+  };
+}
+
+export function withFundamentalsCache(provider: FundamentalsDataProvider, cache: ProviderCache): FundamentalsDataProvider {
+  return {
+    ...provider,
+    fetchFundamentals: (tickers, request) =>
+      cache.getOrFetch<FundamentalSnapshot>('fundamentals', provider.id, tickers, missing =>
+        provider.fetchFundamentals(missing, request)),
+  };
+}
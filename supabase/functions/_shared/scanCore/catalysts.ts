@@ -0,0 +1,278 @@
+/**
+ * News Catalyst Analyzer
+ *
+ * Scores every recent news item for a ticker instead of keyword-matching the
+ * newest headline:
+ * - sentiment (-1..1) from a small finance lexicon with phrase rules and negation
+ * - relevance (0..1) from whether the item is actually about the ticker
+ * - catalyst types from a rule set of word-boundary patterns
+ * - recency weight, halving every NEWS_HALF_LIFE_HOURS
+ *
+ * The aggregate feeds the catalysts and sentiment sub-scores (see scoring.ts).
+ */
+
+import type { RawNewsItem } from './providers.ts';
+
+export type CatalystType =
+  | 'Earnings'
+  | 'Guidance'
+  | 'Analyst Action'
+  | 'M&A'
+  | 'Contract'
+  | 'Biotech Catalyst'
+  | 'Offering'
+  | 'Legal/Regulatory'
+  | 'Product';
+
+interface CatalystRule {
+  type: CatalystType;
+  patterns: RegExp[];
+  impact: number; // 0-1, how much this kind of news tends to move a stock
+}
+
+const CATALYST_RULES: CatalystRule[] = [
+  {
+    type: 'Earnings',
+    patterns: [/\bearnings\b/i, /\b(q[1-4]|fy\d{2,4})\b/i, /\b(quarterly|annual) results\b/i, /\beps\b/i, /\brevenue\b/i],
+    impact: 0.8,
+  },
+  {
+    type: 'Guidance',
+    patterns: [/\bguidance\b/i, /\boutlook\b/i, /\bforecast\b/i],
+    impact: 0.7,
+  },
+  {
+    type: 'Analyst Action',
+    patterns: [/\b(upgrade[sd]?|downgrade[sd]?)\b/i, /\bprice target\b/i, /\b(initiates?|reiterates?) coverage\b/i],
+    impact: 0.5,
+  },
+  {
+    type: 'M&A',
+    patterns: [/\b(merger|acquisition|acquires?|acquired|takeover|buyout)\b/i, /\bto be acquired\b/i, /\btender offer\b/i],
+    impact: 1,
+  },
+  {
+    type: 'Contract',
+    patterns: [/\bcontract\b/i, /\b(awarded|wins?|won) .{0,30}\b(order|deal|award)\b/i, /\bpartnership\b/i, /\bagreement\b/i],
+    impact: 0.6,
+  },
+  {
+    type: 'Biotech Catalyst',
+    patterns: [/\bfda\b/i, /\bphase (1|2|3|i{1,3})\b/i, /\b(clinical|pivotal) trial\b/i, /\btopline\b/i, /\b(pdufa|bla|nda)\b/i, /\bcomplete response letter\b/i],
+    impact: 1,
+  },
+  {
+    type: 'Offering',
+    patterns: [/\b(public|secondary|registered direct) offering\b/i, /\bprices? .{0,20}offering\b/i, /\bat-the-market\b/i, /\bdilution\b/i],
+    impact: 0.7,
+  },
+  {
+    type: 'Legal/Regulatory',
+    patterns: [/\b(lawsuit|sues|sued|settlement|investigation|subpoena)\b/i, /\b(sec|doj|ftc) (probe|investigation|charges|lawsuit|settlement)\b/i, /\bdelist(ing|ed)?\b/i],
+    impact: 0.6,
+  },
+  {
+    type: 'Product',
+    patterns: [/\b(launch(es|ed)?|unveil(s|ed)?|introduces?)\b/i, /\bapproval\b/i],
+    impact: 0.4,
+  },
+];
+
+/**
+ * Multi-word phrases, matched before single words; their words are not scored again
+ */
+const PHRASE_LEXICON: [RegExp, number][] = [
+  [/\bbeats? (estimates|expectations|consensus)\b/i, 2],
+  [/\b(misses|missed|miss) (estimates|expectations|consensus)\b/i, -2],
+  [/\b(raises|raised|boosts|lifts) (guidance|outlook|forecast)\b/i, 2],
+  [/\b(cuts|lowers|lowered|slashes|withdraws) (guidance|outlook|forecast)\b/i, -2],
+  [/\bfda approv(al|es|ed)\b/i, 2.5],
+  [/\bcomplete response letter\b/i, -2.5],
+  [/\b(met|meets|achieved) (its )?primary endpoint\b/i, 2.5],
+  [/\b(failed|fails|missed) (to meet )?(its )?primary endpoint\b/i, -2.5],
+  [/\b(public|secondary|registered direct) offering\b/i, -1.5],
+  [/\brecord (revenue|sales|quarter)\b/i, 1.5],
+  [/\bprice target (raised|increased)\b/i, 1],
+  [/\bprice target (cut|lowered|reduced)\b/i, -1],
+  [/\bgoing concern\b/i, -2],
+  [/\bshort seller\b/i, -1],
+];
+
+const WORD_LEXICON = new Map<string, number>(Object.entries({
+  // Positive
+  beat: 1, beats: 1, surge: 1.5, surges: 1.5, soar: 1.5, soars: 1.5, jump: 1, jumps: 1, rally: 1, rallies: 1,
+  gain: 0.5, gains: 0.5, record: 0.5, growth: 0.5, strong: 0.7, stronger: 0.7, upgrade: 1.2, upgraded: 1.2, upgrades: 1.2,
+  outperform: 1, approval: 1.5, approved: 1.5, approves: 1.5, breakthrough: 1.5, positive: 0.8, win: 0.8, wins: 0.8,
+  awarded: 1, expands: 0.5, expansion: 0.5, profit: 0.5, profitable: 0.8, exceeds: 1, exceeded: 1, tops: 0.8, raises: 0.5,
+  buyback: 0.8, repurchase: 0.8, dividend: 0.3, partnership: 0.5, acquire: 0.3, acquired: 0.5, bullish: 1,
+  // Negative
+  miss: -1, misses: -1, missed: -1, plunge: -1.5, plunges: -1.5, plummets: -1.5, tumble: -1.2, tumbles: -1.2,
+  falls: -0.8, drop: -0.8, drops: -0.8, slump: -1, slumps: -1, weak: -0.7, weaker: -0.7, downgrade: -1.2,
+  downgraded: -1.2, downgrades: -1.2, underperform: -1, loss: -0.7, losses: -0.7, decline: -0.7, declines: -0.7,
+  lawsuit: -1, sued: -1, investigation: -1, probe: -1, recall: -1, halt: -1, halted: -1, halts: -1, delisting: -1.5,
+  bankruptcy: -2.5, default: -1.5, dilution: -1.2, offering: -0.5, layoffs: -0.8, resigns: -0.8, warning: -0.8,
+  fraud: -2, negative: -0.8, fails: -1.2, failed: -1.2, failure: -1.2, rejects: -1.2, rejected: -1.2, bearish: -1,
+  cuts: -0.5, lowers: -0.5, suspends: -1,
+}));
+
+const NEGATORS = new Set(['not', 'no', 'never', 'without', "doesn't", "didn't", "won't", 'unable']);
+
+export const NEWS_HALF_LIFE_HOURS = 24;
+export const NEWS_LOOKBACK_HOURS = 7 * 24;
+
+export interface NewsItemAnalysis {
+  item: RawNewsItem;
+  sentiment: number;     // -1..1
+  relevance: number;     // 0..1
+  recencyWeight: number; // 0..1
+  catalystTypes: CatalystType[];
+  impact: number;        // 0..1, strongest catalyst type matched (0.2 when none)
+}
+
+export interface CatalystAnalysis {
+  items: NewsItemAnalysis[];    // Within the lookback window, most significant first
+  sentiment: number;            // -1..1, weighted by relevance and recency
+  strength: number;             // 0-100, how much catalyst activity there is
+  catalystTypes: CatalystType[]; // Types seen in relevant items, most significant first
+  primary?: NewsItemAnalysis;
+}
+
+export interface CatalystContext {
+  ticker: string;
+  companyName?: string;
+  now?: number; // Unix ms
+}
+
+function tokenize(text: string): string[] {
+  return text.toLowerCase().split(/[^a-z0-9'&$]+/).filter(Boolean);
+}
+
+/**
+ * Lexicon sentiment of one text, -1..1
+ */
+export function scoreTextSentiment(text: string): number {
+  let remaining = text;
+  let raw = 0;
+
+  for (const [pattern, weight] of PHRASE_LEXICON) {
+    const global = new RegExp(pattern.source, 'gi');
+    const matches = remaining.match(global);
+    if (!matches) continue;
+    raw += weight * matches.length;
+    remaining = remaining.replace(global, ' ');
+  }
+
+  const tokens = tokenize(remaining);
+  tokens.forEach((token, i) => {
+    const weight = WORD_LEXICON.get(token);
+    if (weight == null) return;
+    const window = tokens.slice(Math.max(0, i - 3), i);
+    const negated = window.some(t => NEGATORS.has(t));
+    raw += negated ? -weight : weight;
+  });
+
+  return Math.tanh(raw / 2);
+}
+
+/**
+ * Catalyst types whose rules match the text
+ */
+export function classifyCatalysts(text: string): CatalystType[] {
+  return CATALYST_RULES.filter(rule => rule.patterns.some(p => p.test(text))).map(rule => rule.type);
+}
+
+function catalystImpact(types: CatalystType[]): number {
+  return types.reduce((max, type) => Math.max(max, CATALYST_RULES.find(r => r.type === type)?.impact ?? 0), 0.2);
+}
+
+/**
+ * How clearly an item is about the ticker: named in the headline, in the summary, or only tagged
+ */
+function scoreRelevance(item: RawNewsItem, context: CatalystContext): number {
+  const mentions = (text: string) => {
+    const symbol = new RegExp(`(^|[^A-Za-z])\\$?${context.ticker.replace(/[.^$*+?()[\]{}|\\]/g, '\\$&')}([^A-Za-z]|$)`);
+    if (symbol.test(text)) return true;
+    const name = context.companyName?.replace(/,?\s+(inc|corp|corporation|co|ltd|plc|holdings)\.?$/i, '').trim();
+    return !!name && name.length > 2 && text.toLowerCase().includes(name.toLowerCase());
+  };
+  if (mentions(item.headline)) return 1;
+  if (mentions(item.summary)) return 0.7;
+  return 0.4; // Tagged with the ticker by the provider, but not named
+}
+
+/**
+ * Analyze one news item
+ */
+export function analyzeNewsItem(item: RawNewsItem, context: CatalystContext): NewsItemAnalysis {
+  const now = context.now ?? Date.now();
+  const text = `${item.headline}. ${item.summary}`;
+  const catalystTypes = classifyCatalysts(text);
+  const ageHours = Math.max(0, (now - new Date(item.datetime).getTime()) / 3_600_000);
+
+  // The headline carries the news; the summary only nudges the score
+  const sentiment = Math.max(-1, Math.min(1, scoreTextSentiment(item.headline) * 0.7 + scoreTextSentiment(item.summary) * 0.3));
+
+  return {
+    item,
+    sentiment,
+    relevance: scoreRelevance(item, context),
+    recencyWeight: Number.isFinite(ageHours) ? 0.5 ** (ageHours / NEWS_HALF_LIFE_HOURS) : 0,
+    catalystTypes,
+    impact: catalystImpact(catalystTypes),
+  };
+}
+
+function significance(a: NewsItemAnalysis): number {
+  return a.relevance * a.recencyWeight * (a.impact + Math.abs(a.sentiment));
+}
+
+/**
+ * Analyze every item within the lookback window and aggregate the result
+ */
+export function analyzeCatalysts(news: RawNewsItem[], context: CatalystContext): CatalystAnalysis {
+  const now = context.now ?? Date.now();
+  const cutoff = now - NEWS_LOOKBACK_HOURS * 3_600_000;
+
+  const items = news
+    .filter(item => new Date(item.datetime).getTime() >= cutoff)
+    .map(item => analyzeNewsItem(item, { ...context, now }))
+    .sort((a, b) => significance(b) - significance(a));
+
+  if (items.length === 0) {
+    return { items, sentiment: 0, strength: 0, catalystTypes: [] };
+  }
+
+  let weightSum = 0;
+  let sentimentSum = 0;
+  let activity = 0;
+  const typeWeights = new Map<CatalystType, number>();
+
+  for (const a of items) {
+    const weight = a.relevance * a.recencyWeight;
+    weightSum += weight;
+    sentimentSum += weight * a.sentiment;
+    activity += weight * a.impact;
+    if (a.relevance >= 0.7) {
+      for (const type of a.catalystTypes) {
+        typeWeights.set(type, (typeWeights.get(type) ?? 0) + significance(a));
+      }
+    }
+  }
+
+  return {
+    items,
+    sentiment: weightSum > 0 ? sentimentSum / weightSum : 0,
+    // Saturating: one fresh, on-topic, high-impact item scores ~63
+    strength: Math.round(100 * (1 - Math.exp(-activity))),
+    catalystTypes: Array.from(typeWeights.entries()).sort((a, b) => b[1] - a[1]).map(([type]) => type),
+    primary: items[0],
+  };
+}
+
+export function describeSentiment(sentiment: number): string {
+  if (sentiment >= 0.5) return 'strongly positive';
+  if (sentiment >= 0.15) return 'positive';
+  if (sentiment <= -0.5) return 'strongly negative';
+  if (sentiment <= -0.15) return 'negative';
+  return 'neutral';
+}
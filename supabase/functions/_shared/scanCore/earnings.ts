@@ -0,0 +1,91 @@
+/**
+ * Earnings Calendar
+ *
+ * Upcoming earnings reports from the earnings calendar providers. A report
+ * within the lookahead window is attached to the result, can be required by
+ * ScanFilters.earningsWithinDays, and adds a forward-looking driver to the
+ * catalysts sub-score (news only looks back).
+ *
+ * Dates are calendar dates in New York, where US companies report.
+ */
+
+import { addCalendarDays, daysUntilDate, newYorkDate } from './marketCalendar.ts';
+import type { CalendarQuery, EarningsEvent } from './providers.ts';
+import type { EarningsTime, ScoreDriver, UpcomingEarnings } from './types.ts';
+
+/**
+ * How far ahead the calendar is queried when no earnings filter asks for more
+ */
+export const EARNINGS_LOOKAHEAD_DAYS = 14;
+
+/**
+ * Reports within this many days get the "Earnings Soon" tag
+ */
+export const EARNINGS_SOON_DAYS = 7;
+
+export const EARNINGS_TIME_LABELS: Record<EarningsTime, string> = {
+  'before-open': 'Before open',
+  'after-close': 'After close',
+  'during-hours': 'During market hours',
+};
+
+/**
+ * Calendar window to query: today through the filter window or the default lookahead, whichever is longer
+ */
+export function buildEarningsQuery(withinDays?: number, now: number = Date.now()): CalendarQuery {
+  const today = newYorkDate(now);
+  return { from: today, to: addCalendarDays(today, Math.max(withinDays ?? 0, EARNINGS_LOOKAHEAD_DAYS)) };
+}
+
+/**
+ * Next report per ticker from all providers' events
+ * The earliest date today or later wins; on the same date, events earlier in
+ * the list (higher-priority providers) win and later ones only fill gaps.
+ */
+export function selectUpcomingEarnings(events: EarningsEvent[], now: number = Date.now()): Map<string, UpcomingEarnings> {
+  const upcoming = new Map<string, UpcomingEarnings>();
+
+  for (const event of events) {
+    const daysUntil = daysUntilDate(event.date, now);
+    if (!Number.isFinite(daysUntil) || daysUntil < 0) continue;
+
+    const current = upcoming.get(event.ticker);
+    if (current && current.daysUntil < daysUntil) continue;
+
+    if (current && current.daysUntil === daysUntil) {
+      current.time ??= event.time;
+      current.epsEstimate ??= event.epsEstimate;
+      current.revenueEstimate ??= event.revenueEstimate;
+      continue;
+    }
+
+    upcoming.set(event.ticker, {
+      date: event.date,
+      time: event.time,
+      daysUntil,
+      epsEstimate: event.epsEstimate,
+      revenueEstimate: event.revenueEstimate,
+      source: event.source,
+    });
+  }
+
+  return upcoming;
+}
+
+/**
+ * True when a report is scheduled within the given number of days
+ */
+export function reportsWithin(earnings: UpcomingEarnings | null | undefined, days: number): boolean {
+  return earnings != null && earnings.daysUntil >= 0 && earnings.daysUntil <= days;
+}
+
+/**
+ * Catalysts driver for an upcoming report: 25 points within a day, 18 within
+ * three, 12 within a week, 5 within two weeks
+ */
+export function deriveEarningsDriver(earnings: UpcomingEarnings | null | undefined): ScoreDriver | null {
+  if (!earnings || earnings.daysUntil < 0) return null;
+  const { daysUntil } = earnings;
+  const points = daysUntil <= 1 ? 25 : daysUntil <= 3 ? 18 : daysUntil <= 7 ? 12 : daysUntil <= 14 ? 5 : 0;
+  return points > 0 ? { indicator: 'upcomingEarnings', value: daysUntil, points } : null;
+}
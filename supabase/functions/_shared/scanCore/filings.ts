@@ -0,0 +1,303 @@
+/**
+ * SEC Filings
+ *
+ * Recent filings are classified into the signals traders act on:
+ * - Dilution: registration statements (S-1, F-1), shelf registrations (S-3,
+ *   F-3, including automatic shelves), equity offering prospectuses (424B4
+ *   priced offerings, 424B5 shelf takedowns) and unregistered equity sales
+ *   (8-K item 3.02). 424B2 (mostly debt and structured notes that large
+ *   issuers file daily) and 424B3 (resales, exchange offers) are left out.
+ * - Insider trades: Form 4 open-market purchases (code P) and sales (code S);
+ *   grants, option exercises and tax withholding are ignored
+ * - Material events: other 8-K items (agreements, bankruptcy, delisting,
+ *   restatement, officer changes, ...)
+ *
+ * Dilution and the severe 8-K items raise the result's risk level one step and
+ * add to its risk notes; dilution and insider buying also set tags.
+ *
+ * Offline runs and tests use createFixtureFilingsProvider with filings parsed
+ * by parseFilingsFixture (JSON: an array of filings, or { "filings": [...] }).
+ */
+
+import { addCalendarDays, newYorkDate } from './marketCalendar.ts';
+import type { CalendarQuery, FilingsDataProvider, RawFiling } from './providers.ts';
+import type { FilingSignal, FilingSignalType, FilingsSummary, RiskLevel } from './types.ts';
+
+/**
+ * How far back filings are looked up
+ */
+export const FILINGS_LOOKBACK_DAYS = 30;
+
+/**
+ * Most signals kept per result (newest first)
+ */
+export const MAX_FILING_SIGNALS = 10;
+
+export const FILING_SIGNAL_LABELS: Record<FilingSignalType, string> = {
+  'dilution': 'Dilution',
+  'insider-buy': 'Insider buy',
+  'insider-sell': 'Insider sell',
+  'material-event': 'Material event',
+};
+
+interface EightKItem {
+  label: string;
+  type: FilingSignalType;
+  severe: boolean;
+}
+
+/**
+ * 8-K items worth surfacing; exhibits (9.01) and Reg FD furnishings (7.01) are left out
+ */
+const EIGHT_K_ITEMS: Record<string, EightKItem> = {
+  '1.01': { label: 'Material agreement', type: 'material-event', severe: false },
+  '1.02': { label: 'Material agreement terminated', type: 'material-event', severe: false },
+  '1.03': { label: 'Bankruptcy or receivership', type: 'material-event', severe: true },
+  '2.01': { label: 'Acquisition or disposition completed', type: 'material-event', severe: false },
+  '2.02': { label: 'Results of operations', type: 'material-event', severe: false },
+  '2.04': { label: 'Obligation accelerated', type: 'material-event', severe: true },
+  '2.05': { label: 'Restructuring costs', type: 'material-event', severe: false },
+  '2.06': { label: 'Material impairment', type: 'material-event', severe: false },
+  '3.01': { label: 'Delisting notice', type: 'material-event', severe: true },
+  '3.02': { label: 'Unregistered equity sale', type: 'dilution', severe: true },
+  '3.03': { label: 'Security holder rights modified', type: 'material-event', severe: false },
+  '4.01': { label: 'Auditor change', type: 'material-event', severe: false },
+  '4.02': { label: 'Financial statements not to be relied on', type: 'material-event', severe: true },
+  '5.01': { label: 'Change in control', type: 'material-event', severe: false },
+  '5.02': { label: 'Director or officer change', type: 'material-event', severe: false },
+  '8.01': { label: 'Other event', type: 'material-event', severe: false },
+};
+
+const REGISTRATION_FORM = /^(S|F)-1(\/A)?$/;
+const SHELF_FORM = /^(S|F)-3(ASR|\/A)?$/;
+const PROSPECTUS_FORM = /^424B[45]$/; // Equity offerings only
+const EIGHT_K_FORM = /^8-K(\/A)?$/;
+const INSIDER_FORM = /^4(\/A)?$/;
+
+function formatShares(shares: number): string {
+  return Math.abs(Math.round(shares)).toLocaleString('en-US');
+}
+
+function insiderLabel(action: string, insider: NonNullable<RawFiling['insider']>): string {
+  const parts = [action];
+  if (insider.name) parts.push(`by ${insider.name}`);
+  if (insider.shares != null && Number.isFinite(insider.shares)) {
+    const price = insider.pricePerShare != null && insider.pricePerShare > 0 ? ` at $${insider.pricePerShare.toFixed(2)}` : '';
+    parts.push(`(${formatShares(insider.shares)} shares${price})`);
+  }
+  return parts.join(' ');
+}
+
+/**
+ * Signals carried by one filing; forms that signal nothing return an empty list
+ */
+export function classifyFiling(filing: RawFiling): FilingSignal[] {
+  const formType = filing.formType.trim().toUpperCase();
+  const base = { formType: filing.formType, filedAt: filing.filedAt, url: filing.url, source: filing.source };
+
+  if (REGISTRATION_FORM.test(formType)) {
+    return [{ ...base, type: 'dilution', label: `Registration statement (${formType})`, severe: true }];
+  }
+  if (SHELF_FORM.test(formType)) {
+    return [{ ...base, type: 'dilution', label: `Shelf registration (${formType})`, severe: true }];
+  }
+  if (PROSPECTUS_FORM.test(formType)) {
+    return [{ ...base, type: 'dilution', label: `Equity offering prospectus (${formType})`, severe: true }];
+  }
+
+  if (INSIDER_FORM.test(formType)) {
+    const code = filing.insider?.transactionCode?.trim().toUpperCase();
+    if (code === 'P') return [{ ...base, type: 'insider-buy', label: insiderLabel('Insider purchase', filing.insider!), severe: false }];
+    if (code === 'S') return [{ ...base, type: 'insider-sell', label: insiderLabel('Insider sale', filing.insider!), severe: false }];
+    return [];
+  }
+
+  if (EIGHT_K_FORM.test(formType)) {
+    const signals: FilingSignal[] = [];
+    for (const item of filing.items ?? []) {
+      const known = EIGHT_K_ITEMS[item.trim()];
+      if (!known) continue;
+      signals.push({ ...base, type: known.type, label: `${known.label} (8-K ${item.trim()})`, severe: known.severe });
+    }
+    return signals;
+  }
+
+  return [];
+}
+
+/**
+ * Filing window to query: FILINGS_LOOKBACK_DAYS back through today
+ */
+export function buildFilingsQuery(now: number = Date.now()): CalendarQuery {
+  const today = newYorkDate(now);
+  return { from: addCalendarDays(today, -FILINGS_LOOKBACK_DAYS), to: today };
+}
+
+/**
+ * Filings of the given tickers filed inside a query window
+ */
+export function filingsInWindow(filings: RawFiling[], tickers: string[], query: CalendarQuery): RawFiling[] {
+  const wanted = new Set(tickers);
+  return filings.filter(f => {
+    const date = f.filedAt.slice(0, 10);
+    return wanted.has(f.ticker) && date >= query.from && date <= query.to;
+  });
+}
+
+/**
+ * Classified filings per ticker
+ * The same signal reported by several providers on the same day is kept once
+ * (earlier providers win); tickers whose filings signal nothing are left out.
+ */
+export function summarizeFilings(filings: RawFiling[]): Map<string, FilingsSummary> {
+  const signalsByTicker = new Map<string, FilingSignal[]>();
+  const seen = new Set<string>();
+
+  for (const filing of filings) {
+    for (const signal of classifyFiling(filing)) {
+      const key = `${filing.ticker}|${signal.type}|${signal.label}|${signal.filedAt.slice(0, 10)}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+
+      const list = signalsByTicker.get(filing.ticker) ?? [];
+      list.push(signal);
+      signalsByTicker.set(filing.ticker, list);
+    }
+  }
+
+  const summaries = new Map<string, FilingsSummary>();
+  for (const [ticker, signals] of signalsByTicker.entries()) {
+    signals.sort((a, b) => b.filedAt.localeCompare(a.filedAt));
+    summaries.set(ticker, {
+      dilutionRisk: signals.some(s => s.type === 'dilution'),
+      insiderBuying: signals.some(s => s.type === 'insider-buy'),
+      insiderSelling: signals.some(s => s.type === 'insider-sell'),
+      signals: signals.slice(0, MAX_FILING_SIGNALS),
+    });
+  }
+  return summaries;
+}
+
+const RAISED_RISK: Record<RiskLevel, RiskLevel> = {
+  Low: 'Medium',
+  Medium: 'High',
+  High: 'High',
+};
+
+/**
+ * Risk level, risk notes and tags after taking recent filings into account
+ * Any severe signal raises the risk level one step.
+ */
+export function assessFilingsRisk(
+  summary: FilingsSummary | null | undefined,
+  riskLevel: RiskLevel,
+): { riskLevel: RiskLevel; riskNotes: string[]; tags: string[] } {
+  if (!summary) return { riskLevel, riskNotes: [], tags: [] };
+
+  const { signals } = summary;
+  const riskNotes: string[] = [];
+  const dilution = signals.filter(s => s.type === 'dilution');
+  if (dilution.length > 0) {
+    riskNotes.push(`Dilution risk: ${dilution.map(s => s.label).join(', ')}`);
+  }
+  const severeEvents = signals.filter(s => s.type === 'material-event' && s.severe);
+  if (severeEvents.length > 0) {
+    riskNotes.push(`Severe 8-K: ${severeEvents.map(s => s.label).join(', ')}`);
+  }
+  if (summary.insiderSelling) riskNotes.push(`Insider selling in the last ${FILINGS_LOOKBACK_DAYS} days`);
+  if (summary.insiderBuying) riskNotes.push(`Insider buying in the last ${FILINGS_LOOKBACK_DAYS} days`);
+
+  const tags = [
+    ...(summary.dilutionRisk ? ['Dilution Risk'] : []),
+    ...(summary.insiderBuying ? ['Insider Buying'] : []),
+  ];
+
+  return {
+    riskLevel: signals.some(s => s.severe) ? RAISED_RISK[riskLevel] : riskLevel,
+    riskNotes,
+    tags,
+  };
+}
+
+function optionalText(value: unknown): string | undefined {
+  if (typeof value === 'number') return String(value);
+  return typeof value === 'string' && value.trim() !== '' ? value.trim() : undefined;
+}
+
+function optionalNumber(value: unknown): number | undefined {
+  const n = typeof value === 'string' ? Number(value) : value;
+  return typeof n === 'number' && Number.isFinite(n) ? n : undefined;
+}
+
+function toRawFiling(fields: Record<string, unknown>, source: string): RawFiling | null {
+  const ticker = optionalText(fields.ticker ?? fields.symbol)?.toUpperCase();
+  const formType = optionalText(fields.formType ?? fields.form);
+  const filedAt = optionalText(fields.filedAt ?? fields.filingDate);
+  if (!ticker || !formType || !filedAt || Number.isNaN(Date.parse(filedAt))) return null;
+
+  const items = Array.isArray(fields.items)
+    ? fields.items.map(optionalText).filter((item): item is string => item != null)
+    : optionalText(fields.items)?.split(',').map(item => item.trim()).filter(item => item !== '');
+
+  const rawInsider = fields.insider;
+  const insider = typeof rawInsider === 'object' && rawInsider !== null
+    ? {
+        name: optionalText((rawInsider as Record<string, unknown>).name),
+        transactionCode: optionalText((rawInsider as Record<string, unknown>).transactionCode),
+        shares: optionalNumber((rawInsider as Record<string, unknown>).shares),
+        pricePerShare: optionalNumber((rawInsider as Record<string, unknown>).pricePerShare),
+      }
+    : undefined;
+
+  return {
+    source,
+    ticker,
+    formType,
+    filedAt,
+    url: optionalText(fields.url),
+    items,
+    description: optionalText(fields.description),
+    insider,
+  };
+}
+
+/**
+ * Parse a filings fixture (JSON); entries that do not parse are skipped
+ * Accepts formType or form, filedAt or filingDate, and items as an array or a
+ * comma-separated string.
+ *
+ * @param text - File contents
+ * @param source - Provider id recorded on each filing
+ */
+export function parseFilingsFixture(text: string, source: string): RawFiling[] {
+  const trimmed = text.trim();
+  if (trimmed === '') return [];
+
+  const data = JSON.parse(trimmed);
+  const list = Array.isArray(data) ? data : Array.isArray(data?.filings) ? data.filings : [];
+
+  const filings: RawFiling[] = [];
+  for (const row of list) {
+    if (typeof row !== 'object' || row === null) continue;
+    const filing = toRawFiling(row as Record<string, unknown>, source);
+    if (filing) filings.push(filing);
+  }
+  return filings;
+}
+
+/**
+ * Filings provider serving a fixed list, for offline runs and tests
+ * Returns the fixture filings of the requested tickers inside the query window.
+ */
+export function createFixtureFilingsProvider(
+  filings: RawFiling[],
+  id = 'fixture-filings',
+  name = 'Filings Fixture',
+): FilingsDataProvider {
+  return {
+    id,
+    name,
+    isConfigured: () => true,
+    fetchFilings: async (tickers, query) => filingsInWindow(filings, tickers, query),
+  };
+}
@@ -0,0 +1,156 @@
+/**
+ * Filter Utilities
+ * 
+ * Provides helpers for normalizing and applying scan filters consistently
+ * across mock and live scan engines.
+ */
+
+import { reportsWithin } from './earnings.ts';
+import type { CapBucket, ScanFilters, ScanResult } from './types.ts';
+import { DEFAULT_VOLATILITY_THRESHOLDS, VOLATILITY_METHOD_LABELS, passesVolatilityFilter } from './volatility.ts';
+
+/**
+ * Normalize filter values to ensure consistency
+ * - Handles missing fields with sensible defaults
+ * - Swaps min/max if they're in the wrong order
+ * - Ensures sectors is always an array
+ */
+export function normalizeFilters(filters: ScanFilters): ScanFilters {
+  const cleaned: ScanFilters = {
+    marketCap: filters.marketCap ?? 'any',
+    minPrice: filters.minPrice ?? undefined,
+    maxPrice: filters.maxPrice ?? undefined,
+    minVolume: filters.minVolume ?? undefined,
+    minRelativeVolume: filters.minRelativeVolume ?? undefined,
+    sectors: filters.sectors ?? [],
+    highVolatilityOnly: filters.highVolatilityOnly ?? false,
+    volatilityMethod: filters.volatilityMethod ?? 'dailyChange',
+    volatilityThreshold: filters.volatilityThreshold ?? undefined,
+    earningsWithinDays: filters.earningsWithinDays ?? undefined,
+    minGapPercent: filters.minGapPercent ?? undefined,
+    minPreMarketVolume: filters.minPreMarketVolume ?? undefined,
+  };
+
+  // A negative or non-numeric window means no earnings filter
+  if (cleaned.earningsWithinDays != null) {
+    cleaned.earningsWithinDays = Number.isFinite(cleaned.earningsWithinDays) && cleaned.earningsWithinDays >= 0
+      ? Math.floor(cleaned.earningsWithinDays)
+      : undefined;
+  }
+
+  // Session thresholds must be positive to mean anything
+  if (cleaned.minGapPercent != null && !(cleaned.minGapPercent > 0)) cleaned.minGapPercent = undefined;
+  if (cleaned.minPreMarketVolume != null && !(cleaned.minPreMarketVolume > 0)) cleaned.minPreMarketVolume = undefined;
+
+  // Fall back to the method's default when the threshold is missing or not positive
+  if (cleaned.volatilityThreshold == null || !(cleaned.volatilityThreshold > 0)) {
+    cleaned.volatilityThreshold = DEFAULT_VOLATILITY_THRESHOLDS[cleaned.volatilityMethod];
+  }
+
+  // If both min and max exist and min > max, swap them to avoid invalid ranges
+  if (cleaned.minPrice != null && cleaned.maxPrice != null && cleaned.minPrice > cleaned.maxPrice) {
+    const temp = cleaned.minPrice;
+    cleaned.minPrice = cleaned.maxPrice;
+    cleaned.maxPrice = temp;
+  }
+
+  return cleaned;
+}
+
+/**
+ * Build a human-readable summary of active filters
+ * Useful for displaying in UI or logging to scan history
+ */
+export function buildFiltersSummary(filters: ScanFilters): string {
+  const f = normalizeFilters(filters);
+  
+  const capLabel = f.marketCap === 'any' ? 'Any' : f.marketCap.charAt(0).toUpperCase() + f.marketCap.slice(1);
+  
+  const priceLabel = f.minPrice == null && f.maxPrice == null
+    ? 'Any'
+    : f.minPrice != null && f.maxPrice != null
+    ? `$${f.minPrice}–$${f.maxPrice}`
+    : f.minPrice != null
+    ? `≥$${f.minPrice}`
+    : `≤$${f.maxPrice}`;
+  
+  const volLabel = f.minVolume == null 
+    ? 'Any' 
+    : f.minVolume >= 1000000
+    ? `${(f.minVolume / 1000000).toFixed(1)}M+`
+    : `${f.minVolume}+`;
+  
+  const rvolLabel = f.minRelativeVolume == null ? '' : ` | RVOL: ≥${f.minRelativeVolume}x`;
+  const sectorsLabel = !f.sectors.length ? 'All' : f.sectors.join(', ');
+  const highVolLabel = f.highVolatilityOnly
+    ? ` | High Vol: ${VOLATILITY_METHOD_LABELS[f.volatilityMethod]} ≥${f.volatilityThreshold}%`
+    : '';
+  const earningsLabel = f.earningsWithinDays == null ? '' : ` | Earnings: ≤${f.earningsWithinDays}d`;
+  const gapLabel = f.minGapPercent == null ? '' : ` | Gap: ≥${f.minGapPercent}%`;
+  const preMarketLabel = f.minPreMarketVolume == null
+    ? ''
+    : ` | Pre-Mkt Vol: ${f.minPreMarketVolume >= 1000000 ? `${(f.minPreMarketVolume / 1000000).toFixed(1)}M` : f.minPreMarketVolume}+`;
+
+  return `Cap: ${capLabel} | Price: ${priceLabel} | Vol: ${volLabel}${rvolLabel} | Sectors: ${sectorsLabel}${highVolLabel}${earningsLabel}${gapLabel}${preMarketLabel}`;
+}
+
+/**
+ * Determine market cap bucket from market cap value
+ * Used for filtering when we have actual marketCap numbers
+ */
+export function getMarketCapBucket(marketCap: number): CapBucket {
+  if (marketCap < 300_000_000) return 'micro';
+  if (marketCap < 2_000_000_000) return 'small';
+  if (marketCap < 10_000_000_000) return 'mid';
+  return 'large';
+}
+
+/**
+ * Apply filters to a single scan result
+ * Returns true if the result passes all active filters
+ */
+export function resultPassesFilters(result: ScanResult, filters: ScanFilters): boolean {
+  const f = normalizeFilters(filters);
+
+  // Price filters
+  const priceOk = (f.minPrice == null || result.price >= f.minPrice) &&
+                  (f.maxPrice == null || result.price <= f.maxPrice);
+
+  // Volume filter
+  const volOk = f.minVolume == null || result.volume >= f.minVolume;
+
+  // Relative volume filter (tickers without RVOL cannot be verified, so they are excluded)
+  const rvolOk = f.minRelativeVolume == null ||
+    (result.relativeVolume != null && result.relativeVolume >= f.minRelativeVolume);
+
+  // Sector filter
+  const sectorOk = !f.sectors.length || f.sectors.includes(result.sector);
+
+  // Market cap filter
+  let capOk = true;
+  if (f.marketCap !== 'any') {
+    const bucket = getMarketCapBucket(result.marketCap);
+    capOk = bucket === f.marketCap;
+  }
+
+  // Volatility filter
+  const volatilityOk = passesVolatilityFilter(result, f);
+
+  // Earnings filter (names without a known report date are excluded)
+  const earningsOk = f.earningsWithinDays == null || reportsWithin(result.earnings, f.earningsWithinDays);
+
+  // Session filters (names without extended-hours data cannot be verified, so they are excluded)
+  const gapOk = f.minGapPercent == null || (result.gapPercent != null && Math.abs(result.gapPercent) >= f.minGapPercent);
+  const preMarketOk = f.minPreMarketVolume == null ||
+    (result.preMarketVolume != null && result.preMarketVolume >= f.minPreMarketVolume);
+
+  return priceOk && volOk && rvolOk && sectorOk && capOk && volatilityOk && earningsOk && gapOk && preMarketOk;
+}
+
+/**
+ * Apply filters to an array of scan results
+ * Returns filtered array
+ */
+export function applyFiltersToResults(results: ScanResult[], filters: ScanFilters): ScanResult[] {
+  return results.filter(r => resultPassesFilters(r, filters));
+}
@@ -0,0 +1,33 @@
+/**
+ * Scan Core
+ * 
+ * Runtime-agnostic scan logic shared by the browser app and the live-scan
+ * edge function. Scoring, merging and filtering are defined here once.
+ * 
+ * Imports inside this directory use explicit `.ts` extensions so Deno can
+ * resolve them; Vite and tsc accept them via allowImportingTsExtensions.
+ */
+
+export * from './types.ts';
+export * from './sectors.ts';
+export * from './quotes.ts';
+export * from './providers.ts';
+export * from './registry.ts';
+export * from './cache.ts';
+export * from './scheduler.ts';
+export * from './universe.ts';
+export * from './filters.ts';
+export * from './volatility.ts';
+export * from './indicators.ts';
+export * from './catalysts.ts';
+export * from './marketCalendar.ts';
+export * from './earnings.ts';
+export * from './session.ts';
+export * from './biotech.ts';
+export * from './filings.ts';
+export * from './newsClusters.ts';
+export * from './squeeze.ts';
+export * from './scoring.ts';
+export * from './pipeline.ts';
+export * from './response.ts';
+export * from './provenance.ts';
@@ -0,0 +1,173 @@
+/**
+ * Technical Indicators
+ *
+ * Pure functions over normalized candles (oldest first). Daily bars drive RSI,
+ * gap, relative volume, 52-week-high proximity and consolidation/breakout
+ * detection; intraday bars drive VWAP distance.
+ */
+
+import { newYorkClock, newYorkDate } from './marketCalendar.ts';
+import type { Candle } from './providers.ts';
+import type { TechnicalIndicators } from './types.ts';
+import { computeAtrPercent, computeHistoricalVolatility } from './volatility.ts';
+
+const CONSOLIDATION_RANGE_PERCENT = 8;
+
+/**
+ * Wilder's RSI over closing prices
+ */
+export function computeRsi(closes: number[], period = 14): number | null {
+  if (closes.length < period + 1) return null;
+
+  let gain = 0;
+  let loss = 0;
+  for (let i = 1; i <= period; i++) {
+    const delta = closes[i] - closes[i - 1];
+    if (delta >= 0) gain += delta;
+    else loss -= delta;
+  }
+  let avgGain = gain / period;
+  let avgLoss = loss / period;
+
+  for (let i = period + 1; i < closes.length; i++) {
+    const delta = closes[i] - closes[i - 1];
+    avgGain = (avgGain * (period - 1) + Math.max(delta, 0)) / period;
+    avgLoss = (avgLoss * (period - 1) + Math.max(-delta, 0)) / period;
+  }
+
+  if (avgLoss === 0) return 100;
+  const rs = avgGain / avgLoss;
+  return 100 - 100 / (1 + rs);
+}
+
+/**
+ * Percent distance of price from the volume-weighted average price of the given bars
+ */
+export function computeVwapDistance(intraday: Candle[], price: number): number | null {
+  let pv = 0;
+  let vol = 0;
+  for (const c of intraday) {
+    const typical = (c.high + c.low + c.close) / 3;
+    pv += typical * c.volume;
+    vol += c.volume;
+  }
+  if (vol === 0) return null;
+  const vwap = pv / vol;
+  return ((price - vwap) / vwap) * 100;
+}
+
+/**
+ * New York trading date of a daily bar
+ * Vendors stamp daily bars at midnight New York time or midnight UTC (the
+ * previous evening in New York); half a day later both fall on the bar's date.
+ */
+export function dailyBarDate(candle: Candle): string {
+  return newYorkDate(candle.timestamp + 12 * 60 * 60_000);
+}
+
+/**
+ * Whether the last daily bar is today's session (partial until the close); on
+ * weekends, holidays and before today's bar exists it is the last completed one
+ */
+function endsWithToday(daily: Candle[], now: number): boolean {
+  return daily.length > 0 && dailyBarDate(daily[daily.length - 1]) === newYorkDate(now);
+}
+
+/**
+ * Gap of today's open versus the prior session's close, in percent
+ * Null until today has a daily bar: the last bar's gap would be a past session's.
+ */
+export function computeGapPercent(daily: Candle[], now: number = Date.now()): number | null {
+  if (daily.length < 2 || !endsWithToday(daily, now)) return null;
+  const last = daily[daily.length - 1];
+  const prev = daily[daily.length - 2];
+  if (!prev.close) return null;
+  return ((last.open - prev.close) / prev.close) * 100;
+}
+
+/**
+ * Current volume relative to the average of the `period` completed sessions
+ * The latest bar is left out of the average only while it is today's partial
+ * session; on weekends, holidays and before the open it is the last completed one.
+ */
+export function computeRelativeVolume(
+  daily: Candle[],
+  currentVolume: number | null,
+  period = 20,
+  now: number = Date.now(),
+): number | null {
+  if (daily.length < 2) return null;
+  const history = (endsWithToday(daily, now) ? daily.slice(0, -1) : daily).slice(-period);
+  const avg = history.reduce((sum, c) => sum + c.volume, 0) / history.length;
+  const volume = currentVolume ?? daily[daily.length - 1].volume;
+  if (!avg || !volume) return null;
+  return volume / avg;
+}
+
+/**
+ * Price as a percent of the highest high over roughly the last year of daily bars
+ */
+export function computePercentOf52WeekHigh(daily: Candle[], price: number): number | null {
+  if (daily.length === 0) return null;
+  const high = Math.max(...daily.slice(-252).map(c => c.high));
+  if (!high) return null;
+  return (price / high) * 100;
+}
+
+/**
+ * Tight-range detection over the last `lookback` completed sessions and a break above that range
+ * Today's partial bar, when there is one, is left out of the range.
+ */
+export function detectConsolidation(daily: Candle[], price: number, lookback = 10, now: number = Date.now()): {
+  rangePercent: number | null;
+  consolidating: boolean;
+  breakout: boolean;
+} {
+  const completed = endsWithToday(daily, now) ? daily.slice(0, -1) : daily;
+  if (completed.length < lookback) return { rangePercent: null, consolidating: false, breakout: false };
+
+  const window = completed.slice(-lookback);
+  const high = Math.max(...window.map(c => c.high));
+  const low = Math.min(...window.map(c => c.low));
+  const rangePercent = price > 0 ? ((high - low) / price) * 100 : null;
+  const consolidating = rangePercent != null && rangePercent <= CONSOLIDATION_RANGE_PERCENT;
+
+  return { rangePercent, consolidating, breakout: consolidating && price > high };
+}
+
+/**
+ * Bars from the most recent session only (grouped by New York calendar day,
+ * so after-hours bars stay with their session)
+ */
+export function latestSessionCandles(intraday: Candle[]): Candle[] {
+  if (intraday.length === 0) return [];
+  const lastDay = newYorkClock(intraday[intraday.length - 1].timestamp).date;
+  return intraday.filter(c => newYorkClock(c.timestamp).date === lastDay);
+}
+
+/**
+ * Compute every indicator available from the given history
+ */
+export function computeTechnicalIndicators(input: {
+  daily: Candle[];
+  intraday?: Candle[];
+  price: number;
+  volume: number | null;
+  now?: number;
+}): TechnicalIndicators {
+  const { daily, intraday = [], price, volume, now = Date.now() } = input;
+  const consolidation = detectConsolidation(daily, price, 10, now);
+
+  return {
+    rsi14: computeRsi(daily.map(c => c.close)),
+    vwapDistancePercent: computeVwapDistance(latestSessionCandles(intraday), price),
+    gapPercent: computeGapPercent(daily, now),
+    relativeVolume: computeRelativeVolume(daily, volume, 20, now),
+    percentOf52WeekHigh: computePercentOf52WeekHigh(daily, price),
+    rangePercent10d: consolidation.rangePercent,
+    consolidating: consolidation.consolidating,
+    breakout: consolidation.breakout,
+    atrPercent: computeAtrPercent(daily),
+    historicalVolatility: computeHistoricalVolatility(daily),
+  };
+}
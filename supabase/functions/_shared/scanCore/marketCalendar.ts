@@ -0,0 +1,364 @@
+/**
+ * Market Calendar
+ *
+ * NYSE trading days and session boundaries in New York time, the one place
+ * the scan decides whether the market is open:
+ * - Full closures: the nine NYSE holidays (Saturday holidays observed the
+ *   Friday before, Sunday holidays the Monday after; New Year's Day on a
+ *   Saturday is not observed) plus unscheduled closures such as national days
+ *   of mourning
+ * - Early closes at 13:00 (after-hours until 17:00): July 3 and Christmas Eve
+ *   when they fall Monday to Thursday, and the day after Thanksgiving
+ * - Sessions: pre-market 04:00–09:30, regular 09:30–16:00, after-hours
+ *   16:00–20:00; weekends and holidays are closed all day
+ *
+ * Providers use it for date windows (last completed trading day, trading-day
+ * lookbacks), the app for the market status and scheduling for the next open
+ * and close. Dates are YYYY-MM-DD calendar dates in New York.
+ */
+
+import type { CalendarQuery } from './providers.ts';
+import type { MarketSession } from './types.ts';
+
+export interface MarketHoliday {
+  date: string;   // YYYY-MM-DD, the observed date
+  name: string;
+}
+
+/**
+ * Session boundaries of one trading day, minutes after midnight New York time
+ */
+export interface SessionTimes {
+  preMarketOpen: number;
+  regularOpen: number;
+  regularClose: number;
+  afterHoursClose: number;
+}
+
+export interface MarketStatus {
+  session: MarketSession;
+  date: string;                   // New York date at the given time
+  holiday: MarketHoliday | null;  // Set when the date is a full closure
+  earlyClose: boolean;            // Regular session ends at 13:00
+  closesAt: number | null;        // Regular close (epoch ms) while the market is open or before the open today
+  nextOpen: number;               // Next regular open (epoch ms), today's when it is still ahead
+}
+
+/**
+ * Boundaries of a full trading day
+ */
+export const SESSION_TIMES: SessionTimes = {
+  preMarketOpen: 4 * 60,
+  regularOpen: 9 * 60 + 30,
+  regularClose: 16 * 60,
+  afterHoursClose: 20 * 60,
+};
+
+/**
+ * Boundaries of an early-close day
+ */
+export const EARLY_CLOSE_SESSION_TIMES: SessionTimes = {
+  preMarketOpen: 4 * 60,
+  regularOpen: 9 * 60 + 30,
+  regularClose: 13 * 60,
+  afterHoursClose: 17 * 60,
+};
+
+/**
+ * Closures outside the holiday rules
+ */
+const SPECIAL_CLOSURES: MarketHoliday[] = [
+  { date: '2012-10-29', name: 'Hurricane Sandy' },
+  { date: '2012-10-30', name: 'Hurricane Sandy' },
+  { date: '2018-12-05', name: 'National Day of Mourning (George H.W. Bush)' },
+  { date: '2025-01-09', name: 'National Day of Mourning (Jimmy Carter)' },
+];
+
+const DAY_MS = 24 * 60 * 60_000;
+
+const NEW_YORK_DATE = new Intl.DateTimeFormat('en-CA', {
+  timeZone: 'America/New_York',
+  year: 'numeric',
+  month: '2-digit',
+  day: '2-digit',
+});
+
+const NEW_YORK_CLOCK = new Intl.DateTimeFormat('en-US', {
+  timeZone: 'America/New_York',
+  year: 'numeric',
+  month: '2-digit',
+  day: '2-digit',
+  weekday: 'short',
+  hour: '2-digit',
+  minute: '2-digit',
+  hourCycle: 'h23',
+});
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/**
+ * Calendar date (YYYY-MM-DD) in New York at the given time
+ */
+export function newYorkDate(now: number = Date.now()): string {
+  return NEW_YORK_DATE.format(new Date(now));
+}
+
+/**
+ * Calendar date (YYYY-MM-DD), weekday (0 = Sunday) and minutes after midnight in New York
+ */
+export function newYorkClock(at: number): { date: string; weekday: number; minutes: number } {
+  const parts: Record<string, string> = {};
+  for (const part of NEW_YORK_CLOCK.formatToParts(new Date(at))) {
+    parts[part.type] = part.value;
+  }
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    weekday: WEEKDAYS.indexOf(parts.weekday),
+    minutes: Number(parts.hour) * 60 + Number(parts.minute),
+  };
+}
+
+/**
+ * Epoch ms of a New York wall-clock time (minutes after midnight) on a YYYY-MM-DD date
+ */
+export function newYorkTime(date: string, minutes: number): number {
+  const wallClock = Date.parse(`${date}T00:00:00Z`) + minutes * 60_000;
+  let at = wallClock;
+  // Two passes settle the UTC offset, including on daylight saving transitions
+  for (let i = 0; i < 2; i++) {
+    const clock = newYorkClock(at);
+    const seen = Date.parse(`${clock.date}T00:00:00Z`) + clock.minutes * 60_000;
+    at += wallClock - seen;
+  }
+  return at;
+}
+
+/**
+ * Shift a YYYY-MM-DD date by whole days
+ */
+export function addCalendarDays(date: string, days: number): string {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+/**
+ * Whole calendar days from today (New York) to a YYYY-MM-DD date; negative when past
+ */
+export function daysUntilDate(date: string, now: number = Date.now()): number {
+  const target = Date.parse(`${date}T00:00:00Z`);
+  const today = Date.parse(`${newYorkDate(now)}T00:00:00Z`);
+  return Math.round((target - today) / DAY_MS);
+}
+
+function isoDate(year: number, month: number, day: number): string {
+  return new Date(Date.UTC(year, month - 1, day)).toISOString().slice(0, 10);
+}
+
+function weekdayOf(date: string): number {
+  return new Date(`${date}T00:00:00Z`).getUTCDay();
+}
+
+/**
+ * The nth given weekday of a month; n = -1 for the last one
+ */
+function nthWeekday(year: number, month: number, weekday: number, n: number): string {
+  if (n > 0) {
+    const first = new Date(Date.UTC(year, month - 1, 1)).getUTCDay();
+    return isoDate(year, month, 1 + ((weekday - first + 7) % 7) + (n - 1) * 7);
+  }
+  const lastDay = new Date(Date.UTC(year, month, 0));
+  const offset = (lastDay.getUTCDay() - weekday + 7) % 7;
+  return isoDate(year, month, lastDay.getUTCDate() - offset);
+}
+
+/**
+ * Saturday holidays move to Friday, Sunday holidays to Monday
+ */
+function observed(date: string): string {
+  const weekday = weekdayOf(date);
+  if (weekday === 6) return addCalendarDays(date, -1);
+  if (weekday === 0) return addCalendarDays(date, 1);
+  return date;
+}
+
+/**
+ * Easter Sunday (Gregorian calendar, anonymous algorithm)
+ */
+function easterSunday(year: number): string {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return isoDate(year, month, day);
+}
+
+const holidaysByYear = new Map<number, MarketHoliday[]>();
+
+/**
+ * Full-day NYSE closures of a year, in date order
+ */
+export function nyseHolidays(year: number): MarketHoliday[] {
+  const cached = holidaysByYear.get(year);
+  if (cached) return cached;
+
+  const holidays: MarketHoliday[] = [];
+  const newYear = isoDate(year, 1, 1);
+  // A Saturday New Year's Day would be observed on Dec 31, which the NYSE keeps open
+  if (weekdayOf(newYear) !== 6) holidays.push({ date: observed(newYear), name: "New Year's Day" });
+  holidays.push({ date: nthWeekday(year, 1, 1, 3), name: 'Martin Luther King Jr. Day' });
+  holidays.push({ date: nthWeekday(year, 2, 1, 3), name: "Washington's Birthday" });
+  holidays.push({ date: addCalendarDays(easterSunday(year), -2), name: 'Good Friday' });
+  holidays.push({ date: nthWeekday(year, 5, 1, -1), name: 'Memorial Day' });
+  if (year >= 2022) holidays.push({ date: observed(isoDate(year, 6, 19)), name: 'Juneteenth' });
+  holidays.push({ date: observed(isoDate(year, 7, 4)), name: 'Independence Day' });
+  holidays.push({ date: nthWeekday(year, 9, 1, 1), name: 'Labor Day' });
+  holidays.push({ date: nthWeekday(year, 11, 4, 4), name: 'Thanksgiving Day' });
+  holidays.push({ date: observed(isoDate(year, 12, 25)), name: 'Christmas Day' });
+  holidays.push(...SPECIAL_CLOSURES.filter(c => c.date.startsWith(`${year}-`)));
+
+  holidays.sort((a, b) => a.date.localeCompare(b.date));
+  holidaysByYear.set(year, holidays);
+  return holidays;
+}
+
+/**
+ * The closure on a date, or null when the date is not a holiday
+ */
+export function getMarketHoliday(date: string): MarketHoliday | null {
+  return nyseHolidays(Number(date.slice(0, 4))).find(h => h.date === date) ?? null;
+}
+
+/**
+ * True on weekdays the NYSE is open
+ */
+export function isTradingDay(date: string): boolean {
+  const weekday = weekdayOf(date);
+  return weekday !== 0 && weekday !== 6 && getMarketHoliday(date) == null;
+}
+
+/**
+ * True on trading days whose regular session ends at 13:00
+ */
+export function isEarlyClose(date: string): boolean {
+  if (!isTradingDay(date)) return false;
+  const year = Number(date.slice(0, 4));
+  const weekday = weekdayOf(date);
+  if (date === isoDate(year, 7, 3) || date === isoDate(year, 12, 24)) return weekday >= 1 && weekday <= 4;
+  return date === addCalendarDays(nthWeekday(year, 11, 4, 4), 1);
+}
+
+/**
+ * Session boundaries of a date; null when the market is closed all day
+ */
+export function getSessionTimes(date: string): SessionTimes | null {
+  if (!isTradingDay(date)) return null;
+  return isEarlyClose(date) ? EARLY_CLOSE_SESSION_TIMES : SESSION_TIMES;
+}
+
+/**
+ * Shift a date by whole trading days; a non-trading date counts from the
+ * trading day it falls between (e.g. -1 from a Saturday is Friday)
+ */
+export function addTradingDays(date: string, days: number): string {
+  const step = days < 0 ? -1 : 1;
+  let current = date;
+  let remaining = Math.abs(days);
+  while (remaining > 0) {
+    current = addCalendarDays(current, step);
+    if (isTradingDay(current)) remaining--;
+  }
+  return current;
+}
+
+/**
+ * Trading day before a date
+ */
+export function previousTradingDay(date: string): string {
+  return addTradingDays(date, -1);
+}
+
+/**
+ * Trading day after a date
+ */
+export function nextTradingDay(date: string): string {
+  return addTradingDays(date, 1);
+}
+
+/**
+ * Latest trading day whose regular session has ended at the given time
+ * Before today's close (and on weekends and holidays) this is the previous
+ * trading day, so daily bars for it are final.
+ */
+export function lastCompletedTradingDay(now: number = Date.now()): string {
+  const { date, minutes } = newYorkClock(now);
+  const times = getSessionTimes(date);
+  return times && minutes >= times.regularClose ? date : previousTradingDay(date);
+}
+
+/**
+ * Date window covering the last `days` completed trading days through today
+ * Used for daily-bar lookbacks so weekends and holidays never shrink the window.
+ */
+export function buildTradingDayQuery(days: number, now: number = Date.now()): CalendarQuery {
+  const last = lastCompletedTradingDay(now);
+  return { from: addTradingDays(last, -(Math.max(days, 1) - 1)), to: newYorkDate(now) };
+}
+
+/**
+ * Epoch range for daily bars covering the last `days` completed trading days
+ * and, while today's pre-market or regular session is under way, today's
+ * partial bar. Otherwise (after the close, overnight, weekends and holidays) it
+ * ends at the last completed day's close, so no empty bar for today is read.
+ * Starts a trading day early, since some vendors stamp daily bars at midnight UTC.
+ */
+export function recentTradingDaysRange(days: number, now: number = Date.now()): { from: number; to: number } {
+  const last = lastCompletedTradingDay(now);
+  const session = getMarketSession(now);
+  const close = getSessionTimes(last)?.regularClose ?? SESSION_TIMES.regularClose;
+  return {
+    from: newYorkTime(addTradingDays(last, -Math.max(days, 1)), 0),
+    to: session === 'pre-market' || session === 'regular' ? now : newYorkTime(last, close),
+  };
+}
+
+/**
+ * Session in progress at the given time
+ */
+export function getMarketSession(at: number = Date.now()): MarketSession {
+  const { date, minutes } = newYorkClock(at);
+  const times = getSessionTimes(date);
+  if (!times) return 'closed';
+  if (minutes < times.preMarketOpen) return 'closed';
+  if (minutes < times.regularOpen) return 'pre-market';
+  if (minutes < times.regularClose) return 'regular';
+  if (minutes < times.afterHoursClose) return 'after-hours';
+  return 'closed';
+}
+
+/**
+ * Session, holiday, early close and the next regular open and close at the given time
+ */
+export function getMarketStatus(now: number = Date.now()): MarketStatus {
+  const { date, minutes } = newYorkClock(now);
+  const times = getSessionTimes(date);
+  const beforeClose = times != null && minutes < times.regularClose;
+
+  const openDate = times != null && minutes < times.regularOpen ? date : nextTradingDay(date);
+  return {
+    session: getMarketSession(now),
+    date,
+    holiday: getMarketHoliday(date),
+    earlyClose: isEarlyClose(date),
+    closesAt: beforeClose ? newYorkTime(date, times.regularClose) : null,
+    nextOpen: newYorkTime(openDate, SESSION_TIMES.regularOpen),
+  };
+}
@@ -0,0 +1,147 @@
+/**
+ * News Clustering
+ *
+ * Finnhub and Benzinga often carry the same story, and a provider can return
+ * one story more than once. Items for a ticker are grouped into clusters by
+ * normalized URL or near-duplicate headline; each cluster keeps every report,
+ * the sources that carried it and when it was first seen.
+ *
+ * The cluster's story is dated by its earliest report, so catalyst freshness
+ * reflects when the news broke rather than when the last outlet picked it up.
+ */
+
+import type { RawNewsItem } from './providers.ts';
+
+export interface NewsCluster {
+  id: string;          // Normalized URL or headline of the earliest report
+  story: RawNewsItem;  // Earliest report, with the fullest summary in the cluster
+  items: RawNewsItem[]; // Every report, earliest first
+  sources: string[];   // Provider ids, in order of first report
+  firstSeen: string;   // ISO string
+  lastSeen: string;    // ISO string
+}
+
+/**
+ * Token overlap (Jaccard) at which two headlines count as the same story
+ */
+export const HEADLINE_SIMILARITY_THRESHOLD = 0.75;
+
+/**
+ * Reports further apart than this are never merged on headline alone
+ * (recurring headlines like "ACME shares are trading higher")
+ */
+export const NEWS_CLUSTER_WINDOW_HOURS = 48;
+
+/**
+ * Display names for the news provider ids found in RawNewsItem.source
+ */
+export const NEWS_SOURCE_LABELS: Record<string, string> = {
+  'finnhub-news': 'Finnhub',
+  'benzinga-news': 'Benzinga',
+  'massive-news': 'Massive',
+};
+
+export function newsSourceLabel(source: string): string {
+  return NEWS_SOURCE_LABELS[source] ?? source;
+}
+
+const TRACKING_PARAMS = /^(utm_|mc_|fbclid$|gclid$|ref$|src$|source$|cmp$)/i;
+
+const HEADLINE_STOPWORDS = new Set(['a', 'an', 'the', 'and', 'or', 'of', 'to', 'in', 'on', 'for', 'at', 'by', 'with', 'as', 'is', 'its', "it's"]);
+
+/**
+ * URL without protocol, "www.", fragment, trailing slash or tracking parameters
+ * Other query parameters are kept: some feeds identify articles by query id.
+ */
+export function normalizeNewsUrl(url: string): string | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url.trim());
+  } catch {
+    return null;
+  }
+  const params = Array.from(parsed.searchParams.entries())
+    .filter(([key]) => !TRACKING_PARAMS.test(key))
+    .sort(([a], [b]) => a.localeCompare(b));
+  const query = params.length > 0 ? `?${new URLSearchParams(params).toString()}` : '';
+  const host = parsed.hostname.toLowerCase().replace(/^www\./, '');
+  const path = parsed.pathname.replace(/\/+$/, '');
+  return `${host}${path}${query}`;
+}
+
+/**
+ * Headline tokens, without a trailing " - Outlet" / " | Outlet" attribution and stopwords
+ */
+function headlineTokens(headline: string): Set<string> {
+  const stripped = headline.replace(/\s+[-|–—]\s+[^-|–—]{1,40}$/, '');
+  const tokens = stripped.toLowerCase().split(/[^a-z0-9$%.]+/).map(t => t.replace(/\.+$/, ''));
+  return new Set(tokens.filter(t => t !== '' && !HEADLINE_STOPWORDS.has(t)));
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  for (const token of a) {
+    if (b.has(token)) shared += 1;
+  }
+  return shared / (a.size + b.size - shared);
+}
+
+interface ClusterDraft {
+  items: RawNewsItem[];
+  urls: Set<string>;
+  headlines: Set<string>[];
+  lastMs: number;
+}
+
+/**
+ * Group one ticker's news into stories
+ *
+ * @param news - Items for a single ticker, from any number of providers
+ * @returns Clusters, most recently first seen first
+ */
+export function clusterNews(news: RawNewsItem[]): NewsCluster[] {
+  const windowMs = NEWS_CLUSTER_WINDOW_HOURS * 3_600_000;
+  const timeOf = (item: RawNewsItem) => {
+    const ms = new Date(item.datetime).getTime();
+    return Number.isFinite(ms) ? ms : 0;
+  };
+  const ordered = [...news].sort((a, b) => timeOf(a) - timeOf(b));
+  const drafts: ClusterDraft[] = [];
+
+  for (const item of ordered) {
+    const url = normalizeNewsUrl(item.url);
+    const tokens = headlineTokens(item.headline);
+    const at = timeOf(item);
+
+    const match = drafts.find(draft =>
+      (url != null && draft.urls.has(url)) ||
+      (Math.abs(at - draft.lastMs) <= windowMs &&
+        draft.headlines.some(h => jaccard(h, tokens) >= HEADLINE_SIMILARITY_THRESHOLD)),
+    );
+
+    if (match) {
+      match.items.push(item);
+      if (url != null) match.urls.add(url);
+      match.headlines.push(tokens);
+      match.lastMs = Math.max(match.lastMs, at);
+    } else {
+      drafts.push({ items: [item], urls: new Set(url != null ? [url] : []), headlines: [tokens], lastMs: at });
+    }
+  }
+
+  return drafts
+    .map(draft => {
+      const [earliest] = draft.items;
+      const summary = draft.items.reduce((best, i) => (i.summary.length > best.length ? i.summary : best), earliest.summary);
+      return {
+        id: normalizeNewsUrl(earliest.url) ?? Array.from(draft.headlines[0]).join(' '),
+        story: { ...earliest, summary },
+        items: draft.items,
+        sources: Array.from(new Set(draft.items.map(i => i.source))),
+        firstSeen: earliest.datetime,
+        lastSeen: draft.items.reduce((last, i) => (timeOf(i) > timeOf(last) ? i : last), earliest).datetime,
+      };
+    })
+    .sort((a, b) => timeOf(b.story) - timeOf(a.story));
+}
@@ -0,0 +1,194 @@
+/**
+ * Staged Scan Pipeline
+ *
+ * Live scans run in two stages:
+ * 1. Snapshot: price, change and volume for the whole (pre-filtered) universe,
+ *    using the cheapest bulk quote sources available.
+ * 2. Enrichment: fundamentals, news, candles and indicators for the top N names
+ *    by a pre-score computed from the snapshot alone.
+ *
+ * The pre-score weights and N are configurable per request (ScanRequest.preScreen).
+ * The default N keeps stage 2 of a Finnhub-only scan (five calls per name on top
+ * of the 40 stage-1 quotes) within the 55/min limit before the scan deadline;
+ * estimateEnrichmentCalls lets the caller check a larger N against the budget.
+ * In extended-hours scans the change only counts towards the pre-score when the
+ * quote is from the current trading day: before the open a quote that has not
+ * rolled over still shows yesterday's regular-session move, which says nothing
+ * about who is gapping, so those names rank on volume alone.
+ */
+
+import { reportsWithin } from './earnings.ts';
+import type { DataProviderBase } from './providers.ts';
+import type { RawQuote } from './quotes.ts';
+import { computeChangePercent } from './quotes.ts';
+import type { DroppedTicker } from './response.ts';
+import { isCurrentSessionQuote } from './session.ts';
+import type { PreScoreWeights, PreScreenSettings, ScanFilters, ScanMode, UpcomingEarnings } from './types.ts';
+import type { TickerMeta } from './universe.ts';
+
+export const DEFAULT_PRESCREEN: PreScreenSettings = {
+  topN: 12,
+  weights: {
+    change: 0.6,
+    volume: 0.2,
+    relativeVolume: 0.2,
+  },
+};
+
+const MAX_PRESCREEN_TOP_N = 200;
+
+/**
+ * Stage-1 view of one ticker
+ */
+export interface PreScreenCandidate {
+  ticker: string;
+  changePercent: number;
+  volume: number | null;
+  relativeVolume: number | null; // Versus TickerMeta.lastVolume, when known
+  preScore: number;              // 0-100
+}
+
+/**
+ * Fill missing or invalid pre-screen settings with defaults
+ */
+export function normalizePreScreen(settings?: Partial<PreScreenSettings> | null, defaultTopN = DEFAULT_PRESCREEN.topN): PreScreenSettings {
+  const weights = { ...DEFAULT_PRESCREEN.weights };
+  for (const key of Object.keys(weights) as (keyof PreScoreWeights)[]) {
+    const w = settings?.weights?.[key];
+    if (typeof w === 'number' && Number.isFinite(w) && w >= 0) weights[key] = w;
+  }
+  const total = weights.change + weights.volume + weights.relativeVolume;
+
+  const topN = typeof settings?.topN === 'number' && settings.topN > 0
+    ? Math.min(Math.floor(settings.topN), MAX_PRESCREEN_TOP_N)
+    : defaultTopN;
+
+  return {
+    topN,
+    weights: total > 0 ? weights : { ...DEFAULT_PRESCREEN.weights },
+  };
+}
+
+/**
+ * Cheap 0-100 score from snapshot data only
+ * Each component saturates: a 20% move, 50M shares, or 5x the last known volume score 100.
+ */
+export function computePreScore(
+  input: { changePercent: number; volume: number | null; relativeVolume: number | null },
+  weights: PreScoreWeights = DEFAULT_PRESCREEN.weights,
+): number {
+  const change = Math.min(100, (Math.abs(input.changePercent) / 20) * 100);
+  const volume = input.volume && input.volume > 0
+    ? Math.min(100, Math.max(0, (Math.log10(input.volume) - 4) / (Math.log10(50_000_000) - 4) * 100))
+    : 0;
+  const relativeVolume = input.relativeVolume != null ? Math.min(100, (input.relativeVolume / 5) * 100) : 0;
+
+  const total = weights.change + weights.volume + weights.relativeVolume;
+  if (total <= 0) return 0;
+  return (change * weights.change + volume * weights.volume + relativeVolume * weights.relativeVolume) / total;
+}
+
+/**
+ * Snapshot-level filters: only the checks that need nothing beyond price,
+ * volume and the earnings calendar
+ */
+function passesSnapshotFilters(quote: RawQuote, filters: ScanFilters, earnings: UpcomingEarnings | undefined): boolean {
+  if (quote.price == null) return false;
+  if (filters.minPrice != null && quote.price < filters.minPrice) return false;
+  if (filters.maxPrice != null && quote.price > filters.maxPrice) return false;
+  if (filters.minVolume != null && quote.volume != null && quote.volume < filters.minVolume) return false;
+  if (filters.earningsWithinDays != null && !reportsWithin(earnings, filters.earningsWithinDays)) return false;
+  return true;
+}
+
+export interface PreScreenOutcome {
+  candidates: PreScreenCandidate[]; // Descending pre-score, at most settings.topN
+  snapshotCount: number;            // Tickers with a usable price and change
+  dropped: DroppedTicker[];         // Tickers not kept for enrichment, with the reason
+}
+
+/**
+ * Stage 1: score every quoted ticker and keep the top N for enrichment
+ *
+ * @param quotes - Merged quotes by ticker
+ * @param universe - Universe metadata (for last known volume)
+ * @param filters - Normalized scan filters
+ * @param settings - Normalized pre-screen settings
+ * @param earnings - Upcoming earnings by ticker (see selectUpcomingEarnings)
+ * @param mode - Scan mode; 'extended-hours' scores only current-session moves
+ * @param now - Scan time
+ */
+export function preScreenCandidates(
+  quotes: Map<string, RawQuote>,
+  universe: TickerMeta[],
+  filters: ScanFilters,
+  settings: PreScreenSettings,
+  earnings: Map<string, UpcomingEarnings> = new Map(),
+  mode: ScanMode = 'unified',
+  now: number = Date.now(),
+): PreScreenOutcome {
+  const candidates: PreScreenCandidate[] = [];
+  const dropped: DroppedTicker[] = [];
+  let snapshotCount = 0;
+
+  for (const meta of universe) {
+    const quote = quotes.get(meta.symbol);
+    if (!quote) {
+      dropped.push({ ticker: meta.symbol, reason: 'no_quote' });
+      continue;
+    }
+
+    const changePercent = computeChangePercent(quote);
+    if (changePercent == null) {
+      dropped.push({ ticker: meta.symbol, reason: 'no_change' });
+      continue;
+    }
+    snapshotCount += 1;
+
+    if (!passesSnapshotFilters(quote, filters, earnings.get(meta.symbol))) {
+      dropped.push({ ticker: meta.symbol, reason: 'snapshot_filter' });
+      continue;
+    }
+
+    const relativeVolume = quote.volume != null && meta.lastVolume ? quote.volume / meta.lastVolume : null;
+    const scoredChange = mode === 'extended-hours' && !isCurrentSessionQuote(quote, now) ? 0 : changePercent;
+    candidates.push({
+      ticker: meta.symbol,
+      changePercent,
+      volume: quote.volume,
+      relativeVolume,
+      preScore: computePreScore({ changePercent: scoredChange, volume: quote.volume, relativeVolume }, settings.weights),
+    });
+  }
+
+  candidates.sort((a, b) => b.preScore - a.preScore);
+  for (const cut of candidates.slice(settings.topN)) {
+    dropped.push({ ticker: cut.ticker, reason: 'below_top_n' });
+  }
+
+  return {
+    candidates: candidates.slice(0, settings.topN),
+    snapshotCount,
+    dropped,
+  };
+}
+
+/**
+ * Upstream calls stage 2 makes per rate-limit bucket, at least: each per-ticker
+ * provider calls once per candidate and run (candles run twice, daily and intraday).
+ * Providers without a bucket make no rate-limited calls; cache hits make the
+ * real number lower.
+ */
+export function estimateEnrichmentCalls(
+  stages: { providers: DataProviderBase[]; runs?: number }[],
+  candidateCount: number,
+): Map<string, number> {
+  const calls = new Map<string, number>();
+  for (const { providers, runs = 1 } of stages) {
+    for (const { rateLimitBucket } of providers) {
+      if (!rateLimitBucket) continue;
+      calls.set(rateLimitBucket, (calls.get(rateLimitBucket) ?? 0) + candidateCount * runs);
+    }
+  }
+  return calls;
+}
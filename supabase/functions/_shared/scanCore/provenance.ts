@@ -0,0 +1,147 @@
+/**
+ * Field Provenance
+ *
+ * Records where the headline values of a ScanResult came from: the source that
+ * supplied price, volume, market cap, float and sector, how old each value was
+ * at scan time, and whether it was estimated because no source reported it.
+ *
+ * The fallbacks used for missing values live here too, so every estimate is
+ * flagged with a note describing how it was derived.
+ */
+
+import type { FundamentalSnapshot } from './providers.ts';
+import type { RawQuote } from './quotes.ts';
+import { canonicalSector } from './sectors.ts';
+import type { FieldProvenance, ProvenanceField, ScanResultProvenance } from './types.ts';
+import type { TickerMeta } from './universe.ts';
+
+/**
+ * Age after which a value is flagged as stale
+ */
+export const PROVENANCE_STALE_AFTER_MS: Record<ProvenanceField, number> = {
+  price: 20 * 60_000,
+  volume: 20 * 60_000,
+  marketCap: 7 * 24 * 60 * 60_000,
+  float: 7 * 24 * 60 * 60_000,
+  sector: Infinity,
+};
+
+export const ESTIMATED_MARKET_CAP = 1_000_000_000;
+export const ESTIMATED_FLOAT_RATIO = 0.01; // Float assumed to be 1% of market cap
+
+/**
+ * Normalize a source timestamp to Unix ms (some sources report seconds)
+ */
+function toEpochMs(timestamp: number): number {
+  return timestamp < 1e12 ? timestamp * 1000 : timestamp;
+}
+
+/**
+ * Provenance for a value reported by a source
+ */
+export function observedField(
+  field: ProvenanceField,
+  source: string,
+  timestamp: number | null | undefined,
+  now: number = Date.now(),
+): FieldProvenance {
+  if (timestamp == null || !Number.isFinite(timestamp) || timestamp <= 0) {
+    return { source, asOf: null, ageMs: null, estimated: false, stale: false };
+  }
+  const asOfMs = toEpochMs(timestamp);
+  const ageMs = Math.max(0, now - asOfMs);
+  return {
+    source,
+    asOf: new Date(asOfMs).toISOString(),
+    ageMs,
+    estimated: false,
+    stale: ageMs > PROVENANCE_STALE_AFTER_MS[field],
+  };
+}
+
+/**
+ * Provenance for a value filled in by a fallback
+ */
+export function estimatedField(note: string, source = 'default'): FieldProvenance {
+  return { source, asOf: null, ageMs: null, estimated: true, stale: false, note };
+}
+
+export interface ResolvedResultFields {
+  volume: number;
+  marketCap: number;
+  float: number;
+  sector: string;
+  industry?: string;
+  provenance: ScanResultProvenance;
+}
+
+/**
+ * Pick volume, market cap, float and sector for a result, filling gaps with
+ * estimates, and record the provenance of each (plus price)
+ *
+ * @param quote - Merged quote (see mergeRawQuotes)
+ * @param fundamentals - Merged fundamentals (see mergeFundamentals), if any
+ * @param meta - Universe metadata for the ticker
+ */
+export function resolveResultFields(
+  quote: RawQuote,
+  fundamentals: FundamentalSnapshot | undefined,
+  meta: TickerMeta,
+  now: number = Date.now(),
+): ResolvedResultFields {
+  const provenance: ScanResultProvenance = {
+    price: observedField('price', quote.source, quote.timestamp, now),
+  };
+
+  if (quote.volume != null) {
+    const origin = quote.volumeOrigin ?? quote;
+    provenance.volume = observedField('volume', origin.source, origin.timestamp, now);
+  } else {
+    provenance.volume = estimatedField('No volume reported; shown as 0');
+  }
+
+  const origins = fundamentals?.origins ?? {};
+
+  let marketCap = fundamentals?.marketCap ?? null;
+  if (marketCap != null) {
+    provenance.marketCap = observedField('marketCap', origins.marketCap?.source ?? 'unknown', origins.marketCap?.fetchedAt, now);
+  } else {
+    marketCap = ESTIMATED_MARKET_CAP;
+    provenance.marketCap = estimatedField('No market cap reported; assumed $1B');
+  }
+
+  let float = fundamentals?.float ?? null;
+  if (float != null) {
+    provenance.float = observedField('float', origins.float?.source ?? 'unknown', origins.float?.fetchedAt, now);
+  } else if (fundamentals?.sharesOutstanding != null && fundamentals.sharesOutstanding > 0) {
+    float = fundamentals.sharesOutstanding;
+    provenance.float = estimatedField('No free float reported; shares outstanding used', fundamentals.source ?? 'default');
+  } else {
+    float = marketCap * ESTIMATED_FLOAT_RATIO;
+    provenance.float = estimatedField(
+      provenance.marketCap.estimated
+        ? 'No float reported; 1% of the assumed market cap'
+        : 'No float reported; 1% of market cap',
+    );
+  }
+
+  let sector = fundamentals?.sector ?? null;
+  if (sector != null) {
+    provenance.sector = observedField('sector', origins.sector?.source ?? 'unknown', origins.sector?.fetchedAt, now);
+  } else if (meta.sector) {
+    sector = canonicalSector(meta.sector);
+    provenance.sector = { source: 'universe', asOf: null, ageMs: null, estimated: false, stale: false };
+  } else {
+    sector = 'Unknown';
+    provenance.sector = estimatedField('No sector reported');
+  }
+
+  return {
+    volume: quote.volume ?? 0,
+    marketCap,
+    float,
+    sector,
+    industry: fundamentals?.industry ?? undefined,
+    provenance,
+  };
+}
@@ -0,0 +1,366 @@
+/**
+ * Multi-Provider Architecture for Detonation Scanner
+ * 
+ * This module defines provider interfaces for price, candle, news, fundamentals, earnings calendar,
+ * biotech event calendar, SEC filings and symbol list data.
+ * Each provider can be implemented by different data sources (Finnhub, Massive, IEX, AlphaVantage, etc.)
+ * and registered in the live-scan endpoint for automatic aggregation.
+ * 
+ * Other future implementations:
+ * - Price: MassivePriceProvider [✓ implemented], IEXPriceProvider, AlphaVantagePriceProvider
+ * - Candles: FinnhubCandleProvider [✓ implemented], MassiveCandleProvider [✓ implemented]
+ * - News: BenzingaNewsProvider [✓ implemented], MassiveNewsProvider
+ * - Fundamentals: MassiveFundamentalsProvider, AlphaVantageFundamentalsProvider
+ * - Earnings: FinnhubEarningsProvider [✓ implemented]
+ * - Biotech events: LocalBiotechEventProvider (JSON/CSV file) [✓ implemented]
+ * - Filings: SecEdgarFilingsProvider [✓ implemented], FinnhubInsiderProvider [✓ implemented], FixtureFilingsProvider [✓ implemented]
+ * - Symbols: FinnhubSymbolProvider [✓ implemented], CsvSymbolProvider [✓ implemented], MassiveGroupedDailyProvider [✓ implemented]
+ * 
+ * All can plug into the same interface and be registered with the ProviderRegistry
+ * (see registry.ts) used by the live-scan endpoint.
+ */
+
+import type { RawQuote } from './quotes.ts';
+import type { BiotechEventType, EarningsTime } from './types.ts';
+import { normalizeSector } from './sectors.ts';
+import type { ScanRequest } from './types.ts';
+import type { TickerMeta } from './universe.ts';
+
+/**
+ * News Item from any provider
+ */
+export interface RawNewsItem {
+  source: string; // 'finnhub-news', 'massive-news', 'benzinga-news', etc.
+  ticker: string;
+  headline: string;
+  summary: string;
+  url: string;
+  datetime: string; // ISO string
+  category?: string;
+}
+
+/**
+ * Fundamental data snapshot for a ticker
+ */
+export interface FundamentalSnapshot {
+  ticker: string;
+  marketCap: number | null;
+  float: number | null; // Free float in shares (not shares outstanding)
+  sector: string | null;             // As reported; canonical after mergeFundamentals
+  industry?: string | null;          // Canonical industry, set by mergeFundamentals
+  sharesOutstanding?: number | null;
+  shortInterest?: number | null;    // Shares
+  daysToCover?: number | null;
+  borrowFeePercent?: number | null; // Annualized
+  // Company profile
+  companyName?: string | null;
+  exchange?: string | null;
+  logoUrl?: string | null;
+  website?: string | null;
+  ipoDate?: string | null; // YYYY-MM-DD
+  // Add more as needed: pe, beta, etc.
+  source?: string;     // Provider id
+  fetchedAt?: number;  // Unix ms
+  origins?: Partial<Record<FundamentalField, { source: string; fetchedAt: number | null }>>; // Set by mergeFundamentals
+}
+
+export type FundamentalField = 'marketCap' | 'float' | 'sector';
+
+/**
+ * One scheduled earnings report from any provider
+ */
+export interface EarningsEvent {
+  source: string; // 'finnhub-earnings', etc.
+  ticker: string;
+  date: string;   // YYYY-MM-DD
+  time: EarningsTime | null;
+  epsEstimate: number | null;
+  revenueEstimate: number | null;
+  fiscalQuarter?: number;
+  fiscalYear?: number;
+}
+
+/**
+ * One scheduled biotech event (see biotech.ts for the file formats)
+ */
+export interface BiotechEvent {
+  source: string; // 'local-biotech-events', etc.
+  ticker: string;
+  type: BiotechEventType;
+  date: string;   // YYYY-MM-DD
+  drug?: string;
+  indication?: string;
+  phase?: string;
+}
+
+/**
+ * One SEC filing from any provider (see filings.ts for how it is classified)
+ */
+export interface RawFiling {
+  source: string;   // 'sec-edgar', 'finnhub-insider', etc.
+  ticker: string;
+  formType: string; // As filed: '8-K', 'S-3', '424B5', '4', ...
+  filedAt: string;  // ISO string or YYYY-MM-DD
+  url?: string;
+  items?: string[]; // 8-K item numbers, e.g. ['2.02', '9.01']
+  description?: string;
+  insider?: {       // Form 4 transaction details, when the provider has them
+    name?: string;
+    transactionCode?: string; // 'P' open-market purchase, 'S' open-market sale, ...
+    shares?: number;
+    pricePerShare?: number;
+  };
+}
+
+/**
+ * Calendar window for earnings, biotech event and filings queries, inclusive
+ */
+export interface CalendarQuery {
+  from: string; // YYYY-MM-DD
+  to: string;   // YYYY-MM-DD
+}
+
+/**
+ * Bar resolution, using Finnhub's notation: minutes ('1'...'60'), day, week, month
+ */
+export type CandleResolution = '1' | '5' | '15' | '30' | '60' | 'D' | 'W' | 'M';
+
+/**
+ * Normalized OHLCV bar
+ */
+export interface Candle {
+  timestamp: number; // Unix ms, start of the bar
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+/**
+ * Candle history for one ticker from one provider, ordered oldest first
+ */
+export interface CandleSeries {
+  source: string; // 'finnhub', 'massive', etc.
+  ticker: string;
+  resolution: CandleResolution;
+  candles: Candle[];
+}
+
+export interface CandleQuery {
+  resolution: CandleResolution;
+  from: number; // Unix ms
+  to: number; // Unix ms
+}
+
+/**
+ * Fields shared by every provider
+ * - id: stable key used for configuration (e.g. 'finnhub', 'benzinga')
+ * - name: human-readable label for logs and status displays
+ * - rateLimitBucket: RequestScheduler bucket its upstream calls go through; time
+ *   queued there extends the provider's registry timeout
+ * - isConfigured: optional check for API keys/endpoints; unconfigured providers are skipped
+ */
+export interface DataProviderBase {
+  id: string;
+  name: string;
+  rateLimitBucket?: string;
+  isConfigured?(): boolean;
+}
+
+/**
+ * Price Data Provider Interface
+ * 
+ * Fetches real-time or delayed price quotes for a set of tickers.
+ * Implementations: FinnhubPriceProvider, MassivePriceProvider, IEXPriceProvider, etc.
+ */
+export interface PriceDataProvider extends DataProviderBase {
+  fetchQuotes(tickers: string[], request: ScanRequest): Promise<RawQuote[]>;
+}
+
+/**
+ * Candle Data Provider Interface
+ * 
+ * Fetches historical OHLCV bars at a given resolution for a set of tickers.
+ * Implementations: FinnhubCandleProvider, MassiveCandleProvider, etc.
+ */
+export interface CandleDataProvider extends DataProviderBase {
+  fetchCandles(tickers: string[], query: CandleQuery, request: ScanRequest): Promise<CandleSeries[]>;
+}
+
+/**
+ * News Data Provider Interface
+ * 
+ * Fetches recent news/catalysts for a set of tickers.
+ * Implementations: FinnhubNewsProvider, MassiveNewsProvider, BenzingaNewsProvider, etc.
+ */
+export interface NewsDataProvider extends DataProviderBase {
+  fetchNews(tickers: string[], request: ScanRequest): Promise<RawNewsItem[]>;
+}
+
+/**
+ * Fundamentals Data Provider Interface
+ * 
+ * Fetches fundamental data (market cap, float, sector, etc.) for a set of tickers.
+ * Implementations: FinnhubFundamentalsProvider, MassiveFundamentalsProvider, AlphaVantageFundamentalsProvider, etc.
+ */
+export interface FundamentalsDataProvider extends DataProviderBase {
+  fetchFundamentals(tickers: string[], request: ScanRequest): Promise<FundamentalSnapshot[]>;
+}
+
+/**
+ * Earnings Calendar Provider Interface
+ * 
+ * Fetches scheduled earnings reports within a date window for a set of tickers.
+ * Implementations: FinnhubEarningsProvider, etc.
+ */
+export interface EarningsCalendarProvider extends DataProviderBase {
+  fetchEarnings(tickers: string[], query: CalendarQuery, request: ScanRequest): Promise<EarningsEvent[]>;
+}
+
+/**
+ * Biotech Event Provider Interface
+ * 
+ * Fetches scheduled PDUFA dates, advisory committee meetings and trial readouts within a date window.
+ * Implementations: LocalBiotechEventProvider, etc.
+ */
+export interface BiotechEventProvider extends DataProviderBase {
+  fetchBiotechEvents(tickers: string[], query: CalendarQuery, request: ScanRequest): Promise<BiotechEvent[]>;
+}
+
+/**
+ * Filings Data Provider Interface
+ * 
+ * Fetches SEC filings (offerings, shelf registrations, Form 4, 8-K) filed within a date window.
+ * Implementations: SecEdgarFilingsProvider, FinnhubInsiderProvider, createFixtureFilingsProvider, etc.
+ */
+export interface FilingsDataProvider extends DataProviderBase {
+  fetchFilings(tickers: string[], query: CalendarQuery, request: ScanRequest): Promise<RawFiling[]>;
+}
+
+/**
+ * Symbol List Provider Interface
+ * 
+ * Supplies candidate tickers for the scan universe with whatever metadata is cheap
+ * to get in bulk (name, exchange, sector, last price, last volume).
+ * Implementations: FinnhubSymbolProvider, CsvSymbolProvider, MassiveGroupedDailyProvider, etc.
+ */
+export interface SymbolListProvider extends DataProviderBase {
+  fetchSymbols(): Promise<TickerMeta[]>;
+}
+
+/**
+ * Merge multiple FundamentalSnapshots for the same ticker
+ * Strategy: prefer non-null values, use most recently fetched data.
+ * Sectors are mapped onto the canonical taxonomy (see sectors.ts); a sector no
+ * mapping recognizes is treated as missing. The snapshot that supplied each
+ * field is recorded in `origins`.
+ */
+export function mergeFundamentals(snapshots: FundamentalSnapshot[]): FundamentalSnapshot | null {
+  if (!snapshots || snapshots.length === 0) return null;
+
+  const merged: FundamentalSnapshot = { ...snapshots[0], marketCap: null, float: null, sector: null, industry: null };
+  const origins: NonNullable<FundamentalSnapshot['origins']> = {};
+  const originOf = (snap: FundamentalSnapshot) => ({ source: snap.source ?? 'unknown', fetchedAt: snap.fetchedAt ?? null });
+
+  for (const snap of snapshots) {
+    if (snap.marketCap != null && merged.marketCap == null) {
+      merged.marketCap = snap.marketCap;
+      origins.marketCap = originOf(snap);
+    }
+    if (snap.float != null && merged.float == null) {
+      merged.float = snap.float;
+      origins.float = originOf(snap);
+    }
+    const mapped = merged.sector == null ? normalizeSector(snap.sector, snap.source) : null;
+    if (mapped) {
+      merged.sector = mapped.sector;
+      merged.industry = mapped.industry;
+      origins.sector = originOf(snap);
+    }
+    merged.sharesOutstanding ??= snap.sharesOutstanding;
+    merged.shortInterest ??= snap.shortInterest;
+    merged.daysToCover ??= snap.daysToCover;
+    merged.borrowFeePercent ??= snap.borrowFeePercent;
+    merged.companyName ??= snap.companyName;
+    merged.exchange ??= snap.exchange;
+    merged.logoUrl ??= snap.logoUrl;
+    merged.website ??= snap.website;
+    merged.ipoDate ??= snap.ipoDate;
+  }
+
+  merged.origins = origins;
+  return merged;
+}
+
+/**
+ * Length of one bar in milliseconds (months approximated as 30 days)
+ */
+export function candleResolutionToMs(resolution: CandleResolution): number {
+  switch (resolution) {
+    case 'D':
+      return 24 * 60 * 60 * 1000;
+    case 'W':
+      return 7 * 24 * 60 * 60 * 1000;
+    case 'M':
+      return 30 * 24 * 60 * 60 * 1000;
+    default:
+      return Number(resolution) * 60 * 1000;
+  }
+}
+
+/**
+ * Build a query that covers roughly `bars` bars ending at `to`
+ * Daily and longer windows are padded for weekends and holidays.
+ */
+export function buildCandleQuery(resolution: CandleResolution, bars: number, to: number = Date.now()): CandleQuery {
+  const padding = resolution === 'D' ? 1.6 : 1.2;
+  return {
+    resolution,
+    from: to - Math.ceil(bars * padding) * candleResolutionToMs(resolution),
+    to,
+  };
+}
+
+/**
+ * Sort bars oldest first, drop malformed bars and duplicate timestamps
+ */
+export function normalizeCandles(candles: Candle[]): Candle[] {
+  const byTimestamp = new Map<number, Candle>();
+  for (const c of candles) {
+    const valid = [c.timestamp, c.open, c.high, c.low, c.close].every(v => typeof v === 'number' && Number.isFinite(v));
+    if (valid && c.close > 0) {
+      byTimestamp.set(c.timestamp, { ...c, volume: Number.isFinite(c.volume) ? c.volume : 0 });
+    }
+  }
+  return [...byTimestamp.values()].sort((a, b) => a.timestamp - b.timestamp);
+}
+
+/**
+ * Pick one series per ticker from several providers
+ * Strategy: the longest history wins; ties keep the earlier (higher priority) series
+ */
+export function mergeCandleSeries(series: CandleSeries[]): CandleSeries | null {
+  if (!series || series.length === 0) return null;
+
+  let best = series[0];
+  for (const s of series.slice(1)) {
+    if (s.candles.length > best.candles.length) best = s;
+  }
+  return best;
+}
+
+/**
+ * Group items by their ticker field
+ * Used to bucket provider output before merging.
+ */
+export function groupByTicker<T extends { ticker: string }>(items: T[]): Map<string, T[]> {
+  const grouped = new Map<string, T[]>();
+  for (const item of items) {
+    if (!grouped.has(item.ticker)) {
+      grouped.set(item.ticker, []);
+    }
+    grouped.get(item.ticker)!.push(item);
+  }
+  return grouped;
+}
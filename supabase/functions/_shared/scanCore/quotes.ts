@@ -0,0 +1,99 @@
+/**
+ * Shared Quote Types for Multi-Source Live Data
+ * 
+ * These types normalize data from different market APIs (Finnhub, Polygon, IEX, etc.)
+ * into a common format that can be merged and scored.
+ */
+
+import type { CandleSeries } from './providers.ts';
+
+// TODO: Add more sources as they are integrated (alpaca, etc.)
+export type QuoteSource = 'finnhub' | 'massive' | 'iex' | 'alphavantage' | 'mock';
+
+/**
+ * Normalized quote data from any market data source
+ * 
+ * All sources should map their API responses into this shape
+ * so that we can merge and compare quotes from multiple providers.
+ */
+export interface RawQuote {
+  source: QuoteSource;
+  ticker: string;
+  price: number | null;
+  prevClose: number | null;
+  open?: number | null;     // Regular-session open of the latest trading day, when the source reports it
+  volume: number | null;
+  timestamp: number | null; // Unix seconds or ms, depending on source
+  volumeOrigin?: { source: string; timestamp: number | null }; // Donor quote source (mergeRawQuotes) or candle provider id (backfillQuoteVolume)
+}
+
+/**
+ * Merge multiple RawQuote values for a single ticker
+ * 
+ * Strategy:
+ * - Prefer quotes with complete data (price + prevClose)
+ * - Use the most recent timestamp
+ * - Fill in missing volume from other sources if available (zero volumes are ignored),
+ *   recording the donor in volumeOrigin
+ * 
+ * @param quotes Array of RawQuote from different sources for the same ticker
+ * @returns Single merged RawQuote or null if no valid quotes
+ */
+export function mergeRawQuotes(quotes: RawQuote[]): RawQuote | null {
+  if (!quotes || quotes.length === 0) return null;
+
+  // Filter to quotes with at least price and prevClose
+  const valid = quotes.filter(q => q && q.price != null && q.prevClose != null);
+
+  // If no valid quotes, return the first quote anyway (may be partial)
+  if (!valid.length) return quotes[0] ?? null;
+
+  // Sort by timestamp (most recent first)
+  const sorted = [...valid].sort((a, b) => {
+    const ta = a.timestamp ?? 0;
+    const tb = b.timestamp ?? 0;
+    return tb - ta;
+  });
+
+  // Start with the most recent complete quote
+  const primary = sorted[0];
+
+  if (primary.volume != null) return primary;
+
+  // Prefer volume from other valid quotes first, then (as a last resort)
+  // any partial quote with a non-null volume
+  const donor = sorted.find(q => q.volume != null && q.volume > 0)
+    ?? quotes.find(q => q && q.volume != null && q.volume > 0);
+  if (!donor) return primary;
+
+  return {
+    ...primary,
+    volume: donor.volume,
+    volumeOrigin: { source: donor.source, timestamp: donor.timestamp },
+  };
+}
+
+/**
+ * Percent change of a merged quote versus its previous close
+ * Returns null when the quote cannot produce a meaningful change.
+ */
+export function computeChangePercent(quote: RawQuote): number | null {
+  if (quote.price == null || quote.prevClose == null || quote.prevClose === 0) return null;
+  return ((quote.price - quote.prevClose) / quote.prevClose) * 100;
+}
+
+/**
+ * Fill a missing quote volume from the latest daily bar with volume at or after
+ * `since` (today's partial bar while the session is under way), recording the
+ * candle source in volumeOrigin. Quotes that report a volume are returned as is.
+ */
+export function backfillQuoteVolume(quote: RawQuote, daily: CandleSeries | null, since: number): RawQuote {
+  if (quote.volume != null || !daily) return quote;
+  for (let i = daily.candles.length - 1; i >= 0 && daily.candles[i].timestamp >= since; i--) {
+    const bar = daily.candles[i];
+    if (bar.volume > 0) {
+      return { ...quote, volume: bar.volume, volumeOrigin: { source: daily.source, timestamp: bar.timestamp } };
+    }
+  }
+  return quote;
+}
@@ -0,0 +1,318 @@
+/**
+ * Provider Registry
+ *
+ * Holds every price, candle, news, fundamentals, earnings, biotech event, filings and symbol list provider together with its settings
+ * (enabled, priority, timeout) and its health. Providers that keep failing are
+ * skipped for a cooldown period (circuit breaker) and then retried once.
+ *
+ * Settings come from the defaults passed to register() and can be overridden
+ * through environment variables:
+ * - SCAN_PRICE_PROVIDERS / SCAN_CANDLES_PROVIDERS / SCAN_NEWS_PROVIDERS / SCAN_FUNDAMENTALS_PROVIDERS /
+ *   SCAN_EARNINGS_PROVIDERS / SCAN_BIOTECH_PROVIDERS / SCAN_FILINGS_PROVIDERS / SCAN_SYMBOLS_PROVIDERS:
+ *   comma-separated provider ids; only listed providers run, in list order
+ * - SCAN_PROVIDER_<ID>_ENABLED, SCAN_PROVIDER_<ID>_PRIORITY, SCAN_PROVIDER_<ID>_TIMEOUT_MS
+ * - SCAN_CIRCUIT_FAILURE_THRESHOLD, SCAN_CIRCUIT_COOLDOWN_MS, SCAN_PROVIDER_TIMEOUT_MS
+ *
+ * A provider that names its rateLimitBucket gets its timeout extended by the
+ * time that bucket spent with calls queued in the RequestScheduler (queuedTime
+ * option), so rate limiting does not count against it but a hung upstream call
+ * still fails after timeoutMs.
+ *
+ * Adding a provider (IEX, AlphaVantage, ...) only means implementing its
+ * interface and calling register().
+ */
+
+import type {
+  BiotechEventProvider,
+  CandleDataProvider,
+  EarningsCalendarProvider,
+  FilingsDataProvider,
+  FundamentalsDataProvider,
+  NewsDataProvider,
+  PriceDataProvider,
+  SymbolListProvider,
+} from './providers.ts';
+
+export type ProviderKind = 'price' | 'candles' | 'news' | 'fundamentals' | 'earnings' | 'biotech' | 'filings' | 'symbols';
+
+export interface ProviderByKind {
+  price: PriceDataProvider;
+  candles: CandleDataProvider;
+  news: NewsDataProvider;
+  fundamentals: FundamentalsDataProvider;
+  earnings: EarningsCalendarProvider;
+  biotech: BiotechEventProvider;
+  filings: FilingsDataProvider;
+  symbols: SymbolListProvider;
+}
+
+/**
+ * Reads a configuration value; the edge function passes Deno.env.get
+ */
+export type EnvReader = (key: string) => string | undefined;
+
+export interface ProviderSettings {
+  enabled: boolean;
+  priority: number; // Lower runs first and wins when merging
+  timeoutMs: number;
+}
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Health snapshot for one registered provider
+ */
+export interface ProviderHealth {
+  id: string;
+  name: string;
+  kind: ProviderKind;
+  enabled: boolean;
+  configured: boolean;
+  priority: number;
+  circuit: CircuitState;
+  lastCallOk: boolean | null;
+  lastCallAt: number | null; // Unix ms
+  lastError: string | null;
+  consecutiveFailures: number;
+}
+
+export interface ProviderRegistryOptions {
+  failureThreshold: number;
+  cooldownMs: number;
+  defaultTimeoutMs: number;
+  queuedTime?: (bucket: string) => number; // RequestScheduler.queuedTime
+  getEnv?: EnvReader;
+  now?: () => number;
+}
+
+interface RegistryEntry<K extends ProviderKind> {
+  kind: K;
+  provider: ProviderByKind[K];
+  settings: ProviderSettings;
+  health: ProviderHealth;
+  openedAt: number | null;
+}
+
+const DEFAULT_OPTIONS: ProviderRegistryOptions = {
+  failureThreshold: 3,
+  cooldownMs: 60_000,
+  defaultTimeoutMs: 10_000,
+};
+
+function parseNumber(value: string | undefined): number | null {
+  if (value == null || value.trim() === '') return null;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : null;
+}
+
+function parseList(value: string | undefined): string[] | null {
+  if (value == null || value.trim() === '') return null;
+  return value.split(',').map(s => s.trim().toLowerCase()).filter(Boolean);
+}
+
+function envKey(id: string): string {
+  return id.toUpperCase().replace(/[^A-Z0-9]/g, '_');
+}
+
+/**
+ * Build registry options from environment variables, falling back to defaults
+ */
+export function loadRegistryOptionsFromEnv(getEnv: EnvReader): ProviderRegistryOptions {
+  return {
+    failureThreshold: parseNumber(getEnv('SCAN_CIRCUIT_FAILURE_THRESHOLD')) ?? DEFAULT_OPTIONS.failureThreshold,
+    cooldownMs: parseNumber(getEnv('SCAN_CIRCUIT_COOLDOWN_MS')) ?? DEFAULT_OPTIONS.cooldownMs,
+    defaultTimeoutMs: parseNumber(getEnv('SCAN_PROVIDER_TIMEOUT_MS')) ?? DEFAULT_OPTIONS.defaultTimeoutMs,
+    getEnv,
+  };
+}
+
+/**
+ * Reject after timeoutMs, pushed back by whatever queuedSince() reports when the timer fires
+ */
+function withTimeout<T>(promise: Promise<T>, timeoutMs: number, label: string, queuedSince: () => number = () => 0): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    let extendedMs = 0;
+    const expire = () => {
+      const queuedMs = queuedSince();
+      if (queuedMs > extendedMs) {
+        timer = setTimeout(expire, queuedMs - extendedMs);
+        extendedMs = queuedMs;
+        return;
+      }
+      const queued = extendedMs > 0 ? ` plus ${Math.round(extendedMs)}ms queued` : '';
+      reject(new Error(`${label} timed out after ${timeoutMs}ms${queued}`));
+    };
+    let timer = setTimeout(expire, timeoutMs);
+    promise.then(
+      value => {
+        clearTimeout(timer);
+        resolve(value);
+      },
+      err => {
+        clearTimeout(timer);
+        reject(err);
+      },
+    );
+  });
+}
+
+export class ProviderRegistry {
+  private readonly options: ProviderRegistryOptions;
+  private readonly entries: RegistryEntry<ProviderKind>[] = [];
+
+  constructor(options: Partial<ProviderRegistryOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  private now(): number {
+    return this.options.now ? this.options.now() : Date.now();
+  }
+
+  /**
+   * Reader for the time the provider's rate-limit bucket spends queued from this call on
+   */
+  private queuedSince(entry: RegistryEntry<ProviderKind>): (() => number) | undefined {
+    const bucket = entry.provider.rateLimitBucket;
+    const queuedTime = this.options.queuedTime;
+    if (!bucket || !queuedTime) return undefined;
+    const start = queuedTime(bucket);
+    return () => queuedTime(bucket) - start;
+  }
+
+  private resolveSettings(kind: ProviderKind, id: string, defaults: Partial<ProviderSettings>): ProviderSettings {
+    const getEnv = this.options.getEnv ?? (() => undefined);
+    const settings: ProviderSettings = {
+      enabled: defaults.enabled ?? true,
+      priority: defaults.priority ?? 100,
+      timeoutMs: defaults.timeoutMs ?? this.options.defaultTimeoutMs,
+    };
+
+    const list = parseList(getEnv(`SCAN_${kind.toUpperCase()}_PROVIDERS`));
+    if (list) {
+      const index = list.indexOf(id.toLowerCase());
+      settings.enabled = index >= 0;
+      if (index >= 0) settings.priority = index;
+    }
+
+    const key = envKey(id);
+    const enabled = getEnv(`SCAN_PROVIDER_${key}_ENABLED`);
+    if (enabled != null) settings.enabled = enabled === 'true' || enabled === '1';
+    settings.priority = parseNumber(getEnv(`SCAN_PROVIDER_${key}_PRIORITY`)) ?? settings.priority;
+    settings.timeoutMs = parseNumber(getEnv(`SCAN_PROVIDER_${key}_TIMEOUT_MS`)) ?? settings.timeoutMs;
+
+    return settings;
+  }
+
+  /**
+   * Register a provider under a kind with default settings (env overrides apply)
+   */
+  register<K extends ProviderKind>(kind: K, provider: ProviderByKind[K], defaults: Partial<ProviderSettings> = {}): this {
+    const settings = this.resolveSettings(kind, provider.id, defaults);
+    this.entries.push({
+      kind,
+      provider,
+      settings,
+      openedAt: null,
+      health: {
+        id: provider.id,
+        name: provider.name,
+        kind,
+        enabled: settings.enabled,
+        configured: provider.isConfigured ? provider.isConfigured() : true,
+        priority: settings.priority,
+        circuit: 'closed',
+        lastCallOk: null,
+        lastCallAt: null,
+        lastError: null,
+        consecutiveFailures: 0,
+      },
+    });
+    return this;
+  }
+
+  private entriesOf<K extends ProviderKind>(kind: K): RegistryEntry<K>[] {
+    return (this.entries.filter(e => e.kind === kind) as RegistryEntry<K>[])
+      .sort((a, b) => a.settings.priority - b.settings.priority);
+  }
+
+  /**
+   * Refresh the circuit state of an entry; an open circuit turns half-open after the cooldown
+   */
+  private refreshCircuit(entry: RegistryEntry<ProviderKind>): CircuitState {
+    if (entry.health.circuit === 'open' && entry.openedAt != null && this.now() - entry.openedAt >= this.options.cooldownMs) {
+      entry.health.circuit = 'half-open';
+    }
+    return entry.health.circuit;
+  }
+
+  private isRunnable(entry: RegistryEntry<ProviderKind>): boolean {
+    entry.health.configured = entry.provider.isConfigured ? entry.provider.isConfigured() : true;
+    if (!entry.settings.enabled || !entry.health.configured) return false;
+    return this.refreshCircuit(entry) !== 'open';
+  }
+
+  /**
+   * Providers of a kind that would run right now, in priority order
+   */
+  getActive<K extends ProviderKind>(kind: K): ProviderByKind[K][] {
+    return this.entriesOf(kind).filter(e => this.isRunnable(e)).map(e => e.provider);
+  }
+
+  private recordSuccess(entry: RegistryEntry<ProviderKind>): void {
+    entry.health.lastCallOk = true;
+    entry.health.lastCallAt = this.now();
+    entry.health.lastError = null;
+    entry.health.consecutiveFailures = 0;
+    entry.health.circuit = 'closed';
+    entry.openedAt = null;
+  }
+
+  private recordFailure(entry: RegistryEntry<ProviderKind>, err: unknown): void {
+    entry.health.lastCallOk = false;
+    entry.health.lastCallAt = this.now();
+    entry.health.lastError = err instanceof Error ? err.message : String(err);
+    entry.health.consecutiveFailures += 1;
+
+    const tripped = entry.health.circuit === 'half-open' ||
+      entry.health.consecutiveFailures >= this.options.failureThreshold;
+    if (tripped) {
+      entry.health.circuit = 'open';
+      entry.openedAt = this.now();
+      console.warn(`[ProviderRegistry] Circuit opened for ${entry.provider.name} after ${entry.health.consecutiveFailures} failures`);
+    }
+  }
+
+  /**
+   * Call every runnable provider of a kind in parallel, each bounded by its timeout
+   * plus the time its rate-limit bucket spent queued.
+   * Failures are recorded in the provider's health and never reject the whole call.
+   * Results are returned in provider priority order.
+   */
+  async run<K extends ProviderKind, T>(kind: K, call: (provider: ProviderByKind[K]) => Promise<T[]>): Promise<T[]> {
+    const runnable = this.entriesOf(kind).filter(e => this.isRunnable(e));
+
+    const settled = await Promise.all(runnable.map(async entry => {
+      try {
+        const value = await withTimeout(call(entry.provider), entry.settings.timeoutMs, entry.provider.name, this.queuedSince(entry));
+        this.recordSuccess(entry);
+        return value;
+      } catch (err) {
+        console.error(`[ProviderRegistry] ${entry.provider.name} failed:`, err);
+        this.recordFailure(entry, err);
+        return [] as T[];
+      }
+    }));
+
+    return settled.flat();
+  }
+
+  /**
+   * Health snapshot for every registered provider
+   */
+  getHealth(): ProviderHealth[] {
+    return this.entries.map(e => {
+      this.refreshCircuit(e);
+      return { ...e.health };
+    });
+  }
+}
@@ -0,0 +1,133 @@
+/**
+ * Scan Response Envelope
+ *
+ * The live-scan function answers with a versioned envelope rather than a bare
+ * array: the results plus what happened while producing them (stage counts and
+ * timings, provider status, rate limiting, cache use, dropped tickers and
+ * warnings). The mock engine returns the same shape so the UI has one code path.
+ *
+ * Bump SCAN_RESPONSE_VERSION on breaking changes; parseScanResponse rejects
+ * versions it does not know.
+ */
+
+import type { CacheStats } from './cache.ts';
+import type { ProviderHealth } from './registry.ts';
+import type { SchedulerStats } from './scheduler.ts';
+import type { MarketSession, ScanResult, ScanStageCounts } from './types.ts';
+
+export const SCAN_RESPONSE_VERSION = 1;
+
+export type ScanStage = 'universe' | 'snapshot' | 'earnings' | 'fundamentals' | 'biotech' | 'filings' | 'news' | 'candles' | 'scoring';
+
+export type DroppedTickerReason =
+  | 'universe_filter' // Explicit ticker whose known market cap, sector or price fails the filters
+  | 'universe_cap'    // Past MAX_CUSTOM_UNIVERSE_SIZE in an explicit ticker list
+  | 'no_quote'        // No price provider returned a quote
+  | 'no_change'       // Quote without a usable previous close
+  | 'snapshot_filter' // Failed price/volume (or earnings date) filters on the snapshot
+  | 'below_top_n'     // Pre-scored below the stage-2 top N, so never enriched
+  | 'filtered';       // Enriched and scored, then removed by the scan filters
+
+export interface DroppedTicker {
+  ticker: string;
+  reason: DroppedTickerReason;
+}
+
+export interface ScanDiagnostics {
+  stages: ScanStageCounts;
+  timingsMs: Partial<Record<ScanStage, number>> & { total: number };
+  providers: ProviderHealth[];
+  rateLimits: SchedulerStats[]; // This scan only
+  cache?: CacheStats & { store: string }; // This scan only
+  dropped: DroppedTicker[];
+  warnings: string[];
+}
+
+export interface ScanResponse {
+  version: typeof SCAN_RESPONSE_VERSION;
+  scanId: string;
+  dataMode: 'mock' | 'live';
+  startedAt: string; // ISO
+  session?: MarketSession; // Session the scan ran in
+  results: ScanResult[];
+  diagnostics: ScanDiagnostics;
+}
+
+export const DROPPED_REASON_LABELS: Record<DroppedTickerReason, string> = {
+  universe_filter: 'Universe filters',
+  universe_cap: 'Custom universe cap',
+  no_quote: 'No quote',
+  no_change: 'No previous close',
+  snapshot_filter: 'Snapshot filters',
+  below_top_n: 'Below top N pre-score',
+  filtered: 'Scan filters',
+};
+
+/**
+ * Records how long each stage of a scan takes
+ */
+export class StageTimer {
+  private readonly timings: Partial<Record<ScanStage, number>> = {};
+  private readonly startedAt: number;
+
+  constructor(private readonly now: () => number = Date.now) {
+    this.startedAt = now();
+  }
+
+  async time<T>(stage: ScanStage, run: () => Promise<T>): Promise<T> {
+    const start = this.now();
+    try {
+      return await run();
+    } finally {
+      this.timings[stage] = (this.timings[stage] ?? 0) + (this.now() - start);
+    }
+  }
+
+  record(stage: ScanStage, ms: number): void {
+    this.timings[stage] = (this.timings[stage] ?? 0) + ms;
+  }
+
+  toJSON(): ScanDiagnostics['timingsMs'] {
+    return { ...this.timings, total: this.now() - this.startedAt };
+  }
+}
+
+/**
+ * Human-readable warnings for providers that could not take part in a scan
+ */
+export function buildProviderWarnings(providers: ProviderHealth[]): string[] {
+  const warnings: string[] = [];
+  for (const p of providers) {
+    if (!p.enabled) continue;
+    if (!p.configured) {
+      // Symbol lists and the biotech event file are optional extras; only data providers are worth a warning
+      if (p.kind !== 'symbols' && p.kind !== 'biotech') warnings.push(`${p.name} is not configured (missing API key)`);
+    } else if (p.circuit === 'open') {
+      warnings.push(`${p.name} is paused after ${p.consecutiveFailures} failures${p.lastError ? `: ${p.lastError}` : ''}`);
+    } else if (p.lastCallOk === false) {
+      warnings.push(`${p.name} failed${p.lastError ? `: ${p.lastError}` : ''}`);
+    }
+  }
+  return warnings;
+}
+
+/**
+ * Validate a live-scan response body
+ * Throws when the body is not a scan envelope of a supported version.
+ */
+export function parseScanResponse(data: unknown): ScanResponse {
+  if (!data || typeof data !== 'object') {
+    throw new Error('Invalid scan response: expected an object');
+  }
+  const body = data as Partial<ScanResponse> & { error?: unknown };
+  if (typeof body.error === 'string') {
+    throw new Error(body.error);
+  }
+  if (body.version !== SCAN_RESPONSE_VERSION) {
+    throw new Error(`Unsupported scan response version: ${String(body.version)}`);
+  }
+  if (!Array.isArray(body.results) || !body.diagnostics) {
+    throw new Error('Invalid scan response: missing results or diagnostics');
+  }
+  return body as ScanResponse;
+}
@@ -0,0 +1,323 @@
+/**
+ * Rate-Limited Request Scheduler
+ *
+ * Every upstream API call goes through a token bucket for its provider
+ * (finnhub, massive, benzinga, ...), so large universes are spread over time
+ * instead of tripping 429s. Responses with status 429 or 5xx are retried with
+ * exponential backoff plus full jitter; a Retry-After header, when present,
+ * sets the wait instead and pauses the whole bucket.
+ *
+ * While a scan runs (beginScan), calls queue for as long as the scan's deadline
+ * allows, so a large universe is fetched slowly rather than cut short; only a
+ * call whose token would arrive after the deadline is dropped up front. Outside
+ * a scan the wait is capped at maxQueueMs. Throttled, retried and dropped calls
+ * are counted per bucket for diagnostics, and queuedTime() reports how long a
+ * bucket has had calls waiting so the registry can extend provider timeouts by
+ * that time only.
+ *
+ * Limits can be overridden with SCAN_RATE_LIMIT_<BUCKET>_PER_MINUTE and
+ * SCAN_RATE_LIMIT_<BUCKET>_BURST.
+ */
+
+import type { EnvReader } from './registry.ts';
+
+export interface RateLimit {
+  perMinute: number; // Sustained rate
+  burst: number;     // Bucket capacity
+}
+
+export const DEFAULT_RATE_LIMITS: Record<string, RateLimit> = {
+  finnhub: { perMinute: 55, burst: 5 }, // Free tier: 60/min
+  massive: { perMinute: 100, burst: 10 },
+  benzinga: { perMinute: 60, burst: 5 },
+  iborrowdesk: { perMinute: 30, burst: 3 }, // Unofficial endpoint; keep it gentle
+  sec: { perMinute: 300, burst: 5 }, // EDGAR fair access: at most 10/sec
+};
+
+export interface SchedulerOptions {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  maxQueueMs: number; // Longest wait for a token when no scan deadline is set
+  now?: () => number;
+  sleep?: (ms: number) => Promise<void>;
+  random?: () => number;
+}
+
+const DEFAULT_SCHEDULER_OPTIONS: SchedulerOptions = {
+  maxRetries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 8_000,
+  maxQueueMs: 8_000, // Below the registry's default 10s provider timeout
+};
+
+/**
+ * Default time a live scan may spend, queueing included (edge functions are
+ * stopped at 150s of wall clock)
+ */
+export const DEFAULT_SCAN_DEADLINE_MS = 120_000;
+
+export interface SchedulerStats {
+  bucket: string;
+  calls: number;     // Requests sent upstream, including retries
+  queued: number;    // Calls delayed by the local token bucket
+  throttled: number; // Responses with status 429
+  retried: number;   // Retries after 429, 5xx or network errors
+  dropped: number;   // Calls given up on (queue too long or retries exhausted)
+  waitedMs: number;  // Total time spent waiting for tokens and backoff
+}
+
+interface Bucket {
+  limit: RateLimit;
+  tokens: number;
+  updatedAt: number;
+  blockedUntil: number;
+  waiting: number;     // Calls currently sleeping for a token or a retry
+  waitingSince: number;
+  queuedMs: number;    // Time with at least one call waiting, up to waitingSince
+  stats: SchedulerStats;
+}
+
+/**
+ * Build rate limits from environment variables, falling back to defaults
+ */
+export function loadRateLimitsFromEnv(getEnv: EnvReader): Record<string, RateLimit> {
+  const limits: Record<string, RateLimit> = {};
+  for (const [bucket, limit] of Object.entries(DEFAULT_RATE_LIMITS)) {
+    const key = bucket.toUpperCase();
+    const perMinute = Number(getEnv(`SCAN_RATE_LIMIT_${key}_PER_MINUTE`));
+    const burst = Number(getEnv(`SCAN_RATE_LIMIT_${key}_BURST`));
+    limits[bucket] = {
+      perMinute: perMinute > 0 ? perMinute : limit.perMinute,
+      burst: burst > 0 ? burst : limit.burst,
+    };
+  }
+  return limits;
+}
+
+/**
+ * Wait time from a Retry-After header (delta seconds or HTTP date), or null
+ */
+export function parseRetryAfter(value: string | null, now: number = Date.now()): number | null {
+  if (!value) return null;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - now);
+}
+
+/**
+ * Counters accumulated between two getStats() snapshots (e.g. during one scan)
+ */
+export function diffSchedulerStats(before: SchedulerStats[], after: SchedulerStats[]): SchedulerStats[] {
+  const previous = new Map(before.map(s => [s.bucket, s]));
+  return after
+    .map(s => {
+      const p = previous.get(s.bucket);
+      if (!p) return s;
+      return {
+        bucket: s.bucket,
+        calls: s.calls - p.calls,
+        queued: s.queued - p.queued,
+        throttled: s.throttled - p.throttled,
+        retried: s.retried - p.retried,
+        dropped: s.dropped - p.dropped,
+        waitedMs: s.waitedMs - p.waitedMs,
+      };
+    })
+    .filter(s => s.calls > 0 || s.dropped > 0);
+}
+
+function isRetryableStatus(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+export class RequestScheduler {
+  private readonly options: SchedulerOptions;
+  private readonly buckets = new Map<string, Bucket>();
+  private readonly scanDeadlines: number[] = [];
+
+  constructor(
+    private readonly limits: Record<string, RateLimit> = DEFAULT_RATE_LIMITS,
+    options: Partial<SchedulerOptions> = {},
+  ) {
+    this.options = { ...DEFAULT_SCHEDULER_OPTIONS, ...options };
+  }
+
+  private now(): number {
+    return this.options.now ? this.options.now() : Date.now();
+  }
+
+  private sleep(ms: number): Promise<void> {
+    if (this.options.sleep) return this.options.sleep(ms);
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+
+  private bucketFor(name: string): Bucket {
+    let bucket = this.buckets.get(name);
+    if (!bucket) {
+      const limit = this.limits[name] ?? { perMinute: 60, burst: 5 };
+      bucket = {
+        limit,
+        tokens: limit.burst,
+        updatedAt: this.now(),
+        blockedUntil: 0,
+        waiting: 0,
+        waitingSince: 0,
+        queuedMs: 0,
+        stats: { bucket: name, calls: 0, queued: 0, throttled: 0, retried: 0, dropped: 0, waitedMs: 0 },
+      };
+      this.buckets.set(name, bucket);
+    }
+    return bucket;
+  }
+
+  /**
+   * Reserve a token and return how long the caller must wait before using it.
+   * Reservations are made synchronously, so concurrent callers queue in order.
+   */
+  private reserve(bucket: Bucket): number {
+    const now = this.now();
+    const refillPerMs = bucket.limit.perMinute / 60_000;
+    bucket.tokens = Math.min(bucket.limit.burst, bucket.tokens + (now - bucket.updatedAt) * refillPerMs);
+    bucket.updatedAt = now;
+
+    bucket.tokens -= 1;
+    const tokenWait = bucket.tokens >= 0 ? 0 : -bucket.tokens / refillPerMs;
+    return Math.max(tokenWait, bucket.blockedUntil - now);
+  }
+
+  /**
+   * Longest a call may wait for its token: until the latest running scan's
+   * deadline, or maxQueueMs when no scan is running
+   */
+  private maxWait(): number {
+    if (this.scanDeadlines.length === 0) return this.options.maxQueueMs;
+    return Math.max(...this.scanDeadlines) - this.now();
+  }
+
+  /**
+   * Let calls queue until `deadline` (Unix ms) while a scan runs
+   * Returns the function that ends the scan; overlapping scans on a warm
+   * instance share the buckets and the latest deadline.
+   */
+  beginScan(deadline: number): () => void {
+    this.scanDeadlines.push(deadline);
+    let ended = false;
+    return () => {
+      if (ended) return;
+      ended = true;
+      this.scanDeadlines.splice(this.scanDeadlines.indexOf(deadline), 1);
+    };
+  }
+
+  /**
+   * Sleep on behalf of a call while counting the bucket as queued
+   */
+  private async wait(bucket: Bucket, ms: number): Promise<void> {
+    if (bucket.waiting++ === 0) bucket.waitingSince = this.now();
+    try {
+      await this.sleep(ms);
+    } finally {
+      if (--bucket.waiting === 0) bucket.queuedMs += this.now() - bucket.waitingSince;
+    }
+  }
+
+  private backoff(attempt: number): number {
+    const random = this.options.random ?? Math.random;
+    const ceiling = Math.min(this.options.maxDelayMs, this.options.baseDelayMs * 2 ** attempt);
+    return random() * ceiling; // Full jitter
+  }
+
+  /**
+   * fetch() through the named bucket, retrying 429, 5xx and network errors.
+   * After the last retry the final response is returned (or the error rethrown)
+   * so callers keep their own error handling.
+   */
+  async fetch(bucketName: string, input: string, init?: RequestInit): Promise<Response> {
+    const bucket = this.bucketFor(bucketName);
+    const { stats } = bucket;
+
+    for (let attempt = 0; ; attempt++) {
+      const wait = this.reserve(bucket);
+      if (wait > this.maxWait()) {
+        bucket.tokens += 1; // Give the reservation back
+        stats.dropped += 1;
+        throw new Error(`${bucketName} rate limit: call dropped, next token in ${Math.round(wait)}ms`);
+      }
+      if (wait > 0) {
+        stats.queued += 1;
+        stats.waitedMs += wait;
+        await this.wait(bucket, wait);
+      }
+
+      stats.calls += 1;
+      const lastAttempt = attempt >= this.options.maxRetries;
+
+      let res: Response;
+      try {
+        res = await fetch(input, init);
+      } catch (err) {
+        if (lastAttempt) {
+          stats.dropped += 1;
+          throw err;
+        }
+        stats.retried += 1;
+        const delay = this.backoff(attempt);
+        stats.waitedMs += delay;
+        await this.wait(bucket, delay);
+        continue;
+      }
+
+      if (!isRetryableStatus(res.status)) return res;
+
+      if (res.status === 429) stats.throttled += 1;
+      if (lastAttempt) {
+        stats.dropped += 1;
+        return res;
+      }
+
+      const retryAfter = parseRetryAfter(res.headers.get('Retry-After'), this.now());
+      const delay = retryAfter ?? this.backoff(attempt);
+      if (retryAfter != null) {
+        // The provider told us when to come back; hold every caller on this bucket
+        bucket.blockedUntil = Math.max(bucket.blockedUntil, this.now() + retryAfter);
+      }
+
+      await res.body?.cancel();
+      stats.retried += 1;
+      stats.waitedMs += delay;
+      await this.wait(bucket, delay);
+    }
+  }
+
+  /**
+   * How many calls the named bucket can start before `until` (Unix ms): the
+   * tokens left now plus the refills in between, less any Retry-After pause
+   */
+  availableCalls(bucketName: string, until: number): number {
+    const bucket = this.bucketFor(bucketName);
+    const now = this.now();
+    const refillPerMs = bucket.limit.perMinute / 60_000;
+    const tokens = Math.min(bucket.limit.burst, bucket.tokens + (now - bucket.updatedAt) * refillPerMs);
+    const refillFrom = Math.max(now, bucket.blockedUntil);
+    return Math.max(0, Math.floor(tokens + Math.max(0, until - refillFrom) * refillPerMs));
+  }
+
+  /**
+   * Total time (ms) the named bucket has had at least one call waiting, including
+   * the current wait; the difference between two readings is the queueing in between
+   */
+  queuedTime(bucketName: string): number {
+    const bucket = this.buckets.get(bucketName);
+    if (!bucket) return 0;
+    return bucket.queuedMs + (bucket.waiting > 0 ? this.now() - bucket.waitingSince : 0);
+  }
+
+  /**
+   * Per-bucket counters since the scheduler was created
+   */
+  getStats(): SchedulerStats[] {
+    return Array.from(this.buckets.values()).map(b => ({ ...b.stats }));
+  }
+}
@@ -0,0 +1,401 @@
+/**
+ * Scoring Logic
+ * 
+ * Turns merged quote and news data into the score breakdown, labels and tags
+ * shown on every ScanResult. Used by the live-scan edge function.
+ */
+
+import { DEFAULT_BIOTECH_EVENT_BONUS, deriveBiotechEventDriver, normalizeBiotechEventBonus } from './biotech.ts';
+import type { CatalystAnalysis, CatalystContext } from './catalysts.ts';
+import { analyzeCatalysts, describeSentiment } from './catalysts.ts';
+import { deriveEarningsDriver } from './earnings.ts';
+import type { NewsCluster } from './newsClusters.ts';
+import type { RawNewsItem } from './providers.ts';
+import type { SqueezeMetrics } from './squeeze.ts';
+import { deriveSqueezeDrivers, hasSqueezeData } from './squeeze.ts';
+import type {
+  BiotechEventBonus,
+  CapBucket,
+  MomentumGrade,
+  NewsEntry,
+  NextBiotechEvent,
+  RiskLevel,
+  ScoreBreakdown,
+  ScoreDriver,
+  ScoreDrivers,
+  ScoringModel,
+  ScoringModelRef,
+  ScoringWeights,
+  Sentiment,
+  TechnicalIndicators,
+  UpcomingEarnings,
+} from './types.ts';
+
+export interface ScoreInput {
+  changePercent: number;
+  volume: number | null;
+  indicators?: TechnicalIndicators | null;
+  newsCount?: number; // Used only when no catalyst analysis is given
+  catalyst?: CatalystAnalysis | null;
+  earnings?: UpcomingEarnings | null;
+  biotechEvent?: NextBiotechEvent | null;
+  biotechEventBonus?: BiotechEventBonus; // From the scoring model
+  squeeze?: SqueezeMetrics | null;
+}
+
+function clampScore(value: number): number {
+  return Math.max(0, Math.min(100, Math.round(value)));
+}
+
+/**
+ * Sum a list of drivers into a 0-100 sub-score, dropping drivers that contributed nothing
+ */
+function scoreFromDrivers(drivers: ScoreDriver[]): { score: number; drivers: ScoreDriver[] } {
+  const kept = drivers
+    .filter(d => d.points !== 0)
+    .map(d => ({ ...d, points: Math.round(d.points * 10) / 10 }));
+  return { score: clampScore(kept.reduce((sum, d) => sum + d.points, 0)), drivers: kept };
+}
+
+/**
+ * Legacy breakdown used when no bar history is available: every sub-score
+ * is a function of the day's percent change and raw volume.
+ */
+function deriveChangeOnlyBreakdown(changePercent: number, volume: number | null): { scoreBreakdown: ScoreBreakdown; scoreDrivers: ScoreDrivers } {
+  const absChange = Math.abs(changePercent);
+  const volFactor = volume && volume > 1_000_000 ? 1 : 0.7;
+
+  const momentum = Math.min(100, absChange * 5 * volFactor);
+  const structure = Math.max(30, Math.min(95, momentum));
+  const catalysts = Math.max(10, Math.min(90, momentum - 5));
+
+  const sentimentScore = changePercent >= 0 ? 60 + absChange : 40 - absChange;
+
+  const scoreBreakdown: ScoreBreakdown = {
+    catalysts: Math.round(catalysts),
+    momentum: Math.round(momentum),
+    structure: Math.round(structure),
+    sentiment: clampScore(sentimentScore),
+  };
+  const changeDriver = (points: number): ScoreDriver[] => [{ indicator: 'changePercent', value: changePercent, points }];
+
+  return {
+    scoreBreakdown,
+    scoreDrivers: {
+      catalysts: changeDriver(scoreBreakdown.catalysts),
+      momentum: changeDriver(scoreBreakdown.momentum),
+      structure: changeDriver(scoreBreakdown.structure),
+      sentiment: changeDriver(scoreBreakdown.sentiment),
+    },
+  };
+}
+
+/**
+ * Derive the sub-scores from the day's move and, when available, technical indicators
+ * and short-side data
+ * 
+ * - momentum: size of the move, RSI distance from 50, relative volume, distance from VWAP
+ * - structure: proximity to the 52-week high, consolidation/breakout, opening gap
+ * - catalysts: news catalyst strength, upcoming earnings, biotech event bonus, opening gap, unusual relative volume
+ * - sentiment: direction of the move, RSI bias, side of VWAP, news sentiment
+ * - squeeze (only with short-side data): short % of float, days to cover, borrow fee, low float
+ * 
+ * Each sub-score records the drivers (indicator, value, points) that produced it.
+ */
+export function deriveScoreBreakdown(input: ScoreInput): { scoreBreakdown: ScoreBreakdown; scoreDrivers: ScoreDrivers } {
+  const market = deriveMarketBreakdown(input);
+  const { catalystDrivers, sentimentDrivers } = deriveNewsDrivers(input);
+  const earningsDriver = deriveEarningsDriver(input.earnings);
+  if (earningsDriver) catalystDrivers.push(earningsDriver);
+  const biotechDriver = deriveBiotechEventDriver(input.biotechEvent, input.biotechEventBonus);
+  if (biotechDriver) catalystDrivers.push(biotechDriver);
+
+  const catalysts = scoreFromDrivers([...market.scoreDrivers.catalysts, ...catalystDrivers]);
+  const sentiment = scoreFromDrivers([...market.scoreDrivers.sentiment, ...sentimentDrivers]);
+  const scoreBreakdown: ScoreBreakdown = { ...market.scoreBreakdown, catalysts: catalysts.score, sentiment: sentiment.score };
+  const scoreDrivers: ScoreDrivers = { ...market.scoreDrivers, catalysts: catalysts.drivers, sentiment: sentiment.drivers };
+
+  if (!input.squeeze || !hasSqueezeData(input.squeeze)) return { scoreBreakdown, scoreDrivers };
+
+  const squeeze = scoreFromDrivers(deriveSqueezeDrivers(input.squeeze));
+  return {
+    scoreBreakdown: { ...scoreBreakdown, squeeze: squeeze.score },
+    scoreDrivers: { ...scoreDrivers, squeeze: squeeze.drivers },
+  };
+}
+
+/**
+ * News drivers for the catalysts and sentiment sub-scores
+ * - newsCatalyst: up to 40 points from the analyzer's catalyst strength
+ * - newsSentiment: up to +/-20 points from relevance- and recency-weighted sentiment
+ * Without an analysis, the raw item count stands in for catalyst strength.
+ */
+function deriveNewsDrivers(input: ScoreInput): { catalystDrivers: ScoreDriver[]; sentimentDrivers: ScoreDriver[] } {
+  const { catalyst, newsCount = 0 } = input;
+  if (!catalyst) {
+    return {
+      catalystDrivers: newsCount > 0 ? [{ indicator: 'newsCount', value: newsCount, points: Math.min(40, newsCount * 10) }] : [],
+      sentimentDrivers: [],
+    };
+  }
+  if (catalyst.items.length === 0) return { catalystDrivers: [], sentimentDrivers: [] };
+
+  return {
+    catalystDrivers: [{ indicator: 'newsCatalyst', value: catalyst.strength, points: catalyst.strength * 0.4 }],
+    sentimentDrivers: [{ indicator: 'newsSentiment', value: Math.round(catalyst.sentiment * 100) / 100, points: catalyst.sentiment * 20 }],
+  };
+}
+
+/**
+ * The four sub-scores that come from price, volume and indicators
+ */
+function deriveMarketBreakdown(input: ScoreInput): { scoreBreakdown: ScoreBreakdown; scoreDrivers: ScoreDrivers } {
+  const { changePercent, volume, indicators } = input;
+  if (!indicators) return deriveChangeOnlyBreakdown(changePercent, volume);
+
+  const absChange = Math.abs(changePercent);
+  const { rsi14, relativeVolume, vwapDistancePercent, percentOf52WeekHigh, gapPercent } = indicators;
+  const momentumDrivers: ScoreDriver[] = [
+    { indicator: 'changePercent', value: changePercent, points: Math.min(40, absChange * 4) },
+  ];
+  if (rsi14 != null) momentumDrivers.push({ indicator: 'rsi14', value: rsi14, points: Math.min(25, Math.abs(rsi14 - 50)) });
+  if (relativeVolume != null) momentumDrivers.push({ indicator: 'relativeVolume', value: relativeVolume, points: Math.max(0, Math.min(25, (relativeVolume - 1) * 10)) });
+  if (vwapDistancePercent != null) momentumDrivers.push({ indicator: 'vwapDistancePercent', value: vwapDistancePercent, points: Math.min(10, Math.abs(vwapDistancePercent) * 2) });
+
+  const structureDrivers: ScoreDriver[] = [{ indicator: 'base', value: 15, points: 15 }];
+  if (percentOf52WeekHigh != null) {
+    structureDrivers.push({
+      indicator: 'percentOf52WeekHigh',
+      value: percentOf52WeekHigh,
+      points: percentOf52WeekHigh >= 95 ? 35 : Math.max(0, ((percentOf52WeekHigh - 70) / 25) * 35),
+    });
+  }
+  if (indicators.breakout) structureDrivers.push({ indicator: 'breakout', value: true, points: 30 });
+  else if (indicators.consolidating) structureDrivers.push({ indicator: 'consolidation', value: indicators.rangePercent10d ?? true, points: 20 });
+  if (gapPercent != null) structureDrivers.push({ indicator: 'gapPercent', value: gapPercent, points: Math.min(20, Math.abs(gapPercent) * 2) });
+
+  const catalystDrivers: ScoreDriver[] = [{ indicator: 'base', value: 10, points: 10 }];
+  if (gapPercent != null) catalystDrivers.push({ indicator: 'gapPercent', value: gapPercent, points: Math.min(25, Math.abs(gapPercent) * 2.5) });
+  if (relativeVolume != null) catalystDrivers.push({ indicator: 'relativeVolume', value: relativeVolume, points: Math.max(0, Math.min(25, (relativeVolume - 1) * 8)) });
+
+  const direction = changePercent >= 0 ? 1 : -1;
+  const sentimentDrivers: ScoreDriver[] = [
+    { indicator: 'base', value: 50, points: 50 },
+    { indicator: 'changePercent', value: changePercent, points: direction * Math.min(25, absChange * 2) },
+  ];
+  if (rsi14 != null) sentimentDrivers.push({ indicator: 'rsi14', value: rsi14, points: (rsi14 - 50) * 0.4 });
+  if (vwapDistancePercent != null) {
+    sentimentDrivers.push({
+      indicator: 'vwapDistancePercent',
+      value: vwapDistancePercent,
+      points: Math.sign(vwapDistancePercent) * Math.min(10, Math.abs(vwapDistancePercent) * 2),
+    });
+  }
+
+  const momentum = scoreFromDrivers(momentumDrivers);
+  const structure = scoreFromDrivers(structureDrivers);
+  const catalysts = scoreFromDrivers(catalystDrivers);
+  const sentiment = scoreFromDrivers(sentimentDrivers);
+
+  return {
+    scoreBreakdown: {
+      catalysts: catalysts.score,
+      momentum: momentum.score,
+      structure: structure.score,
+      sentiment: sentiment.score,
+    },
+    scoreDrivers: {
+      catalysts: catalysts.drivers,
+      momentum: momentum.drivers,
+      structure: structure.drivers,
+      sentiment: sentiment.drivers,
+    },
+  };
+}
+
+export function deriveLabels(changePercent: number): { momentumGrade: MomentumGrade; sentiment: Sentiment; riskLevel: RiskLevel } {
+  const absChange = Math.abs(changePercent);
+  let momentumGrade: MomentumGrade = 'D';
+  if (absChange > 15) momentumGrade = 'A';
+  else if (absChange > 8) momentumGrade = 'B';
+  else if (absChange > 3) momentumGrade = 'C';
+
+  const sentiment: Sentiment = changePercent >= 0 ? 'Long' : 'Short';
+
+  let riskLevel: RiskLevel = 'Low';
+  if (absChange > 12) riskLevel = 'High';
+  else if (absChange > 5) riskLevel = 'Medium';
+
+  return { momentumGrade, sentiment, riskLevel };
+}
+
+export const DEFAULT_SCORING_MODEL: ScoringModel = {
+  id: 'default',
+  name: 'Default',
+  version: 3, // v2: squeeze sub-score; v3: biotech event bonus
+  weights: { momentum: 0.4, structure: 0.3, catalysts: 0.2, sentiment: 0.1, squeeze: 0.15 },
+  biotechEventBonus: DEFAULT_BIOTECH_EVENT_BONUS,
+};
+
+function sumWeights(weights: ScoringWeights): number {
+  return weights.momentum + weights.structure + weights.catalysts + weights.sentiment + weights.squeeze;
+}
+
+/**
+ * A scoring model as stored or sent by a client: one saved by an older version
+ * may lack weights or the biotech bonus
+ */
+export type StoredScoringModel = Partial<Omit<ScoringModel, 'weights' | 'biotechEventBonus'>> & {
+  weights?: Partial<ScoringWeights>;
+  biotechEventBonus?: Partial<BiotechEventBonus>;
+};
+
+/**
+ * Fill in missing fields and reject unusable weights (negative, non-numeric, all zero)
+ *
+ * A model that needed defaults (e.g. one saved before the squeeze weight or the
+ * biotech bonus existed) comes back one version later, so scores stamped with it
+ * never share a ref with the incomplete stored model. Callers that store models
+ * should save the normalized one; normalizing it again changes nothing.
+ */
+export function normalizeScoringModel(model?: StoredScoringModel | null): ScoringModel {
+  if (!model) return DEFAULT_SCORING_MODEL;
+
+  let defaultsApplied = false;
+  const weights = { ...DEFAULT_SCORING_MODEL.weights };
+  for (const key of Object.keys(weights) as (keyof ScoringWeights)[]) {
+    const w = model.weights?.[key];
+    if (typeof w === 'number' && Number.isFinite(w) && w >= 0) weights[key] = w;
+    else defaultsApplied = true;
+  }
+  const total = sumWeights(weights);
+  if (total <= 0) defaultsApplied = true;
+
+  const biotechEventBonus = normalizeBiotechEventBonus(model.biotechEventBonus);
+  if (model.biotechEventBonus?.points !== biotechEventBonus.points || model.biotechEventBonus?.withinDays !== biotechEventBonus.withinDays) {
+    defaultsApplied = true;
+  }
+
+  const version = typeof model.version === 'number' && model.version > 0 ? model.version : 1;
+  return {
+    id: model.id || DEFAULT_SCORING_MODEL.id,
+    name: model.name || DEFAULT_SCORING_MODEL.name,
+    version: defaultsApplied ? version + 1 : version,
+    weights: total > 0 ? weights : { ...DEFAULT_SCORING_MODEL.weights },
+    biotechEventBonus,
+  };
+}
+
+export function toScoringModelRef(model: ScoringModel): ScoringModelRef {
+  return { id: model.id, name: model.name, version: model.version };
+}
+
+/**
+ * Weighted average of the sub-scores under the given model (0-100)
+ * A missing squeeze sub-score is left out of the average rather than counted as 0.
+ */
+export function deriveExplosivePotential(score: ScoreBreakdown, model: ScoringModel = DEFAULT_SCORING_MODEL): number {
+  const { weights } = normalizeScoringModel(model);
+  const squeezeWeight = score.squeeze != null ? weights.squeeze : 0;
+  const total = sumWeights({ ...weights, squeeze: squeezeWeight });
+  if (total <= 0) return 0;
+  const base = (
+    (score.momentum * weights.momentum) +
+    (score.structure * weights.structure) +
+    (score.catalysts * weights.catalysts) +
+    (score.sentiment * weights.sentiment) +
+    ((score.squeeze ?? 0) * squeezeWeight)
+  ) / total;
+  return Math.max(0, Math.min(100, Math.round(base)));
+}
+
+/**
+ * Relative volume at or above this counts as unusual activity
+ */
+export const HIGH_RELATIVE_VOLUME = 2;
+
+export function deriveTags(
+  changePercent: number,
+  volume: number | null,
+  metaSector: string | undefined,
+  capBucket: CapBucket | undefined,
+  relativeVolume: number | null = null,
+  squeezeSetup = false
+): string[] {
+  const tags: string[] = [];
+  const absChange = Math.abs(changePercent);
+
+  if (capBucket === 'micro' || capBucket === 'small') tags.push('Microcap');
+  if (metaSector === 'Crypto') tags.push('Crypto-linked');
+  if (metaSector === 'Technology') tags.push('Tech');
+  if (absChange > 10) tags.push('High Volatility');
+  if (absChange > 20) tags.push('Parabolic Risk');
+  // Prefer volume relative to the stock's own average; fall back to an absolute threshold
+  if (relativeVolume != null) {
+    if (relativeVolume >= HIGH_RELATIVE_VOLUME) tags.push('High Volume');
+  } else if (volume && volume > 5_000_000) {
+    tags.push('High Volume');
+  }
+  if (squeezeSetup) tags.push('Squeeze Setup');
+
+  return Array.from(new Set(tags));
+}
+
+/**
+ * Catalyst summary, primary headline and tags from the analyzed news
+ *
+ * @param news - Recent news for one ticker from all providers
+ * @param context - Ticker (and company name) used to judge relevance
+ */
+export function buildCatalystFromNews(news: RawNewsItem[], context: CatalystContext): {
+  catalystSummary: string;
+  primary?: RawNewsItem;
+  catalystTags: string[];
+  analysis: CatalystAnalysis;
+} {
+  const analysis = analyzeCatalysts(news, context);
+  const primary = analysis.primary?.item;
+
+  if (!primary) {
+    return {
+      catalystSummary: 'No recent company-specific news detected in the last few days.',
+      primary: undefined,
+      catalystTags: [],
+      analysis,
+    };
+  }
+
+  const types = analysis.catalystTypes.length > 0 ? ` ${analysis.catalystTypes.join(', ')}.` : '';
+  const catalystSummary =
+    `Key news: ${primary.headline} (${new Date(primary.datetime).toLocaleString()}). ` +
+    `${analysis.items.length} recent item${analysis.items.length === 1 ? '' : 's'}, ${describeSentiment(analysis.sentiment)} overall.${types}`;
+
+  return { catalystSummary, primary, catalystTags: analysis.catalystTypes, analysis };
+}
+
+export const MAX_NEWS_TIMELINE = 12;
+
+/**
+ * Compact news timeline for a result: the analyzed stories within the lookback
+ * window, newest first, each with the sources of its cluster
+ *
+ * @param analysis - Result of analyzeCatalysts over the cluster stories
+ * @param clusters - The clusters whose stories were analyzed
+ */
+export function buildNewsTimeline(analysis: CatalystAnalysis, clusters: NewsCluster[], limit = MAX_NEWS_TIMELINE): NewsEntry[] {
+  const sourcesByStory = new Map<RawNewsItem, string[]>(clusters.map(c => [c.story, c.sources]));
+
+  return analysis.items
+    .map(a => ({
+      headline: a.item.headline,
+      url: a.item.url,
+      datetime: a.item.datetime,
+      sources: sourcesByStory.get(a.item) ?? [a.item.source],
+      category: a.item.category,
+      sentiment: Math.round(a.sentiment * 100) / 100,
+      relevance: a.relevance,
+      catalystTypes: a.catalystTypes,
+    }))
+    .sort((a, b) => b.datetime.localeCompare(a.datetime))
+    .slice(0, limit);
+}
@@ -0,0 +1,179 @@
+/**
+ * Sector Taxonomy
+ *
+ * One canonical list of sectors (each with its industries) used by the scan
+ * filters, the universe metadata and every fundamentals provider. Providers
+ * report sectors in their own vocabulary (Finnhub's finnhubIndustry returns
+ * "Semiconductors", "Banking", ...), so each has a mapping table to the
+ * canonical sector and industry; generic aliases (GICS names, abbreviations)
+ * cover CSV symbol lists and anything else.
+ *
+ * normalizeSector is applied in mergeFundamentals, so results always carry a
+ * canonical sector and the sector filter compares like with like.
+ */
+
+export type Sector =
+  | 'Technology'
+  | 'Biotech'
+  | 'Healthcare'
+  | 'Energy'
+  | 'Defense'
+  | 'Finance'
+  | 'Consumer'
+  | 'Retail'
+  | 'Industrial'
+  | 'Materials'
+  | 'Communications'
+  | 'Utilities'
+  | 'Real Estate'
+  | 'Crypto'
+  | 'ETF';
+
+export interface SectorDefinition {
+  name: Sector;
+  industries: string[];
+}
+
+export const SECTOR_TAXONOMY: SectorDefinition[] = [
+  { name: 'Technology', industries: ['Software', 'Semiconductors', 'Hardware', 'IT Services', 'Electronic Equipment'] },
+  { name: 'Biotech', industries: ['Biotechnology', 'Pharmaceuticals', 'Life Sciences Tools'] },
+  { name: 'Healthcare', industries: ['Health Care Providers', 'Medical Devices', 'Health Care Services'] },
+  { name: 'Energy', industries: ['Oil & Gas', 'Renewable Energy', 'Energy Equipment'] },
+  { name: 'Defense', industries: ['Aerospace & Defense'] },
+  { name: 'Finance', industries: ['Banking', 'Insurance', 'Capital Markets', 'Financial Services'] },
+  { name: 'Consumer', industries: ['Automobiles', 'Auto Components', 'Food & Beverage', 'Household Products', 'Leisure', 'Hotels & Restaurants', 'Apparel', 'Tobacco'] },
+  { name: 'Retail', industries: ['Retail', 'Distributors', 'E-Commerce'] },
+  { name: 'Industrial', industries: ['Machinery', 'Electrical Equipment', 'Construction', 'Transportation', 'Airlines', 'Commercial Services', 'Conglomerates'] },
+  { name: 'Materials', industries: ['Chemicals', 'Metals & Mining', 'Packaging', 'Paper & Forest'] },
+  { name: 'Communications', industries: ['Media', 'Telecommunication', 'Entertainment'] },
+  { name: 'Utilities', industries: ['Utilities'] },
+  { name: 'Real Estate', industries: ['Real Estate', 'REITs'] },
+  { name: 'Crypto', industries: ['Crypto Mining', 'Crypto Exchanges'] },
+  { name: 'ETF', industries: ['Index ETF', 'Leveraged ETF'] },
+];
+
+export const SECTORS: Sector[] = SECTOR_TAXONOMY.map(s => s.name);
+
+export interface SectorMapping {
+  sector: Sector;
+  industry: string | null;
+}
+
+/**
+ * Finnhub profile2 finnhubIndustry values
+ */
+const FINNHUB_INDUSTRIES: Record<string, SectorMapping> = {
+  'aerospace & defense': { sector: 'Defense', industry: 'Aerospace & Defense' },
+  'airlines': { sector: 'Industrial', industry: 'Airlines' },
+  'auto components': { sector: 'Consumer', industry: 'Auto Components' },
+  'automobiles': { sector: 'Consumer', industry: 'Automobiles' },
+  'banking': { sector: 'Finance', industry: 'Banking' },
+  'beverages': { sector: 'Consumer', industry: 'Food & Beverage' },
+  'biotechnology': { sector: 'Biotech', industry: 'Biotechnology' },
+  'building': { sector: 'Industrial', industry: 'Construction' },
+  'chemicals': { sector: 'Materials', industry: 'Chemicals' },
+  'commercial services & supplies': { sector: 'Industrial', industry: 'Commercial Services' },
+  'communications': { sector: 'Communications', industry: 'Telecommunication' },
+  'construction': { sector: 'Industrial', industry: 'Construction' },
+  'consumer products': { sector: 'Consumer', industry: 'Household Products' },
+  'distributors': { sector: 'Retail', industry: 'Distributors' },
+  'diversified consumer services': { sector: 'Consumer', industry: 'Leisure' },
+  'electrical equipment': { sector: 'Industrial', industry: 'Electrical Equipment' },
+  'energy': { sector: 'Energy', industry: 'Oil & Gas' },
+  'financial services': { sector: 'Finance', industry: 'Financial Services' },
+  'food products': { sector: 'Consumer', industry: 'Food & Beverage' },
+  'health care': { sector: 'Healthcare', industry: 'Health Care Services' },
+  'hotels, restaurants & leisure': { sector: 'Consumer', industry: 'Hotels & Restaurants' },
+  'industrial conglomerates': { sector: 'Industrial', industry: 'Conglomerates' },
+  'insurance': { sector: 'Finance', industry: 'Insurance' },
+  'leisure products': { sector: 'Consumer', industry: 'Leisure' },
+  'life sciences tools & services': { sector: 'Biotech', industry: 'Life Sciences Tools' },
+  'logistics & transportation': { sector: 'Industrial', industry: 'Transportation' },
+  'machinery': { sector: 'Industrial', industry: 'Machinery' },
+  'marine': { sector: 'Industrial', industry: 'Transportation' },
+  'media': { sector: 'Communications', industry: 'Media' },
+  'metals & mining': { sector: 'Materials', industry: 'Metals & Mining' },
+  'packaging': { sector: 'Materials', industry: 'Packaging' },
+  'paper & forest': { sector: 'Materials', industry: 'Paper & Forest' },
+  'pharmaceuticals': { sector: 'Biotech', industry: 'Pharmaceuticals' },
+  'professional services': { sector: 'Industrial', industry: 'Commercial Services' },
+  'real estate': { sector: 'Real Estate', industry: 'Real Estate' },
+  'retail': { sector: 'Retail', industry: 'Retail' },
+  'road & rail': { sector: 'Industrial', industry: 'Transportation' },
+  'semiconductors': { sector: 'Technology', industry: 'Semiconductors' },
+  'technology': { sector: 'Technology', industry: 'Software' },
+  'telecommunication': { sector: 'Communications', industry: 'Telecommunication' },
+  'textiles, apparel & luxury goods': { sector: 'Consumer', industry: 'Apparel' },
+  'tobacco': { sector: 'Consumer', industry: 'Tobacco' },
+  'trading companies & distributors': { sector: 'Industrial', industry: 'Commercial Services' },
+  'transportation infrastructure': { sector: 'Industrial', industry: 'Transportation' },
+  'utilities': { sector: 'Utilities', industry: 'Utilities' },
+};
+
+/**
+ * Mapping table per provider id; providers without one use the generic aliases only
+ */
+const PROVIDER_SECTOR_MAPS: Record<string, Record<string, SectorMapping>> = {
+  'finnhub-fundamentals': FINNHUB_INDUSTRIES,
+};
+
+/**
+ * Generic names (GICS sectors, common abbreviations) for any source
+ */
+const SECTOR_ALIASES: Record<string, Sector> = {
+  'tech': 'Technology',
+  'information technology': 'Technology',
+  'biotechnology': 'Biotech',
+  'health care': 'Healthcare',
+  'financials': 'Finance',
+  'financial': 'Finance',
+  'consumer discretionary': 'Consumer',
+  'consumer staples': 'Consumer',
+  'consumer cyclical': 'Consumer',
+  'consumer defensive': 'Consumer',
+  'industrials': 'Industrial',
+  'basic materials': 'Materials',
+  'communication services': 'Communications',
+  'telecommunications': 'Communications',
+  'utility': 'Utilities',
+  'realestate': 'Real Estate',
+  'reit': 'Real Estate',
+  'aerospace & defense': 'Defense',
+  'cryptocurrency': 'Crypto',
+  'etfs': 'ETF',
+  'fund': 'ETF',
+};
+
+const CANONICAL_BY_KEY = new Map<string, Sector>(SECTORS.map(s => [s.toLowerCase(), s]));
+
+const INDUSTRY_TO_SECTOR = new Map<string, SectorMapping>(
+  SECTOR_TAXONOMY.flatMap(def => def.industries.map(industry => [industry.toLowerCase(), { sector: def.name, industry }] as const)),
+);
+
+/**
+ * Map a provider's sector or industry string onto the canonical taxonomy
+ * Returns null for empty or unrecognized values (e.g. Finnhub's "N/A").
+ *
+ * @param raw - Sector or industry as reported
+ * @param source - Provider id, to use its mapping table first
+ */
+export function normalizeSector(raw: string | null | undefined, source?: string): SectorMapping | null {
+  if (raw == null) return null;
+  const key = raw.trim().toLowerCase();
+  if (key === '') return null;
+
+  const fromProvider = source ? PROVIDER_SECTOR_MAPS[source]?.[key] : undefined;
+  if (fromProvider) return fromProvider;
+
+  const canonical = CANONICAL_BY_KEY.get(key) ?? SECTOR_ALIASES[key];
+  if (canonical) return { sector: canonical, industry: null };
+
+  return INDUSTRY_TO_SECTOR.get(key) ?? null;
+}
+
+/**
+ * Canonical sector name for a raw value, or the value unchanged when it is not recognized
+ */
+export function canonicalSector(raw: string): string {
+  return normalizeSector(raw)?.sector ?? raw;
+}
@@ -0,0 +1,154 @@
+/**
+ * Market Sessions
+ *
+ * US equities trade in three sessions, in New York time: pre-market
+ * 04:00–09:30, regular 09:30–16:00 and after-hours 16:00–20:00. Results are
+ * labelled with the session their scan ran in, and intraday bars that include
+ * extended hours give the session-aware figures:
+ * - gap: the regular open (before the open, the latest pre-market price)
+ *   versus the last regular close
+ * - pre-market and after-hours volume, summed over the bars in each session
+ * - extended change: the pre-market price versus the previous close, or the
+ *   after-hours price versus the regular close
+ *
+ * Quote sources that only report the regular session (Finnhub /quote) keep
+ * the previous day's price before the open; the extended-hours scan mode scores
+ * the extended change instead. Session boundaries, holidays and early closes
+ * come from the market calendar.
+ */
+
+import { getMarketSession, getSessionTimes, newYorkClock, previousTradingDay } from './marketCalendar.ts';
+import type { Candle } from './providers.ts';
+import type { RawQuote } from './quotes.ts';
+import type { MarketSession } from './types.ts';
+
+/**
+ * A gap at least this large (either direction) tags the result and qualifies for the gappers preset
+ */
+export const GAPPER_MIN_PERCENT = 4;
+
+export const MARKET_SESSION_LABELS: Record<MarketSession, string> = {
+  'pre-market': 'Pre-Market',
+  'regular': 'Regular Hours',
+  'after-hours': 'After Hours',
+  'closed': 'Closed',
+};
+
+export const MARKET_SESSION_SHORT_LABELS: Record<MarketSession, string> = {
+  'pre-market': 'PRE',
+  'regular': 'RTH',
+  'after-hours': 'AH',
+  'closed': 'CLOSED',
+};
+
+export interface SessionMetrics {
+  session: MarketSession;                // Session at scan time
+  gapPercent: number | null;             // Regular open (or latest pre-market price) vs last regular close
+  preMarketVolume: number | null;        // Current trading day's pre-market bars
+  afterHoursVolume: number | null;       // Current trading day's after-hours bars
+  extendedChangePercent: number | null;  // Only during pre-market and after-hours
+}
+
+function percentChange(price: number | null | undefined, reference: number | null | undefined): number | null {
+  if (price == null || reference == null || reference === 0) return null;
+  return ((price - reference) / reference) * 100;
+}
+
+function sumVolume(bars: Candle[]): number | null {
+  return bars.length > 0 ? bars.reduce((sum, c) => sum + c.volume, 0) : null;
+}
+
+/**
+ * Trading day the session figures describe: today once its pre-market has
+ * opened, otherwise (overnight, weekends, holidays) the previous trading day
+ */
+function sessionTradingDay(now: number): string {
+  const { date, minutes } = newYorkClock(now);
+  const times = getSessionTimes(date);
+  return times && minutes >= times.preMarketOpen ? date : previousTradingDay(date);
+}
+
+/**
+ * Quote timestamps are Unix seconds or ms depending on the source
+ */
+function quoteTimeMs(timestamp: number | null): number | null {
+  if (timestamp == null) return null;
+  return timestamp < 1e12 ? timestamp * 1000 : timestamp;
+}
+
+/**
+ * Whether a quote is from the current trading day (today once its pre-market has
+ * opened); a quote without a timestamp is taken to have rolled over
+ */
+export function isCurrentSessionQuote(quote: RawQuote, now: number = Date.now()): boolean {
+  const quoteTime = quoteTimeMs(quote.timestamp);
+  return quoteTime == null || newYorkClock(quoteTime).date === sessionTradingDay(now);
+}
+
+/**
+ * Session-aware gap, extended-hours volume and extended change for one ticker
+ *
+ * Only bars of the current trading day are used, so early in the pre-market
+ * (before today has bars) nothing of yesterday's pre-market leaks in. Before
+ * the open the gap is measured against the last regular close: the previous
+ * day's last regular bar, or the quote itself when it has not rolled over to
+ * today yet (its prevClose is then two sessions old).
+ *
+ * @param input.quote - Merged quote
+ * @param input.intraday - Intraday bars, oldest first, ideally including extended hours
+ * @param input.now - Scan time
+ */
+export function computeSessionMetrics(input: { quote: RawQuote; intraday: Candle[]; now?: number }): SessionMetrics {
+  const { quote, intraday, now = Date.now() } = input;
+  const session = getMarketSession(now);
+  const tradingDay = sessionTradingDay(now);
+  const previousDay = previousTradingDay(tradingDay);
+
+  const bySession: Record<MarketSession, Candle[]> = { 'pre-market': [], 'regular': [], 'after-hours': [], 'closed': [] };
+  let lastRegularClose: number | null = null; // Previous trading day
+  for (const bar of intraday) {
+    const barSession = getMarketSession(bar.timestamp);
+    const barDay = newYorkClock(bar.timestamp).date;
+    if (barDay === tradingDay) bySession[barSession].push(bar);
+    else if (barDay === previousDay && barSession === 'regular') lastRegularClose = bar.close;
+  }
+  const pre = bySession['pre-market'];
+  const regular = bySession['regular'];
+  const after = bySession['after-hours'];
+
+  // A quote from before today still carries the last regular close as its price
+  const quoteIsStale = !isCurrentSessionQuote(quote, now);
+
+  let gapPercent: number | null;
+  let extendedChangePercent: number | null = null;
+  if (session === 'pre-market') {
+    const preMarketPrice = pre.length > 0 ? pre[pre.length - 1].close : quoteIsStale ? null : quote.price;
+    const lastClose = lastRegularClose ?? (quoteIsStale ? quote.price : quote.prevClose);
+    gapPercent = percentChange(preMarketPrice, lastClose);
+    extendedChangePercent = gapPercent;
+  } else {
+    gapPercent = percentChange(quote.open ?? regular[0]?.open ?? quote.price, quote.prevClose);
+  }
+
+  if (session === 'after-hours') {
+    const regularClose = regular.length > 0 ? regular[regular.length - 1].close : null;
+    extendedChangePercent = percentChange(after.length > 0 ? after[after.length - 1].close : quote.price, regularClose);
+  }
+
+  return {
+    session,
+    gapPercent,
+    preMarketVolume: sumVolume(pre),
+    afterHoursVolume: sumVolume(after),
+    extendedChangePercent,
+  };
+}
+
+/**
+ * 'Gap Up' / 'Gap Down' when the gap reaches GAPPER_MIN_PERCENT
+ */
+export function deriveSessionTags(metrics: Pick<SessionMetrics, 'gapPercent'> | null | undefined): string[] {
+  const gap = metrics?.gapPercent;
+  if (gap == null || Math.abs(gap) < GAPPER_MIN_PERCENT) return [];
+  return [gap > 0 ? 'Gap Up' : 'Gap Down'];
+}
@@ -0,0 +1,102 @@
+/**
+ * Short Squeeze Metrics
+ *
+ * Short interest, days-to-cover and borrow fee from the fundamentals
+ * providers, combined with the free float into the "squeeze" sub-score and
+ * the "Squeeze Setup" tag.
+ */
+
+import type { FundamentalSnapshot } from './providers.ts';
+import type { FieldProvenance, ScoreDriver } from './types.ts';
+
+export interface SqueezeMetrics {
+  float: number | null; // Null when the float was only guessed from market cap
+  sharesOutstanding: number | null;
+  shortInterest: number | null;
+  shortPercentOfFloat: number | null;
+  daysToCover: number | null;
+  borrowFeePercent: number | null;
+}
+
+/**
+ * Thresholds for the "Squeeze Setup" tag
+ */
+export const SQUEEZE_SETUP_THRESHOLDS = {
+  shortPercentOfFloat: 20, // Percent
+  daysToCover: 3,
+  borrowFeePercent: 20,    // Annualized percent; can stand in for days-to-cover
+  lowFloat: 20_000_000,    // Shares
+};
+
+function positive(value: number | null | undefined): number | null {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0 ? value : null;
+}
+
+/**
+ * Collect the short-side fields for a ticker
+ * Short percent of float is only derived from a float that came from a source
+ * (or from shares outstanding), never from the market-cap guess.
+ *
+ * @param fundamentals - Merged fundamentals (see mergeFundamentals)
+ * @param float - Float chosen by resolveResultFields
+ * @param floatProvenance - Provenance of that float
+ */
+export function buildSqueezeMetrics(
+  fundamentals: FundamentalSnapshot | undefined,
+  float: number,
+  floatProvenance?: FieldProvenance,
+): SqueezeMetrics {
+  const usableFloat = floatProvenance?.estimated && fundamentals?.sharesOutstanding == null ? null : positive(float);
+  const shortInterest = positive(fundamentals?.shortInterest);
+
+  return {
+    float: usableFloat,
+    sharesOutstanding: positive(fundamentals?.sharesOutstanding),
+    shortInterest,
+    shortPercentOfFloat: shortInterest != null && usableFloat != null ? (shortInterest / usableFloat) * 100 : null,
+    daysToCover: positive(fundamentals?.daysToCover),
+    borrowFeePercent: positive(fundamentals?.borrowFeePercent),
+  };
+}
+
+/**
+ * True when any short-side data is present, i.e. a squeeze sub-score can be computed
+ */
+export function hasSqueezeData(metrics: SqueezeMetrics): boolean {
+  return metrics.shortPercentOfFloat != null || metrics.daysToCover != null || metrics.borrowFeePercent != null;
+}
+
+/**
+ * Heavily shorted and hard to cover: short interest above the threshold plus
+ * either long days-to-cover or an expensive borrow
+ */
+export function isSqueezeSetup(metrics: SqueezeMetrics): boolean {
+  const t = SQUEEZE_SETUP_THRESHOLDS;
+  if (metrics.shortPercentOfFloat == null || metrics.shortPercentOfFloat < t.shortPercentOfFloat) return false;
+  return (metrics.daysToCover != null && metrics.daysToCover >= t.daysToCover)
+    || (metrics.borrowFeePercent != null && metrics.borrowFeePercent >= t.borrowFeePercent);
+}
+
+/**
+ * Drivers of the squeeze sub-score (0-100)
+ * - short % of float: up to 40 points (saturates at 20%)
+ * - days to cover: up to 25 points (saturates at 5 days)
+ * - borrow fee: up to 20 points (saturates at 20%)
+ * - low float: 15 points under 20M shares, 8 under 50M
+ */
+export function deriveSqueezeDrivers(metrics: SqueezeMetrics): ScoreDriver[] {
+  const drivers: ScoreDriver[] = [];
+  if (metrics.shortPercentOfFloat != null) {
+    drivers.push({ indicator: 'shortPercentOfFloat', value: metrics.shortPercentOfFloat, points: Math.min(40, metrics.shortPercentOfFloat * 2) });
+  }
+  if (metrics.daysToCover != null) {
+    drivers.push({ indicator: 'daysToCover', value: metrics.daysToCover, points: Math.min(25, metrics.daysToCover * 5) });
+  }
+  if (metrics.borrowFeePercent != null) {
+    drivers.push({ indicator: 'borrowFeePercent', value: metrics.borrowFeePercent, points: Math.min(20, metrics.borrowFeePercent) });
+  }
+  if (metrics.float != null && metrics.float < 50_000_000) {
+    drivers.push({ indicator: 'lowFloat', value: metrics.float, points: metrics.float < SQUEEZE_SETUP_THRESHOLDS.lowFloat ? 15 : 8 });
+  }
+  return drivers;
+}
@@ -0,0 +1,298 @@
+/**
+ * Core Scan Types
+ *
+ * Shared between the Vite app (src/lib) and the live-scan edge function.
+ * This module must stay runtime-agnostic: no Deno, Node or DOM globals.
+ */
+
+export type ScanMode = 'unified' | 'extended-hours';
+export type MomentumGrade = 'A' | 'B' | 'C' | 'D';
+export type Sentiment = 'Long' | 'Short' | 'Neutral';
+export type RiskLevel = 'Low' | 'Medium' | 'High';
+export type MarketCapRange = 'micro' | 'small' | 'mid' | 'large' | 'any';
+export type CapBucket = Exclude<MarketCapRange, 'any'>;
+export type VolatilityMethod = 'dailyChange' | 'atr' | 'historical';
+
+/**
+ * Trading session in New York time (see session.ts)
+ */
+export type MarketSession = 'pre-market' | 'regular' | 'after-hours' | 'closed';
+
+export interface ScoreBreakdown {
+  catalysts: number;
+  momentum: number;
+  structure: number;
+  sentiment: number;
+  squeeze?: number; // Only when short interest, days-to-cover or borrow fee data was available
+}
+
+/**
+ * Weight of every sub-score, including the optional ones
+ */
+export type ScoringWeights = Record<keyof ScoreBreakdown, number>;
+
+/**
+ * Indicator values for one ticker; null when there was not enough history
+ */
+export interface TechnicalIndicators {
+  rsi14: number | null;
+  vwapDistancePercent: number | null; // Price vs intraday VWAP
+  gapPercent: number | null; // Session open vs prior close
+  relativeVolume: number | null; // Current volume / 20-day average
+  percentOf52WeekHigh: number | null;
+  rangePercent10d: number | null; // High-low range of the prior 10 sessions, % of price
+  consolidating: boolean;
+  breakout: boolean;
+  atrPercent: number | null;
+  historicalVolatility: number | null;
+}
+
+/**
+ * One input that moved a sub-score, with the points it contributed
+ */
+export interface ScoreDriver {
+  indicator: string; // e.g. 'rsi14', 'relativeVolume', 'changePercent'
+  value: number | boolean;
+  points: number;
+}
+
+export type ScoreDrivers = { [K in keyof ScoreBreakdown]: ScoreDriver[] };
+
+/**
+ * Scoring Model - weights that combine the sub-scores into explosivePotential
+ * The version increases every time the weights are edited, so results can be
+ * traced back to the exact weights that produced them.
+ */
+export interface ScoringModel {
+  id: string;
+  name: string;
+  version: number;
+  weights: ScoringWeights; // Relative weights; normalized by their sum when scoring
+  biotechEventBonus?: BiotechEventBonus; // Defaults to DEFAULT_BIOTECH_EVENT_BONUS
+}
+
+/**
+ * Catalysts points for a binary biotech event (PDUFA, AdCom, readout) within a window
+ */
+export interface BiotechEventBonus {
+  points: number;     // 0-50
+  withinDays: number; // Calendar days ahead
+}
+
+/**
+ * Compact reference to the model that scored a result
+ */
+export interface ScoringModelRef {
+  id: string;
+  name: string;
+  version: number;
+}
+
+/**
+ * Weights of the cheap stage-1 pre-score used to pick names for deep enrichment
+ */
+export interface PreScoreWeights {
+  change: number;         // Absolute percent move on the day
+  volume: number;         // Raw share volume (log-scaled)
+  relativeVolume: number; // Volume versus the last known daily volume
+}
+
+/**
+ * Stage-2 selection: how many top pre-scored names get fundamentals, news and candles
+ */
+export interface PreScreenSettings {
+  topN: number;
+  weights: PreScoreWeights;
+}
+
+/**
+ * Names handled by each stage of a live scan
+ */
+export interface ScanStageCounts {
+  universe: number; // Tickers sent to the bulk snapshot
+  snapshot: number; // Tickers with a usable price and change
+  enriched: number; // Top pre-scored tickers that got fundamentals, news and candles
+  results: number;  // Results returned after filtering
+}
+
+export interface ScanFilters {
+  marketCap: MarketCapRange;
+  minPrice?: number;
+  maxPrice?: number;
+  minVolume?: number;
+  minRelativeVolume?: number; // Volume / 20-day average, e.g. 2 = twice normal
+  sectors: string[];
+  highVolatilityOnly?: boolean;
+  volatilityMethod?: VolatilityMethod;
+  volatilityThreshold?: number; // Percent; defaults depend on the method
+  earningsWithinDays?: number;  // Only names reporting earnings within this many days (0 = today)
+  minGapPercent?: number;       // Absolute gap vs the previous close, percent (either direction)
+  minPreMarketVolume?: number;  // Shares traded in the latest pre-market session
+}
+
+export interface ScanRequest {
+  mode: ScanMode;
+  filters: ScanFilters;
+  scoringModel?: ScoringModel; // Defaults to DEFAULT_SCORING_MODEL
+  universeId?: string; // Custom universe the tickers came from, for logging
+  tickers?: string[]; // Explicit universe; replaces the default symbol universe when non-empty
+  preScreen?: Partial<PreScreenSettings>; // Defaults to DEFAULT_PRESCREEN
+  notes?: string;
+}
+
+/**
+ * ScanResult fields whose origin is tracked
+ */
+export type ProvenanceField = 'price' | 'volume' | 'marketCap' | 'float' | 'sector';
+
+/**
+ * Where one ScanResult value came from
+ */
+export interface FieldProvenance {
+  source: string;        // Provider id ('finnhub', 'massive', ...), 'universe' (symbol list metadata) or 'default'
+  asOf: string | null;   // ISO time the value was observed, when the source reports it
+  ageMs: number | null;  // Age at scan time
+  estimated: boolean;    // Filled in by a fallback rather than reported by a source
+  stale: boolean;        // Older than the staleness threshold for the field
+  note?: string;         // How an estimate was derived
+}
+
+export type ScanResultProvenance = Partial<Record<ProvenanceField, FieldProvenance>>;
+
+/**
+ * When an earnings report is released relative to the regular session
+ */
+export type EarningsTime = 'before-open' | 'after-close' | 'during-hours';
+
+/**
+ * The next scheduled earnings report for a result
+ */
+export interface UpcomingEarnings {
+  date: string;      // YYYY-MM-DD
+  time: EarningsTime | null;
+  daysUntil: number; // Calendar days from the scan date (0 = today)
+  epsEstimate: number | null;
+  revenueEstimate: number | null;
+  source: string;
+}
+
+/**
+ * Binary biotech events: FDA action (PDUFA) date, FDA advisory committee meeting, clinical trial readout
+ */
+export type BiotechEventType = 'pdufa' | 'adcom' | 'readout';
+
+/**
+ * The next scheduled biotech event for a result
+ */
+export interface NextBiotechEvent {
+  type: BiotechEventType;
+  date: string;      // YYYY-MM-DD
+  daysUntil: number; // Calendar days from the scan date (0 = today)
+  drug?: string;
+  indication?: string;
+  phase?: string;    // Trial phase for readouts, e.g. '3'
+  source: string;
+}
+
+/**
+ * What a recent SEC filing signals: an offering or shelf registration
+ * (dilution), an open-market insider purchase or sale (Form 4), or a material
+ * 8-K event
+ */
+export type FilingSignalType = 'dilution' | 'insider-buy' | 'insider-sell' | 'material-event';
+
+/**
+ * One classified filing (an 8-K with several items yields one signal per item)
+ */
+export interface FilingSignal {
+  type: FilingSignalType;
+  formType: string;  // As filed, e.g. '8-K', '424B5', '4'
+  filedAt: string;   // ISO string
+  label: string;     // e.g. 'Shelf registration', 'Departure of officers (8-K 5.02)'
+  severe: boolean;   // Raises the risk level (offerings, bankruptcy, delisting, restatement)
+  url?: string;
+  source: string;
+}
+
+/**
+ * Recent filings for a result, classified (see filings.ts)
+ */
+export interface FilingsSummary {
+  dilutionRisk: boolean;
+  insiderBuying: boolean;
+  insiderSelling: boolean;
+  signals: FilingSignal[]; // Newest first
+}
+
+/**
+ * One story in a result's news timeline (duplicate reports collapsed)
+ */
+export interface NewsEntry {
+  headline: string;
+  url: string;
+  datetime: string;  // ISO string, earliest report
+  sources: string[]; // News providers that carried the story
+  category?: string;
+  sentiment: number; // -1..1
+  relevance: number; // 0..1, how clearly the story is about the ticker
+  catalystTypes: string[];
+}
+
+export interface ScanResult {
+  ticker: string;
+  companyName: string;
+  // Company profile (when a fundamentals source supplies it)
+  exchange?: string;
+  logoUrl?: string;
+  website?: string;
+  ipoDate?: string; // YYYY-MM-DD
+  price: number;
+  changePercent: number;
+  volume: number;
+  relativeVolume?: number; // Volume / 20-day average (when bar history is available)
+  // Session-aware figures from extended-hours bars (see session.ts)
+  session?: MarketSession;        // Session the scan ran in
+  gapPercent?: number;            // Regular open (or latest pre-market price) vs previous close
+  preMarketVolume?: number;
+  afterHoursVolume?: number;
+  extendedChangePercent?: number; // Pre-market vs previous close, or after-hours vs regular close
+  marketCap: number;
+  float: number; // Free float in shares
+  sector: string;    // Canonical sector (see sectors.ts), or 'Unknown'
+  industry?: string; // Canonical industry within the sector, when known
+  // Short-side data (when a fundamentals source supplies it)
+  sharesOutstanding?: number;
+  shortInterest?: number;       // Shares sold short at the last settlement
+  shortPercentOfFloat?: number; // shortInterest / float, percent
+  daysToCover?: number;         // shortInterest / average daily volume
+  borrowFeePercent?: number;    // Annualized cost to borrow
+  scanMode: ScanMode;
+  catalystSummary: string;
+  momentumGrade: MomentumGrade;
+  explosivePotential: number;
+  scoreBreakdown: ScoreBreakdown;
+  scoringModel?: ScoringModelRef;
+  sentiment: Sentiment;
+  riskLevel: RiskLevel;
+  riskNotes: string;
+  whyItMightMove: string;
+  tags: string[];
+  // Volatility metrics from daily bars (when available)
+  atrPercent?: number;
+  historicalVolatility?: number; // Annualized, percent
+  // Indicator values and the inputs behind each sub-score (live mode)
+  indicators?: TechnicalIndicators;
+  scoreDrivers?: ScoreDrivers;
+  // Optional news/catalyst fields (populated in live mode)
+  primaryNewsHeadline?: string;
+  primaryNewsUrl?: string;
+  primaryNewsDatetime?: string; // ISO string, earliest report of the story
+  primaryNewsSources?: string[]; // News providers that carried the story
+  news?: NewsEntry[]; // Recent stories, newest first (see buildNewsTimeline)
+  earnings?: UpcomingEarnings; // Next report within the earnings lookahead
+  biotechEvent?: NextBiotechEvent; // Next binary event from the biotech calendar
+  filings?: FilingsSummary; // Recent SEC filings: offerings, insider trades, material 8-K events
+  // Source, age and estimate flags for price, volume, marketCap, float and sector
+  provenance?: ScanResultProvenance;
+}
+
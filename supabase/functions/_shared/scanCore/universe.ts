@@ -0,0 +1,343 @@
+import type { DroppedTicker } from './response.ts';
+import { canonicalSector } from './sectors.ts';
+import type { CapBucket, ScanFilters, ScanRequest } from './types.ts';
+
+/**
+ * Ticker Universe Module
+ * 
+ * Manages the universe of tickers for live scans. The curated list below is the
+ * seed; full exchange symbol lists (Finnhub /stock/symbol, a local CSV snapshot,
+ * bulk daily snapshots) can be merged on top of it and cached between scans.
+ * 
+ * Selection is a cheap first pass over last known metadata only: cap bucket,
+ * price and sector narrow the list, last known volume ranks it, and the result
+ * is bounded so the per-ticker quote calls stay within rate limits. Explicit
+ * ticker lists (custom universes) skip the ranking and keep their order.
+ */
+
+export interface TickerMeta {
+  symbol: string;
+  sector?: string;
+  capBucket?: CapBucket;
+  name?: string;
+  exchange?: string;
+  lastPrice?: number;  // Last known close, for price pre-filtering
+  lastVolume?: number; // Last known daily volume, for ranking
+}
+
+/**
+ * Default number of names handed to the per-ticker quote stage
+ */
+export const DEFAULT_UNIVERSE_LIMIT = 40;
+
+/**
+ * Most names an explicit ticker list (a custom universe) may hand to the quote
+ * stage; the rest are reported as dropped rather than scanned
+ */
+export const MAX_CUSTOM_UNIVERSE_SIZE = 200;
+
+/**
+ * Default lifetime of a cached symbol list (12 hours)
+ */
+export const DEFAULT_UNIVERSE_TTL_MS = 12 * 60 * 60 * 1000;
+
+/**
+ * Curated universe of tickers tuned for volatility and detonation-style moves.
+ * Focus on high-beta, story-driven names across various sectors and cap sizes.
+ */
+export const TICKER_UNIVERSE: TickerMeta[] = [
+  // Large-cap/high beta tech
+  { symbol: 'AAPL', sector: 'Technology', capBucket: 'large' },
+  { symbol: 'MSFT', sector: 'Technology', capBucket: 'large' },
+  { symbol: 'GOOGL', sector: 'Technology', capBucket: 'large' },
+  { symbol: 'AMZN', sector: 'Technology', capBucket: 'large' },
+  { symbol: 'META', sector: 'Technology', capBucket: 'large' },
+  { symbol: 'TSLA', sector: 'Consumer', capBucket: 'large' },
+  { symbol: 'NVDA', sector: 'Technology', capBucket: 'large' },
+  { symbol: 'AMD', sector: 'Technology', capBucket: 'large' },
+  { symbol: 'AVGO', sector: 'Technology', capBucket: 'large' },
+
+  // Mid-cap tech/volatile
+  { symbol: 'SMCI', sector: 'Technology', capBucket: 'mid' },
+  { symbol: 'PLTR', sector: 'Technology', capBucket: 'mid' },
+  { symbol: 'ARM', sector: 'Technology', capBucket: 'mid' },
+  { symbol: 'AI', sector: 'Technology', capBucket: 'mid' },
+
+  // Leveraged ETFs / volatility products
+  { symbol: 'TQQQ', sector: 'ETF', capBucket: 'mid' },
+  { symbol: 'SOXL', sector: 'ETF', capBucket: 'mid' },
+  { symbol: 'IWM', sector: 'ETF', capBucket: 'large' },
+  { symbol: 'SPY', sector: 'ETF', capBucket: 'large' },
+  { symbol: 'QQQ', sector: 'ETF', capBucket: 'large' },
+
+  // Crypto miners / blockchain
+  { symbol: 'RIOT', sector: 'Crypto', capBucket: 'small' },
+  { symbol: 'MARA', sector: 'Crypto', capBucket: 'small' },
+  { symbol: 'CLSK', sector: 'Crypto', capBucket: 'small' },
+
+  // Small-cap tech/speculative
+  { symbol: 'IONQ', sector: 'Technology', capBucket: 'small' },
+  { symbol: 'DNA', sector: 'Biotech', capBucket: 'small' },
+  { symbol: 'JOBY', sector: 'Industrial', capBucket: 'small' },
+  { symbol: 'ASTS', sector: 'Communications', capBucket: 'small' },
+  { symbol: 'SOUN', sector: 'Technology', capBucket: 'small' },
+  { symbol: 'PLUG', sector: 'Energy', capBucket: 'small' },
+
+  // Meme / high short-interest names
+  { symbol: 'GME', sector: 'Consumer', capBucket: 'mid' },
+  { symbol: 'AMC', sector: 'Consumer', capBucket: 'mid' },
+  { symbol: 'CVNA', sector: 'Consumer', capBucket: 'mid' },
+
+  // Micro-cap volatility plays
+  { symbol: 'FFIE', sector: 'Consumer', capBucket: 'micro' },
+  { symbol: 'HUDI', sector: 'Industrial', capBucket: 'micro' },
+  
+  // Biotech small/mid caps
+  { symbol: 'MRNA', sector: 'Biotech', capBucket: 'mid' },
+  { symbol: 'CRSP', sector: 'Biotech', capBucket: 'small' },
+  { symbol: 'RXRX', sector: 'Biotech', capBucket: 'small' },
+];
+
+const CAP_BUCKETS: CapBucket[] = ['micro', 'small', 'mid', 'large'];
+
+/**
+ * Unknown metadata never excludes a ticker; the full filters run again on live data.
+ */
+function matchesMarketCap(filters: ScanFilters, meta: TickerMeta): boolean {
+  if (filters.marketCap === 'any' || meta.capBucket == null) return true;
+  return filters.marketCap === meta.capBucket;
+}
+
+function matchesSector(filters: ScanFilters, meta: TickerMeta): boolean {
+  if (!filters.sectors || filters.sectors.length === 0 || meta.sector == null) return true;
+  return filters.sectors.includes(canonicalSector(meta.sector));
+}
+
+function matchesPrice(filters: ScanFilters, meta: TickerMeta): boolean {
+  if (meta.lastPrice == null) return true;
+  if (filters.minPrice != null && meta.lastPrice < filters.minPrice) return false;
+  if (filters.maxPrice != null && meta.lastPrice > filters.maxPrice) return false;
+  return true;
+}
+
+function parseOptionalNumber(value: string | undefined): number | undefined {
+  if (value == null || value.trim() === '') return undefined;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : undefined;
+}
+
+/**
+ * Split one CSV line, honoring double-quoted fields
+ */
+export function splitCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let current = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quoted) {
+      if (ch === '"' && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        current += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ',') {
+      fields.push(current.trim());
+      current = '';
+    } else {
+      current += ch;
+    }
+  }
+  fields.push(current.trim());
+  return fields;
+}
+
+/**
+ * Parse a symbol list CSV snapshot
+ * 
+ * The first line is a header. Recognized columns (case-insensitive): symbol
+ * (or ticker), name, exchange, sector, capBucket, lastPrice, lastVolume. Only
+ * symbol is required; unknown columns are ignored.
+ */
+export function parseSymbolCsv(text: string): TickerMeta[] {
+  const lines = text.split(/\r?\n/).filter(line => line.trim() !== '' && !line.startsWith('#'));
+  if (lines.length === 0) return [];
+
+  const header = splitCsvLine(lines[0]).map(h => h.toLowerCase());
+  const col = (name: string) => header.indexOf(name.toLowerCase());
+  const idx = {
+    symbol: col('symbol') >= 0 ? col('symbol') : col('ticker'),
+    name: col('name'),
+    exchange: col('exchange'),
+    sector: col('sector'),
+    capBucket: col('capBucket'),
+    lastPrice: col('lastPrice'),
+    lastVolume: col('lastVolume'),
+  };
+  if (idx.symbol < 0) return [];
+
+  const symbols: TickerMeta[] = [];
+  for (const line of lines.slice(1)) {
+    const fields = splitCsvLine(line);
+    const field = (i: number) => (i >= 0 && fields[i] ? fields[i] : undefined);
+
+    const symbol = field(idx.symbol)?.toUpperCase();
+    if (!symbol) continue;
+
+    const capBucket = field(idx.capBucket)?.toLowerCase() as CapBucket | undefined;
+    symbols.push({
+      symbol,
+      name: field(idx.name),
+      exchange: field(idx.exchange),
+      sector: field(idx.sector),
+      capBucket: capBucket && CAP_BUCKETS.includes(capBucket) ? capBucket : undefined,
+      lastPrice: parseOptionalNumber(field(idx.lastPrice)),
+      lastVolume: parseOptionalNumber(field(idx.lastVolume)),
+    });
+  }
+  return symbols;
+}
+
+const TICKER_PATTERN = /^[A-Z][A-Z0-9.-]{0,9}$/;
+
+/**
+ * Parse a ticker list from pasted text or a CSV export
+ * 
+ * CSV input with a symbol/ticker header column uses that column; anything else is
+ * split on commas, whitespace and semicolons. Tickers are upper-cased, a leading
+ * "$" is dropped, invalid tokens are skipped and duplicates removed (first wins).
+ */
+export function parseTickerList(text: string): string[] {
+  const firstLine = text.split(/\r?\n/).find(line => line.trim() !== '') ?? '';
+  const header = splitCsvLine(firstLine).map(h => h.toLowerCase());
+
+  const tokens = header.includes('symbol') || header.includes('ticker')
+    ? parseSymbolCsv(text).map(meta => meta.symbol)
+    : text.split(/[\s,;]+/);
+
+  const tickers: string[] = [];
+  for (const token of tokens) {
+    const ticker = token.trim().replace(/^\$/, '').toUpperCase();
+    if (TICKER_PATTERN.test(ticker) && !tickers.includes(ticker)) {
+      tickers.push(ticker);
+    }
+  }
+  return tickers;
+}
+
+/**
+ * Merge symbol lists from several sources into one entry per symbol
+ * Strategy: the first occurrence keeps its position and values; later entries fill missing fields.
+ */
+export function mergeSymbolLists(symbols: TickerMeta[]): TickerMeta[] {
+  const bySymbol = new Map<string, TickerMeta>();
+
+  for (const meta of symbols) {
+    const key = meta.symbol.toUpperCase();
+    const existing = bySymbol.get(key);
+    if (!existing) {
+      bySymbol.set(key, { ...meta, symbol: key });
+      continue;
+    }
+    existing.name ??= meta.name;
+    existing.exchange ??= meta.exchange;
+    existing.sector ??= meta.sector;
+    existing.capBucket ??= meta.capBucket;
+    existing.lastPrice ??= meta.lastPrice;
+    existing.lastVolume ??= meta.lastVolume;
+  }
+
+  return Array.from(bySymbol.values());
+}
+
+/**
+ * Cache for a loaded symbol list
+ * 
+ * Keeps the last successful load for `ttlMs`. When a refresh comes back empty
+ * (all sources failed), the stale list is kept rather than shrinking the universe.
+ */
+export class UniverseCache {
+  private symbols: TickerMeta[] | null = null;
+  private loadedAt = 0;
+
+  constructor(
+    private readonly ttlMs: number = DEFAULT_UNIVERSE_TTL_MS,
+    private readonly now: () => number = Date.now,
+  ) {}
+
+  isFresh(): boolean {
+    return this.symbols != null && this.now() - this.loadedAt < this.ttlMs;
+  }
+
+  async get(load: () => Promise<TickerMeta[]>): Promise<TickerMeta[]> {
+    if (this.symbols && this.isFresh()) return this.symbols;
+
+    const loaded = await load();
+    if (loaded.length > 0) {
+      this.symbols = loaded;
+      this.loadedAt = this.now();
+    }
+    return this.symbols ?? loaded;
+  }
+}
+
+export interface LiveUniverse {
+  universe: TickerMeta[];   // Names to quote, in scan order
+  dropped: DroppedTicker[]; // Explicit tickers failing the filters or past MAX_CUSTOM_UNIVERSE_SIZE
+}
+
+/**
+ * Build the live ticker universe based on filters
+ * 
+ * When the request carries explicit tickers (a custom universe), only those are
+ * considered, in the order given; metadata for them is taken from `symbols`
+ * where known. They are not ranked or held to `limit`, only to
+ * MAX_CUSTOM_UNIVERSE_SIZE. Names whose metadata fails the market cap, sector
+ * or price filters and names past the cap are returned as dropped.
+ * 
+ * @param request - The scan request with filters and optional explicit tickers
+ * @param symbols - Candidate symbols, in source priority order (defaults to the curated list)
+ * @param limit - Maximum number of tickers to return from the symbol list
+ * @returns The universe to scan and the explicit tickers left out of it
+ */
+export function buildLiveUniverse(
+  request: ScanRequest,
+  symbols: TickerMeta[] = TICKER_UNIVERSE,
+  limit: number = DEFAULT_UNIVERSE_LIMIT,
+): LiveUniverse {
+  const { filters } = request;
+  const matches = (meta: TickerMeta) =>
+    matchesMarketCap(filters, meta) && matchesSector(filters, meta) && matchesPrice(filters, meta);
+
+  if (request.tickers && request.tickers.length > 0) {
+    const known = new Map(symbols.map(meta => [meta.symbol, meta]));
+    const explicit = Array.from(new Set(request.tickers.map(ticker => ticker.trim().toUpperCase()).filter(ticker => ticker !== '')))
+      .map(ticker => known.get(ticker) ?? { symbol: ticker });
+    const kept = explicit.filter(matches);
+    const dropped: DroppedTicker[] = [
+      ...explicit.filter(meta => !matches(meta)).map(meta => ({ ticker: meta.symbol, reason: 'universe_filter' as const })),
+      ...kept.slice(MAX_CUSTOM_UNIVERSE_SIZE).map(meta => ({ ticker: meta.symbol, reason: 'universe_cap' as const })),
+    ];
+    return { universe: kept.slice(0, MAX_CUSTOM_UNIVERSE_SIZE), dropped };
+  }
+
+  // Rank by last known volume; names without volume keep their source order after those with it
+  const ranked = symbols
+    .filter(matches)
+    .map((meta, index) => ({ meta, index }))
+    .sort((a, b) => {
+      const av = a.meta.lastVolume ?? -1;
+      const bv = b.meta.lastVolume ?? -1;
+      return bv - av || a.index - b.index;
+    })
+    .map(({ meta }) => meta);
+
+  // Keep universe bounded to respect rate limits and scan performance
+  return { universe: ranked.slice(0, limit), dropped: [] };
+}
@@ -0,0 +1,95 @@
+/**
+ * Volatility Metrics and Filter
+ *
+ * Backs ScanFilters.highVolatilityOnly. Three methods are supported:
+ * - dailyChange: absolute percent change on the day (the default, ≥5%)
+ * - atr: 14-day Average True Range as a percent of the last close
+ * - historical: 20-day annualized close-to-close volatility, in percent
+ *
+ * The same check runs for mock and live results through resultPassesFilters.
+ */
+
+import type { ScanFilters, ScanResult, VolatilityMethod } from './types.ts';
+
+/**
+ * Minimal bar shape needed for volatility math
+ */
+export interface OhlcBar {
+  high: number;
+  low: number;
+  close: number;
+}
+
+export const DEFAULT_VOLATILITY_THRESHOLDS: Record<VolatilityMethod, number> = {
+  dailyChange: 5,
+  atr: 5,
+  historical: 60,
+};
+
+export const VOLATILITY_METHOD_LABELS: Record<VolatilityMethod, string> = {
+  dailyChange: 'Daily Move',
+  atr: 'ATR %',
+  historical: 'Hist. Vol',
+};
+
+/**
+ * Average True Range over the last `period` bars, as a percent of the last close
+ * Bars must be ordered oldest first. Returns null if there is not enough history.
+ */
+export function computeAtrPercent(bars: OhlcBar[], period = 14): number | null {
+  if (bars.length < period + 1) return null;
+
+  const recent = bars.slice(-(period + 1));
+  let total = 0;
+  for (let i = 1; i < recent.length; i++) {
+    const { high, low } = recent[i];
+    const prevClose = recent[i - 1].close;
+    total += Math.max(high - low, Math.abs(high - prevClose), Math.abs(low - prevClose));
+  }
+
+  const lastClose = recent[recent.length - 1].close;
+  if (!lastClose) return null;
+  return (total / period / lastClose) * 100;
+}
+
+/**
+ * Annualized standard deviation of daily log returns over the last `period` bars, in percent
+ * Bars must be ordered oldest first. Returns null if there is not enough history.
+ */
+export function computeHistoricalVolatility(bars: OhlcBar[], period = 20): number | null {
+  if (bars.length < period + 1) return null;
+
+  const recent = bars.slice(-(period + 1));
+  const returns: number[] = [];
+  for (let i = 1; i < recent.length; i++) {
+    const prev = recent[i - 1].close;
+    const curr = recent[i].close;
+    if (prev > 0 && curr > 0) returns.push(Math.log(curr / prev));
+  }
+  if (returns.length < 2) return null;
+
+  const mean = returns.reduce((sum, r) => sum + r, 0) / returns.length;
+  const variance = returns.reduce((sum, r) => sum + (r - mean) ** 2, 0) / (returns.length - 1);
+  return Math.sqrt(variance) * Math.sqrt(252) * 100;
+}
+
+/**
+ * Check the high-volatility filter for a single result
+ * When the selected metric is unavailable for a ticker, the daily move is used instead.
+ */
+export function passesVolatilityFilter(result: ScanResult, filters: ScanFilters): boolean {
+  if (!filters.highVolatilityOnly) return true;
+
+  const method: VolatilityMethod = filters.volatilityMethod ?? 'dailyChange';
+  const threshold = filters.volatilityThreshold ?? DEFAULT_VOLATILITY_THRESHOLDS[method];
+
+  if (method === 'atr' && result.atrPercent != null) {
+    return result.atrPercent >= threshold;
+  }
+  if (method === 'historical' && result.historicalVolatility != null) {
+    return result.historicalVolatility >= threshold;
+  }
+
+  const dailyThreshold = method === 'dailyChange' ? threshold : DEFAULT_VOLATILITY_THRESHOLDS.dailyChange;
+  return Math.abs(result.changePercent) >= dailyThreshold;
+}
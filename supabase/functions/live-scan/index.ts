@@ -3,124 +3,165 @@
  * 
  * This edge function orchestrates data gathering from multiple providers:
  * - Price providers (Finnhub, Massive, IEX, etc.)
+ * - Candle providers (Finnhub, Massive) for OHLCV history
  * - News providers (Finnhub, Benzinga, etc.)
  * - Fundamentals providers (Finnhub, AlphaVantage, etc.)
+ * - Filings providers (SEC EDGAR submissions, Finnhub insider transactions); EDGAR
+ *   requires SEC_USER_AGENT ("Company Name admin@example.com")
+ * - Symbol list providers (Finnhub /stock/symbol, CSV snapshot, Massive grouped daily)
+ *   for the scan universe
  * 
- * Currently active: Finnhub across all three categories
+ * The 'extended-hours' scan mode scores pre-market and after-hours moves computed from
+ * extended-hours bars; every result is labelled with the session it was scanned in
+ * (see scanCore/session.ts).
  * 
- * Massive (formerly Polygon) can be plugged in by implementing PriceDataProvider and
- * registering it in activePriceProviders once an API key + endpoint are added.
+ * Scans are staged: a bulk snapshot (price, change, volume) over the whole universe,
+ * then fundamentals, news, candles and indicators for the top pre-scored names only
+ * (see scanCore/pipeline.ts). The defaults keep a Finnhub-only scan within its
+ * 55/min budget before the scan deadline; when stage 2 would need more calls than
+ * fit, the response says so in diagnostics.warnings.
+ * 
+ * The response is a versioned ScanResponse envelope (scanCore/response.ts): results plus
+ * stage counts and timings, provider status, rate limiting, cache use, dropped tickers
+ * and warnings.
+ * 
+ * Providers are registered in a ProviderRegistry that applies per-provider
+ * enable/priority/timeout settings and skips providers that keep failing.
+ * 
+ * Types, the ticker universe, merging, scoring and filtering come from the shared
+ * scan-core module (../_shared/scanCore) that the browser app also imports.
+ * 
+ * Provider responses are cached per ticker (see scanCore/cache.ts); SCAN_CACHE_STORE
+ * selects an in-memory or Postgres store and SCAN_CACHE_TTL_<TYPE>_MS tunes the TTLs.
+ * 
+ * Every upstream call goes through a shared RequestScheduler (token bucket per
+ * provider, Retry-After and jittered backoff; see scanCore/scheduler.ts). Calls
+ * queue until the scan deadline (SCAN_DEADLINE_MS, default 120s) rather than
+ * being dropped; provider timeouts are extended only by the time spent queued.
+ * 
+ * Universe settings (env):
+ * - SCAN_UNIVERSE_LIMIT: max tickers passed to the stage-1 snapshot (default 40)
+ * - SCAN_STAGE2_TOP_N: default number of pre-scored names enriched in stage 2 (default 12)
+ * - SCAN_UNIVERSE_TTL_MS: how long a loaded symbol list is reused (default 12h)
+ * - SCAN_UNIVERSE_CSV_PATH: local path or URL of a symbol list CSV snapshot
+ * Exchange-wide sources are off by default; enable them with SCAN_SYMBOLS_PROVIDERS
+ * (e.g. "csv-symbols,finnhub-symbols,massive-grouped").
  */
 
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
-
-// ============================================================================
-// TYPE DEFINITIONS
-// ============================================================================
-
-type ScanMode = 'unified';
-type MomentumGrade = 'A' | 'B' | 'C' | 'D';
-type Sentiment = 'Long' | 'Short' | 'Neutral';
-type RiskLevel = 'Low' | 'Medium' | 'High';
-type MarketCapRange = 'micro' | 'small' | 'mid' | 'large' | 'any';
-type QuoteSource = 'finnhub' | 'massive' | 'iex' | 'alphavantage';
-
-interface ScoreBreakdown {
-  catalysts: number;
-  momentum: number;
-  structure: number;
-  sentiment: number;
-}
-
-interface ScanFilters {
-  marketCap: MarketCapRange;
-  minPrice?: number;
-  maxPrice?: number;
-  minVolume?: number;
-  sectors: string[];
-  highVolatilityOnly?: boolean;
-}
-
-interface ScanRequest {
-  mode: ScanMode;
-  filters: ScanFilters;
-  notes?: string;
-}
-
-interface ScanResult {
-  ticker: string;
-  companyName: string;
-  price: number;
-  changePercent: number;
-  volume: number;
-  marketCap: number;
-  float: number;
-  sector: string;
-  scanMode: ScanMode;
-  catalystSummary: string;
-  momentumGrade: MomentumGrade;
-  explosivePotential: number;
-  scoreBreakdown: ScoreBreakdown;
-  sentiment: Sentiment;
-  riskLevel: RiskLevel;
-  riskNotes: string;
-  whyItMightMove: string;
-  tags: string[];
-  primaryNewsHeadline?: string;
-  primaryNewsUrl?: string;
-  primaryNewsDatetime?: string;
-}
-
-interface TickerMeta {
-  symbol: string;
-  sector: string;
-  capBucket: 'micro' | 'small' | 'mid' | 'large';
-}
-
-interface RawQuote {
-  source: QuoteSource;
-  ticker: string;
-  price: number | null;
-  prevClose: number | null;
-  volume: number | null;
-  timestamp: number | null;
-}
-
-interface RawNewsItem {
-  source: string;
-  ticker: string;
-  headline: string;
-  summary: string;
-  url: string;
-  datetime: string;
-  category?: string;
-}
-
-interface FundamentalSnapshot {
-  ticker: string;
-  marketCap: number | null;
-  float: number | null;
-  sector: string | null;
-}
-
-// ============================================================================
-// PROVIDER INTERFACES
-// ============================================================================
-
-interface PriceDataProvider {
-  name: string;
-  fetchQuotes(tickers: string[], request: ScanRequest): Promise<RawQuote[]>;
-}
-
-interface NewsDataProvider {
-  name: string;
-  fetchNews(tickers: string[], request: ScanRequest): Promise<RawNewsItem[]>;
-}
-
-interface FundamentalsDataProvider {
-  name: string;
-  fetchFundamentals(tickers: string[], request: ScanRequest): Promise<FundamentalSnapshot[]>;
-}
+import {
+  addTradingDays,
+  applyFiltersToResults,
+  assessFilingsRisk,
+  backfillQuoteVolume,
+  buildBiotechEventQuery,
+  buildCandleQuery,
+  buildCatalystFromNews,
+  buildEarningsQuery,
+  buildFilingsQuery,
+  buildLiveUniverse,
+  buildNewsTimeline,
+  buildProviderWarnings,
+  buildSqueezeMetrics,
+  buildTradingDayQuery,
+  clusterNews,
+  computeChangePercent,
+  computeSessionMetrics,
+  computeTechnicalIndicators,
+  createFixtureFilingsProvider,
+  DEFAULT_PRESCREEN,
+  DEFAULT_SCAN_DEADLINE_MS,
+  DEFAULT_UNIVERSE_LIMIT,
+  DEFAULT_UNIVERSE_TTL_MS,
+  deriveExplosivePotential,
+  deriveLabels,
+  deriveScoreBreakdown,
+  deriveSessionTags,
+  deriveTags,
+  EARNINGS_SOON_DAYS,
+  estimateEnrichmentCalls,
+  eventsInWindow,
+  filingsInWindow,
+  diffSchedulerStats,
+  getMarketCapBucket,
+  getMarketSession,
+  isBiotechEventInWindow,
+  groupByTicker,
+  isSqueezeSetup,
+  lastCompletedTradingDay,
+  loadCacheTtlsFromEnv,
+  loadRateLimitsFromEnv,
+  loadRegistryOptionsFromEnv,
+  MemoryCacheStore,
+  mergeCandleSeries,
+  mergeFundamentals,
+  mergeRawQuotes,
+  mergeSymbolLists,
+  normalizeBiotechEventBonus,
+  normalizeCandles,
+  normalizeFilters,
+  normalizePreScreen,
+  normalizeScoringModel,
+  parseBiotechEvents,
+  parseFilingsFixture,
+  parseSymbolCsv,
+  PostgresCacheStore,
+  preScreenCandidates,
+  recentTradingDaysRange,
+  reportsWithin,
+  ProviderCache,
+  ProviderRegistry,
+  RequestScheduler,
+  resolveResultFields,
+  SCAN_RESPONSE_VERSION,
+  selectNextBiotechEvents,
+  selectUpcomingEarnings,
+  StageTimer,
+  summarizeFilings,
+  TICKER_UNIVERSE,
+  toScoringModelRef,
+  UniverseCache,
+  withCandleCache,
+  withFundamentalsCache,
+  withNewsCache,
+  withQuoteCache,
+  type BiotechEvent,
+  type BiotechEventProvider,
+  type FundamentalSnapshot,
+  type FundamentalsDataProvider,
+  type Candle,
+  type CandleDataProvider,
+  type CandleQuery,
+  type CandleResolution,
+  type CandleSeries,
+  type EarningsCalendarProvider,
+  type EarningsEvent,
+  type CalendarQuery,
+  type EarningsTime,
+  type FilingsDataProvider,
+  type NewsCluster,
+  type NewsDataProvider,
+  type PriceDataProvider,
+  type RawFiling,
+  type RawNewsItem,
+  type SessionMetrics,
+  type RawQuote,
+  type ScanMode,
+  type ScanRequest,
+  type ScanResult,
+  type ScanResponse,
+  type SymbolListProvider,
+  type TechnicalIndicators,
+  type TickerMeta,
+  type UpcomingEarnings,
+} from '../_shared/scanCore/index.ts';
+
+// Module-level so token buckets and throttle counters are shared by every provider
+// and survive across warm invocations. Limits: SCAN_RATE_LIMIT_<BUCKET>_* (see scheduler.ts).
+const requestScheduler = new RequestScheduler(loadRateLimitsFromEnv(key => Deno.env.get(key)));
+
+// Trading days of daily bars searched when a quote has no volume (covers a halted or thin day)
+const DAILY_VOLUME_LOOKBACK_TRADING_DAYS = 5;
 
 // ============================================================================
 // FINNHUB PROVIDER IMPLEMENTATIONS
@@ -137,46 +178,46 @@ function getFinnhubApiKey(): string {
 }
 
 /**
- * Fetch recent daily volume from Finnhub candles endpoint
- * Tries the last 30 days and returns the most recent positive volume.
+ * Fetch OHLCV candles from Finnhub candles endpoint
+ * Returns normalized bars (oldest first), or an empty array if the request fails or there is no data.
  */
-async function fetchFinnhubDailyVolume(ticker: string): Promise<number | null> {
+async function fetchFinnhubCandles(ticker: string, query: CandleQuery): Promise<Candle[]> {
   try {
     const apiKey = getFinnhubApiKey();
 
-    const nowSec = Math.floor(Date.now() / 1000);
-    const thirtyDaysAgo = nowSec - (30 * 24 * 60 * 60);
+    const fromSec = Math.floor(query.from / 1000);
+    const toSec = Math.floor(query.to / 1000);
 
-    const url = `${FINNHUB_BASE_URL}/stock/candle?symbol=${encodeURIComponent(ticker)}&resolution=D&from=${thirtyDaysAgo}&to=${nowSec}&token=${apiKey}`;
+    const url = `${FINNHUB_BASE_URL}/stock/candle?symbol=${encodeURIComponent(ticker)}&resolution=${query.resolution}&from=${fromSec}&to=${toSec}&token=${apiKey}`;
 
-    const res = await fetch(url);
+    const res = await requestScheduler.fetch('finnhub', url);
     if (!res.ok) {
       const txt = await res.text();
       console.error(`Finnhub candle error for ${ticker}: ${res.status} ${txt}`);
-      return null;
+      return [];
     }
 
     const data = await res.json();
 
-    if (!data || data.s !== 'ok' || !Array.isArray(data.v) || data.v.length === 0) {
+    if (!data || data.s !== 'ok' || !Array.isArray(data.t) || data.t.length === 0) {
       if (data && data.s === 'no_data') {
-        console.log(`[Finnhub] No candle data for ${ticker} in last 30 days.`);
-      }
-      return null;
-    }
-
-    // Find the most recent positive volume value
-    for (let i = data.v.length - 1; i >= 0; i--) {
-      const vol = data.v[i];
-      if (typeof vol === 'number' && vol > 0) {
-        return vol;
+        console.log(`[Finnhub] No ${query.resolution} candle data for ${ticker} in requested window.`);
       }
+      return [];
     }
 
-    return null;
+    const candles: Candle[] = data.t.map((t: number, i: number) => ({
+      timestamp: t * 1000,
+      open: data.o?.[i],
+      high: data.h?.[i],
+      low: data.l?.[i],
+      close: data.c?.[i],
+      volume: data.v?.[i] ?? 0,
+    }));
+    return normalizeCandles(candles);
   } catch (err) {
-    console.error(`fetchFinnhubDailyVolume error for ${ticker}:`, err);
-    return null;
+    console.error(`fetchFinnhubCandles error for ${ticker}:`, err);
+    return [];
   }
 }
 
@@ -185,7 +226,7 @@ async function fetchFinnhubQuote(ticker: string): Promise<RawQuote | null> {
     const apiKey = getFinnhubApiKey();
     const url = `${FINNHUB_BASE_URL}/quote?symbol=${encodeURIComponent(ticker)}&token=${apiKey}`;
     
-    const res = await fetch(url);
+    const res = await requestScheduler.fetch('finnhub', url);
     if (!res.ok) {
       console.error(`Finnhub quote error for ${ticker}: ${res.status}`);
       return null;
@@ -197,29 +238,16 @@ async function fetchFinnhubQuote(ticker: string): Promise<RawQuote | null> {
       return null;
     }
 
-    // Try to get volume from quote first
-    let volume: number | null = typeof data.v === 'number' && data.v > 0 ? data.v : null;
-    
-    // If quote doesn't have volume, fallback to daily candle volume
-    if (volume == null) {
-      console.log(`[Finnhub] Quote volume missing for ${ticker} (got ${data.v}), fetching from candles...`);
-      volume = await fetchFinnhubDailyVolume(ticker);
-      if (volume != null) {
-        console.log(`[Finnhub] Successfully retrieved volume from candles for ${ticker}: ${volume}`);
-      } else {
-        console.log(`[Finnhub] No volume available from candles for ${ticker}, trying Massive fallback...`);
-        volume = await fetchMassiveRecentDailyVolume(ticker);
-        if (volume != null) {
-          console.log(`[Massive] Fallback volume for ${ticker}: ${volume}`);
-        }
-      }
-    }
+    // /quote rarely reports volume; stage 2 fills it from the daily bars (backfillQuoteVolume)
+    // rather than spending a candle call per ticker on the whole universe here
+    const volume: number | null = typeof data.v === 'number' && data.v > 0 ? data.v : null;
 
     return {
       source: 'finnhub',
       ticker,
       price: data.c,
       prevClose: data.pc,
+      open: typeof data.o === 'number' && data.o > 0 ? data.o : null,
       volume,
       timestamp: data.t ? data.t * 1000 : Date.now(),
     };
@@ -241,7 +269,7 @@ async function fetchFinnhubCompanyNews(ticker: string): Promise<RawNewsItem[]> {
 
     const url = `${FINNHUB_BASE_URL}/company-news?symbol=${encodeURIComponent(ticker)}&from=${fromDate}&to=${toDate}&token=${apiKey}`;
 
-    const res = await fetch(url);
+    const res = await requestScheduler.fetch('finnhub', url);
     if (!res.ok) {
       console.error(`Finnhub company news error for ${ticker}: ${res.status}`);
       return [];
@@ -270,12 +298,16 @@ async function fetchFinnhubCompanyNews(ticker: string): Promise<RawNewsItem[]> {
   }
 }
 
+function nonEmptyString(value: unknown): string | null {
+  return typeof value === 'string' && value.trim() !== '' ? value.trim() : null;
+}
+
 async function fetchFinnhubFundamentals(ticker: string): Promise<FundamentalSnapshot | null> {
   try {
     const apiKey = getFinnhubApiKey();
     const url = `${FINNHUB_BASE_URL}/stock/profile2?symbol=${encodeURIComponent(ticker)}&token=${apiKey}`;
     
-    const res = await fetch(url);
+    const res = await requestScheduler.fetch('finnhub', url);
     if (!res.ok) {
       console.error(`Finnhub fundamentals error for ${ticker}: ${res.status}`);
       return null;
@@ -286,8 +318,16 @@ async function fetchFinnhubFundamentals(ticker: string): Promise<FundamentalSnap
     return {
       ticker,
       marketCap: typeof data.marketCapitalization === 'number' ? data.marketCapitalization * 1_000_000 : null,
-      float: typeof data.shareOutstanding === 'number' ? data.shareOutstanding * 1_000_000 : null,
+      float: null, // profile2 only reports shares outstanding, which overstates the free float
+      sharesOutstanding: typeof data.shareOutstanding === 'number' ? data.shareOutstanding * 1_000_000 : null,
       sector: typeof data.finnhubIndustry === 'string' ? data.finnhubIndustry : null,
+      companyName: nonEmptyString(data.name),
+      exchange: nonEmptyString(data.exchange),
+      logoUrl: nonEmptyString(data.logo),
+      website: nonEmptyString(data.weburl),
+      ipoDate: nonEmptyString(data.ipo),
+      source: 'finnhub-fundamentals',
+      fetchedAt: Date.now(),
     };
   } catch (err) {
     console.error(`fetchFinnhubFundamentals error for ${ticker}:`, err);
@@ -295,8 +335,95 @@ async function fetchFinnhubFundamentals(ticker: string): Promise<FundamentalSnap
   }
 }
 
+const FINNHUB_EARNINGS_HOURS: Record<string, EarningsTime> = {
+  bmo: 'before-open',
+  amc: 'after-close',
+  dmh: 'during-hours',
+};
+
+/**
+ * Fetch the market-wide earnings calendar for a date window from Finnhub
+ * One request covers every ticker; throws on HTTP errors so the registry sees the failure.
+ */
+async function fetchFinnhubEarningsCalendar(query: CalendarQuery): Promise<EarningsEvent[]> {
+  const apiKey = getFinnhubApiKey();
+  const url = `${FINNHUB_BASE_URL}/calendar/earnings?from=${query.from}&to=${query.to}&token=${apiKey}`;
+
+  const res = await requestScheduler.fetch('finnhub', url);
+  if (!res.ok) {
+    throw new Error(`Finnhub earnings calendar error: ${res.status}`);
+  }
+
+  const data = await res.json();
+  const rows: Record<string, unknown>[] = Array.isArray(data?.earningsCalendar) ? data.earningsCalendar : [];
+
+  const events: EarningsEvent[] = [];
+  for (const row of rows) {
+    const ticker = nonEmptyString(row.symbol)?.toUpperCase();
+    const date = nonEmptyString(row.date);
+    if (!ticker || !date || !/^\d{4}-\d{2}-\d{2}$/.test(date)) continue;
+
+    events.push({
+      source: 'finnhub-earnings',
+      ticker,
+      date,
+      time: typeof row.hour === 'string' ? FINNHUB_EARNINGS_HOURS[row.hour] ?? null : null,
+      epsEstimate: typeof row.epsEstimate === 'number' ? row.epsEstimate : null,
+      revenueEstimate: typeof row.revenueEstimate === 'number' ? row.revenueEstimate : null,
+      fiscalQuarter: typeof row.quarter === 'number' ? row.quarter : undefined,
+      fiscalYear: typeof row.year === 'number' ? row.year : undefined,
+    });
+  }
+  return events;
+}
+
+/**
+ * Fetch Form 4 insider transactions for one ticker from Finnhub
+ * Each transaction becomes a Form 4 filing carrying its transaction code;
+ * throws on HTTP errors so the registry sees the failure.
+ */
+async function fetchFinnhubInsiderTransactions(ticker: string, query: CalendarQuery): Promise<RawFiling[]> {
+  const apiKey = getFinnhubApiKey();
+  const url = `${FINNHUB_BASE_URL}/stock/insider-transactions?symbol=${encodeURIComponent(ticker)}&from=${query.from}&to=${query.to}&token=${apiKey}`;
+
+  const res = await requestScheduler.fetch('finnhub', url);
+  if (!res.ok) {
+    throw new Error(`Finnhub insider transactions error for ${ticker}: ${res.status}`);
+  }
+
+  const data = await res.json();
+  const rows: Record<string, unknown>[] = Array.isArray(data?.data) ? data.data : [];
+
+  const filings: RawFiling[] = [];
+  for (const row of rows) {
+    const filedAt = nonEmptyString(row.filingDate);
+    if (!filedAt) continue;
+
+    filings.push({
+      source: 'finnhub-insider',
+      ticker,
+      formType: '4',
+      filedAt,
+      insider: {
+        name: nonEmptyString(row.name) ?? undefined,
+        transactionCode: nonEmptyString(row.transactionCode) ?? undefined,
+        shares: typeof row.change === 'number' ? row.change : undefined,
+        pricePerShare: typeof row.transactionPrice === 'number' ? row.transactionPrice : undefined,
+      },
+    });
+  }
+  return filings;
+}
+
+function isFinnhubConfigured(): boolean {
+  return !!Deno.env.get('FINNHUB_API_KEY');
+}
+
 const finnhubPriceProvider: PriceDataProvider = {
+  id: 'finnhub',
   name: 'Finnhub',
+  rateLimitBucket: 'finnhub',
+  isConfigured: isFinnhubConfigured,
   async fetchQuotes(tickers: string[], _request: ScanRequest): Promise<RawQuote[]> {
     console.log(`[FinnhubPriceProvider] Fetching quotes for ${tickers.length} tickers`);
     
@@ -312,12 +439,18 @@ const finnhubPriceProvider: PriceDataProvider = {
     }
 
     console.log(`[FinnhubPriceProvider] Retrieved ${quotes.length} valid quotes`);
+    if (tickers.length > 0 && quotes.length === 0) {
+      throw new Error('Finnhub returned no quotes');
+    }
     return quotes;
   }
 };
 
 const finnhubNewsProvider: NewsDataProvider = {
+  id: 'finnhub-news',
   name: 'Finnhub News',
+  rateLimitBucket: 'finnhub',
+  isConfigured: isFinnhubConfigured,
   async fetchNews(tickers: string[], _request: ScanRequest): Promise<RawNewsItem[]> {
     console.log(`[FinnhubNewsProvider] Fetching news for ${tickers.length} tickers`);
     
@@ -338,7 +471,10 @@ const finnhubNewsProvider: NewsDataProvider = {
 };
 
 const finnhubFundamentalsProvider: FundamentalsDataProvider = {
+  id: 'finnhub-fundamentals',
   name: 'Finnhub Fundamentals',
+  rateLimitBucket: 'finnhub',
+  isConfigured: isFinnhubConfigured,
   async fetchFundamentals(tickers: string[], _request: ScanRequest): Promise<FundamentalSnapshot[]> {
     console.log(`[FinnhubFundamentalsProvider] Fetching fundamentals for ${tickers.length} tickers`);
     
@@ -354,10 +490,57 @@ const finnhubFundamentalsProvider: FundamentalsDataProvider = {
     }
 
     console.log(`[FinnhubFundamentalsProvider] Retrieved ${fundamentals.length} fundamental snapshots`);
+    if (tickers.length > 0 && fundamentals.length === 0) {
+      throw new Error('Finnhub returned no fundamentals');
+    }
     return fundamentals;
   }
 };
 
+const finnhubEarningsProvider: EarningsCalendarProvider = {
+  id: 'finnhub-earnings',
+  name: 'Finnhub Earnings Calendar',
+  rateLimitBucket: 'finnhub',
+  isConfigured: isFinnhubConfigured,
+  async fetchEarnings(tickers: string[], query: CalendarQuery, _request: ScanRequest): Promise<EarningsEvent[]> {
+    console.log(`[FinnhubEarningsProvider] Fetching earnings ${query.from}..${query.to} for ${tickers.length} tickers`);
+
+    const wanted = new Set(tickers);
+    const events = (await fetchFinnhubEarningsCalendar(query)).filter(e => wanted.has(e.ticker));
+
+    console.log(`[FinnhubEarningsProvider] Retrieved ${events.length} earnings events`);
+    return events;
+  }
+};
+
+const finnhubInsiderProvider: FilingsDataProvider = {
+  id: 'finnhub-insider',
+  name: 'Finnhub Insider Transactions',
+  rateLimitBucket: 'finnhub',
+  isConfigured: isFinnhubConfigured,
+  async fetchFilings(tickers: string[], query: CalendarQuery, _request: ScanRequest): Promise<RawFiling[]> {
+    console.log(`[FinnhubInsiderProvider] Fetching insider transactions ${query.from}..${query.to} for ${tickers.length} tickers`);
+
+    const results = await Promise.allSettled(
+      tickers.map(ticker => fetchFinnhubInsiderTransactions(ticker, query))
+    );
+
+    const filings: RawFiling[] = [];
+    for (const result of results) {
+      if (result.status === 'fulfilled') {
+        filings.push(...result.value);
+      }
+    }
+
+    console.log(`[FinnhubInsiderProvider] Retrieved ${filings.length} insider transactions`);
+    const failures = results.filter((r): r is PromiseRejectedResult => r.status === 'rejected');
+    if (tickers.length > 0 && failures.length === tickers.length) {
+      throw failures[0].reason;
+    }
+    return filings;
+  }
+};
+
 // ============================================================================
 // BENZINGA PRO PROVIDER IMPLEMENTATIONS
 // ============================================================================
@@ -391,7 +574,7 @@ async function fetchBenzingaNews(tickers: string[], lookbackDays = 3): Promise<R
     const tickerParam = tickers.join(',');
     const url = `${BENZINGA_BASE_URL}?token=${encodeURIComponent(apiKey)}&tickers=${encodeURIComponent(tickerParam)}&date=${fromIso}`;
 
-    const res = await fetch(url);
+    const res = await requestScheduler.fetch('benzinga', url);
     if (!res.ok) {
       console.error(`Benzinga news error: ${res.status}`);
       return [];
@@ -454,7 +637,10 @@ async function fetchBenzingaNews(tickers: string[], lookbackDays = 3): Promise<R
 }
 
 const benzingaNewsProvider: NewsDataProvider = {
+  id: 'benzinga',
   name: 'Benzinga Pro',
+  rateLimitBucket: 'benzinga',
+  isConfigured: () => !!Deno.env.get('BENZINGA_API_KEY'),
   async fetchNews(tickers: string[], _request: ScanRequest): Promise<RawNewsItem[]> {
     console.log(`[BenzingaNewsProvider] Fetching news for ${tickers.length} tickers`);
     
@@ -487,39 +673,54 @@ function getMassiveBaseUrl(): string | null {
   return base.replace(/\/$/, ''); // strip trailing slash
 }
 
+const MASSIVE_TIMESPANS: Record<CandleResolution, { multiplier: number; timespan: string }> = {
+  '1': { multiplier: 1, timespan: 'minute' },
+  '5': { multiplier: 5, timespan: 'minute' },
+  '15': { multiplier: 15, timespan: 'minute' },
+  '30': { multiplier: 30, timespan: 'minute' },
+  '60': { multiplier: 1, timespan: 'hour' },
+  'D': { multiplier: 1, timespan: 'day' },
+  'W': { multiplier: 1, timespan: 'week' },
+  'M': { multiplier: 1, timespan: 'month' },
+};
+
 /**
- * Fetch recent daily volume from Massive (Polygon-style) aggregates
+ * Fetch OHLCV candles from Massive (Polygon-style) aggregates
+ * Returns normalized bars (oldest first), or an empty array if unavailable.
  */
-async function fetchMassiveRecentDailyVolume(ticker: string): Promise<number | null> {
+async function fetchMassiveCandles(ticker: string, query: CandleQuery): Promise<Candle[]> {
   try {
     const baseUrl = getMassiveBaseUrl();
     const apiKey = getMassiveApiKey();
-    if (!baseUrl || !apiKey) return null;
+    if (!baseUrl || !apiKey) return [];
 
-    const now = new Date();
-    const to = now.toISOString().slice(0, 10);
-    const fromDate = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000);
-    const from = fromDate.toISOString().slice(0, 10);
+    const { multiplier, timespan } = MASSIVE_TIMESPANS[query.resolution];
+    const from = new Date(query.from).toISOString().slice(0, 10);
+    const to = new Date(query.to).toISOString().slice(0, 10);
 
-    const url = `${baseUrl}/v2/aggs/ticker/${encodeURIComponent(ticker)}/range/1/day/${from}/${to}?adjusted=true&apiKey=${apiKey}`;
-    const res = await fetch(url);
+    const url = `${baseUrl}/v2/aggs/ticker/${encodeURIComponent(ticker)}/range/${multiplier}/${timespan}/${from}/${to}?adjusted=true&sort=asc&limit=50000&apiKey=${encodeURIComponent(apiKey)}`;
+    const res = await requestScheduler.fetch('massive', url);
     if (!res.ok) {
-      console.error(`Massive volume error for ${ticker}: ${res.status}`);
-      return null;
+      console.error(`Massive candle error for ${ticker}: ${res.status}`);
+      return [];
     }
 
     const data = await res.json();
-    const results = Array.isArray(data.results) ? data.results : [];
-    for (let i = results.length - 1; i >= 0; i--) {
-      const v = results[i]?.v;
-      if (typeof v === 'number' && v > 0) return v;
-    }
-    return null;
+    const results: Array<Record<string, number>> = Array.isArray(data.results) ? data.results : [];
+    return normalizeCandles(results.map(r => ({
+      timestamp: r.t,
+      open: r.o,
+      high: r.h,
+      low: r.l,
+      close: r.c,
+      volume: r.v ?? 0,
+    })));
   } catch (err) {
-    console.error(`fetchMassiveRecentDailyVolume error for ${ticker}:`, err);
-    return null;
+    console.error(`fetchMassiveCandles error for ${ticker}:`, err);
+    return [];
   }
 }
+
 async function fetchMassiveQuote(ticker: string): Promise<RawQuote | null> {
   try {
     const baseUrl = getMassiveBaseUrl();
@@ -529,14 +730,12 @@ async function fetchMassiveQuote(ticker: string): Promise<RawQuote | null> {
       return null;
     }
 
-    const now = new Date();
-    const end = now.toISOString().slice(0, 10);
-    const startDate = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
-    const start = startDate.toISOString().slice(0, 10);
+    // Today (when trading) plus the last two completed trading days; the newest two bars are price and prevClose
+    const { from: start, to: end } = buildTradingDayQuery(2);
 
     const url = `${baseUrl}/v2/aggs/ticker/${encodeURIComponent(ticker)}/range/1/day/${start}/${end}?adjusted=true&sort=desc&limit=2&apiKey=${encodeURIComponent(apiKey)}`;
 
-    const res = await fetch(url);
+    const res = await requestScheduler.fetch('massive', url);
     if (!res.ok) {
       const txt = await res.text();
       console.error(`Massive quote error for ${ticker}: ${res.status} ${txt}`);
@@ -576,7 +775,10 @@ async function fetchMassiveQuote(ticker: string): Promise<RawQuote | null> {
 }
 
 const massivePriceProvider: PriceDataProvider = {
+  id: 'massive',
   name: 'Massive',
+  rateLimitBucket: 'massive',
+  isConfigured: () => !!Deno.env.get('MASSIVE_API_KEY') && !!Deno.env.get('MASSIVE_API_BASE_URL'),
   async fetchQuotes(tickers: string[], _request: ScanRequest): Promise<RawQuote[]> {
     console.log(`[MassivePriceProvider] Fetching quotes for ${tickers.length} tickers`);
     
@@ -594,226 +796,655 @@ const massivePriceProvider: PriceDataProvider = {
     }
 
     console.log(`[MassivePriceProvider] Retrieved ${quotes.length} valid quotes`);
+    if (tickers.length > 0 && quotes.length === 0) {
+      throw new Error('Massive returned no quotes');
+    }
     return quotes;
   }
 };
 
-// ============================================================================
-// ACTIVE PROVIDER REGISTRATION
-// ============================================================================
+const MASSIVE_SNAPSHOT_CHUNK_SIZE = 250;
 
-const activePriceProviders: PriceDataProvider[] = [
-  finnhubPriceProvider,
-  massivePriceProvider, // Massive (formerly Polygon) price source
-];
-const activeNewsProviders: NewsDataProvider[] = [
-  finnhubNewsProvider,
-  benzingaNewsProvider, // Benzinga Pro news source
-];
-const activeFundamentalsProviders: FundamentalsDataProvider[] = [finnhubFundamentalsProvider];
+interface MassiveSnapshotRow {
+  ticker?: string;
+  updated?: number; // Unix ns
+  lastTrade?: { p?: number };
+  day?: { o?: number; c?: number; v?: number };
+  prevDay?: { c?: number };
+}
 
-// TODO: Add IEXPriceProvider, AlphaVantagePriceProvider, etc.
-// TODO: Add MassiveNewsProvider, etc.
-// TODO: Add MassiveFundamentalsProvider, AlphaVantageFundamentalsProvider, etc.
+/**
+ * Fetch current-day snapshots for many tickers in one Massive call
+ */
+async function fetchMassiveSnapshots(tickers: string[]): Promise<RawQuote[]> {
+  const baseUrl = getMassiveBaseUrl();
+  const apiKey = getMassiveApiKey();
+  if (!baseUrl || !apiKey) return [];
+
+  const url = `${baseUrl}/v2/snapshot/locale/us/markets/stocks/tickers?tickers=${encodeURIComponent(tickers.join(','))}&apiKey=${encodeURIComponent(apiKey)}`;
+  const res = await requestScheduler.fetch('massive', url);
+  if (!res.ok) {
+    throw new Error(`Massive snapshot error: ${res.status}`);
+  }
 
-// ============================================================================
-// UNIVERSE MODULE
-// ============================================================================
+  const data = await res.json();
+  const rows: MassiveSnapshotRow[] = Array.isArray(data.tickers) ? data.tickers : [];
+  const quotes: RawQuote[] = [];
+
+  for (const row of rows) {
+    if (typeof row.ticker !== 'string') continue;
+    const lastTrade = typeof row.lastTrade?.p === 'number' ? row.lastTrade.p : null;
+    const dayClose = typeof row.day?.c === 'number' && row.day.c > 0 ? row.day.c : null;
+    const prevClose = typeof row.prevDay?.c === 'number' && row.prevDay.c > 0 ? row.prevDay.c : null;
+    const open = typeof row.day?.o === 'number' && row.day.o > 0 ? row.day.o : null; // 0 before the open
+    const volume = typeof row.day?.v === 'number' && row.day.v > 0 ? row.day.v : null;
 
-const TICKER_UNIVERSE: TickerMeta[] = [
-  { symbol: 'AAPL', sector: 'Technology', capBucket: 'large' },
-  { symbol: 'TSLA', sector: 'Consumer', capBucket: 'large' },
-  { symbol: 'NVDA', sector: 'Technology', capBucket: 'large' },
-  { symbol: 'AMD', sector: 'Technology', capBucket: 'large' },
-  { symbol: 'SMCI', sector: 'Technology', capBucket: 'mid' },
-  { symbol: 'PLTR', sector: 'Technology', capBucket: 'mid' },
-  { symbol: 'TQQQ', sector: 'ETF', capBucket: 'mid' },
-  { symbol: 'SOXL', sector: 'ETF', capBucket: 'mid' },
-  { symbol: 'IWM', sector: 'ETF', capBucket: 'large' },
-  { symbol: 'RIOT', sector: 'Crypto', capBucket: 'small' },
-  { symbol: 'MARA', sector: 'Crypto', capBucket: 'small' },
-  { symbol: 'HUDI', sector: 'Industrial', capBucket: 'micro' },
-  { symbol: 'IONQ', sector: 'Technology', capBucket: 'small' },
-  { symbol: 'DNA', sector: 'Biotech', capBucket: 'small' },
-  { symbol: 'JOBY', sector: 'Industrial', capBucket: 'small' },
-  { symbol: 'ASTS', sector: 'Communications', capBucket: 'small' },
-  { symbol: 'GME', sector: 'Consumer', capBucket: 'mid' },
-  { symbol: 'AMC', sector: 'Consumer', capBucket: 'mid' },
-  { symbol: 'CVNA', sector: 'Consumer', capBucket: 'mid' },
-  { symbol: 'FFIE', sector: 'Consumer', capBucket: 'micro' },
-  { symbol: 'SOUN', sector: 'Technology', capBucket: 'small' },
-  { symbol: 'AI', sector: 'Technology', capBucket: 'mid' }
-];
-
-function buildLiveUniverse(request: ScanRequest): TickerMeta[] {
-  const { filters } = request;
-  let pool = TICKER_UNIVERSE;
-
-  if (filters.marketCap !== 'any') {
-    pool = pool.filter(meta => meta.capBucket === filters.marketCap);
+    quotes.push({
+      source: 'massive',
+      ticker: row.ticker,
+      price: lastTrade ?? dayClose, // Last trade includes pre-market and after-hours trades
+      prevClose,
+      open,
+      volume,
+      timestamp: typeof row.updated === 'number' ? Math.floor(row.updated / 1_000_000) : null, // ns -> ms
+    });
   }
+  return quotes;
+}
 
-  if (filters.sectors && filters.sectors.length > 0) {
-    pool = pool.filter(meta => filters.sectors.includes(meta.sector));
+/**
+ * Bulk snapshot price source: one call per 250 tickers instead of one per ticker,
+ * which keeps the stage-1 snapshot affordable over large universes
+ */
+const massiveSnapshotProvider: PriceDataProvider = {
+  id: 'massive-snapshot',
+  name: 'Massive Snapshot',
+  rateLimitBucket: 'massive',
+  isConfigured: () => !!Deno.env.get('MASSIVE_API_KEY') && !!Deno.env.get('MASSIVE_API_BASE_URL'),
+  async fetchQuotes(tickers: string[], _request: ScanRequest): Promise<RawQuote[]> {
+    console.log(`[MassiveSnapshotProvider] Fetching snapshots for ${tickers.length} tickers`);
+
+    const chunks: string[][] = [];
+    for (let i = 0; i < tickers.length; i += MASSIVE_SNAPSHOT_CHUNK_SIZE) {
+      chunks.push(tickers.slice(i, i + MASSIVE_SNAPSHOT_CHUNK_SIZE));
+    }
+
+    const results = await Promise.allSettled(chunks.map(chunk => fetchMassiveSnapshots(chunk)));
+    const quotes: RawQuote[] = [];
+    for (const result of results) {
+      if (result.status === 'fulfilled') {
+        quotes.push(...result.value);
+      } else {
+        console.error('[MassiveSnapshotProvider] Error:', result.reason);
+      }
+    }
+
+    console.log(`[MassiveSnapshotProvider] Retrieved ${quotes.length} snapshots`);
+    if (tickers.length > 0 && quotes.length === 0) {
+      throw new Error('Massive returned no snapshots');
+    }
+    return quotes;
   }
+};
 
-  return pool.slice(0, 40);
+interface MassiveFloatRow {
+  free_float?: number;
+  effective_date?: string;
 }
 
-// ============================================================================
-// DATA AGGREGATION HELPERS
-// ============================================================================
+interface MassiveShortInterestRow {
+  short_interest?: number;
+  days_to_cover?: number;
+  settlement_date?: string;
+}
+
+/**
+ * Free float and the latest short interest settlement for one ticker
+ */
+async function fetchMassiveShortData(ticker: string): Promise<FundamentalSnapshot | null> {
+  const baseUrl = getMassiveBaseUrl();
+  const apiKey = getMassiveApiKey();
+  if (!baseUrl || !apiKey) return null;
+
+  const symbol = encodeURIComponent(ticker);
+  const key = encodeURIComponent(apiKey);
+  const [floatRes, shortRes] = await Promise.all([
+    requestScheduler.fetch('massive', `${baseUrl}/stocks/vX/float?ticker=${symbol}&apiKey=${key}`),
+    requestScheduler.fetch('massive', `${baseUrl}/stocks/v1/short-interest?ticker=${symbol}&sort=settlement_date.desc&limit=1&apiKey=${key}`),
+  ]);
+  if (!floatRes.ok && !shortRes.ok) {
+    console.error(`Massive short data error for ${ticker}: float ${floatRes.status}, short interest ${shortRes.status}`);
+    return null;
+  }
 
-function mergeRawQuotes(quotes: RawQuote[]): RawQuote | null {
-  if (!quotes || quotes.length === 0) return null;
+  const floatRow: MassiveFloatRow | undefined = floatRes.ok ? (await floatRes.json()).results?.[0] : undefined;
+  const shortRow: MassiveShortInterestRow | undefined = shortRes.ok ? (await shortRes.json()).results?.[0] : undefined;
 
-  const valid = quotes.filter(q => q && q.price != null && q.prevClose != null);
-  if (!valid.length) return quotes[0] ?? null;
+  const float = typeof floatRow?.free_float === 'number' && floatRow.free_float > 0 ? floatRow.free_float : null;
+  const shortInterest = typeof shortRow?.short_interest === 'number' ? shortRow.short_interest : null;
+  const daysToCover = typeof shortRow?.days_to_cover === 'number' ? shortRow.days_to_cover : null;
+  if (float == null && shortInterest == null && daysToCover == null) return null;
 
-  const sorted = [...valid].sort((a, b) => {
-    const ta = a.timestamp ?? 0;
-    const tb = b.timestamp ?? 0;
-    return tb - ta;
-  });
+  return {
+    ticker,
+    marketCap: null,
+    float,
+    sector: null,
+    shortInterest,
+    daysToCover,
+    source: 'massive-short-interest',
+    fetchedAt: Date.now(),
+  };
+}
 
-  const primary = sorted[0];
-  let volume = primary.volume;
-  if (volume == null) {
-    // Prefer volume from other valid quotes first
-    for (const q of sorted) {
-      if (q.volume != null && q.volume > 0) {
-        volume = q.volume;
-        break;
+/**
+ * Free float, short interest and days-to-cover (exchange-reported, twice a month)
+ */
+const massiveShortInterestProvider: FundamentalsDataProvider = {
+  id: 'massive-short-interest',
+  name: 'Massive Float & Short Interest',
+  rateLimitBucket: 'massive',
+  isConfigured: () => !!Deno.env.get('MASSIVE_API_KEY') && !!Deno.env.get('MASSIVE_API_BASE_URL'),
+  async fetchFundamentals(tickers: string[], _request: ScanRequest): Promise<FundamentalSnapshot[]> {
+    console.log(`[MassiveShortInterestProvider] Fetching float and short interest for ${tickers.length} tickers`);
+
+    const results = await Promise.allSettled(tickers.map(ticker => fetchMassiveShortData(ticker)));
+
+    const snapshots: FundamentalSnapshot[] = [];
+    for (const result of results) {
+      if (result.status === 'fulfilled' && result.value) {
+        snapshots.push(result.value);
+      } else if (result.status === 'rejected') {
+        console.error('[MassiveShortInterestProvider] Error:', result.reason);
       }
     }
-  }
-  if (volume == null) {
-    // As a last resort, scan all quotes (even partial ones) for any non-null volume
-    for (const q of quotes) {
-      if (q && q.volume != null && q.volume > 0) {
-        volume = q.volume;
-        break;
-      }
+
+    console.log(`[MassiveShortInterestProvider] Retrieved ${snapshots.length} snapshots`);
+    if (tickers.length > 0 && snapshots.length === 0) {
+      throw new Error('Massive returned no float or short interest data');
     }
+    return snapshots;
+  }
+};
+
+// ============================================================================
+// BORROW FEE PROVIDER IMPLEMENTATIONS
+// ============================================================================
+
+const IBORROWDESK_BASE_URL = 'https://iborrowdesk.com/api/ticker';
+
+interface IBorrowDeskRow {
+  fee?: number;       // Annualized percent
+  available?: number; // Shares available to borrow
+  date?: string;
+}
+
+/**
+ * Latest borrow fee for one ticker from iBorrowDesk (Interactive Brokers availability data)
+ */
+async function fetchBorrowFee(ticker: string): Promise<FundamentalSnapshot | null> {
+  const res = await requestScheduler.fetch('iborrowdesk', `${IBORROWDESK_BASE_URL}/${encodeURIComponent(ticker)}`);
+  if (!res.ok) {
+    console.error(`iBorrowDesk error for ${ticker}: ${res.status}`);
+    return null;
   }
 
-  return { ...primary, volume };
+  const data = await res.json();
+  const rows: IBorrowDeskRow[] = Array.isArray(data.real_time) && data.real_time.length > 0
+    ? data.real_time
+    : Array.isArray(data.daily) ? data.daily : [];
+  const latest = rows[rows.length - 1];
+  if (typeof latest?.fee !== 'number') return null;
+
+  return {
+    ticker,
+    marketCap: null,
+    float: null,
+    sector: null,
+    borrowFeePercent: latest.fee,
+    source: 'iborrowdesk',
+    fetchedAt: Date.now(),
+  };
 }
 
-function mergeFundamentals(snapshots: FundamentalSnapshot[]): FundamentalSnapshot | null {
-  if (!snapshots || snapshots.length === 0) return null;
+/**
+ * Borrow fee source; no API key, but an unofficial endpoint, so disabled by default
+ * (enable with SCAN_PROVIDER_IBORROWDESK_ENABLED=true)
+ */
+const borrowFeeProvider: FundamentalsDataProvider = {
+  id: 'iborrowdesk',
+  name: 'iBorrowDesk Borrow Fees',
+  rateLimitBucket: 'iborrowdesk',
+  async fetchFundamentals(tickers: string[], _request: ScanRequest): Promise<FundamentalSnapshot[]> {
+    console.log(`[BorrowFeeProvider] Fetching borrow fees for ${tickers.length} tickers`);
+
+    const results = await Promise.allSettled(tickers.map(ticker => fetchBorrowFee(ticker)));
 
-  const base = snapshots[0];
-  let merged: FundamentalSnapshot = { ...base };
+    const snapshots: FundamentalSnapshot[] = [];
+    for (const result of results) {
+      if (result.status === 'fulfilled' && result.value) {
+        snapshots.push(result.value);
+      } else if (result.status === 'rejected') {
+        console.error('[BorrowFeeProvider] Error:', result.reason);
+      }
+    }
 
-  for (const snap of snapshots.slice(1)) {
-    if (snap.marketCap != null && merged.marketCap == null) merged.marketCap = snap.marketCap;
-    if (snap.float != null && merged.float == null) merged.float = snap.float;
-    if (snap.sector != null && merged.sector == null) merged.sector = snap.sector;
+    console.log(`[BorrowFeeProvider] Retrieved ${snapshots.length} borrow fees`);
+    if (tickers.length > 0 && snapshots.length === 0) {
+      throw new Error('iBorrowDesk returned no borrow fees');
+    }
+    return snapshots;
   }
+};
 
-  return merged;
+// ============================================================================
+// CANDLE PROVIDER IMPLEMENTATIONS
+// ============================================================================
+
+/**
+ * Build a CandleDataProvider from a per-ticker candle fetcher
+ * Throws when every ticker came back empty so the registry can track failures.
+ */
+function createCandleProvider(
+  id: string,
+  name: string,
+  rateLimitBucket: string,
+  isConfigured: () => boolean,
+  fetchOne: (ticker: string, query: CandleQuery) => Promise<Candle[]>,
+): CandleDataProvider {
+  return {
+    id,
+    name,
+    rateLimitBucket,
+    isConfigured,
+    async fetchCandles(tickers: string[], query: CandleQuery, _request: ScanRequest): Promise<CandleSeries[]> {
+      console.log(`[${name}] Fetching ${query.resolution} candles for ${tickers.length} tickers`);
+
+      const results = await Promise.allSettled(
+        tickers.map(async ticker => ({ ticker, candles: await fetchOne(ticker, query) }))
+      );
+
+      const series: CandleSeries[] = [];
+      for (const result of results) {
+        if (result.status === 'fulfilled' && result.value.candles.length > 0) {
+          series.push({ source: id, resolution: query.resolution, ...result.value });
+        }
+      }
+
+      console.log(`[${name}] Retrieved candles for ${series.length} tickers`);
+      if (tickers.length > 0 && series.length === 0) {
+        throw new Error(`${name} returned no candles`);
+      }
+      return series;
+    }
+  };
 }
 
+const finnhubCandleProvider = createCandleProvider(
+  'finnhub-candles', 'Finnhub Candles', 'finnhub', isFinnhubConfigured, fetchFinnhubCandles,
+);
+
+const massiveCandleProvider = createCandleProvider(
+  'massive-candles',
+  'Massive Candles',
+  'massive',
+  () => !!Deno.env.get('MASSIVE_API_KEY') && !!Deno.env.get('MASSIVE_API_BASE_URL'),
+  fetchMassiveCandles,
+);
+
 // ============================================================================
-// SCORING LOGIC
+// SYMBOL LIST PROVIDER IMPLEMENTATIONS
 // ============================================================================
 
-function deriveScoreBreakdown(changePercent: number, volume: number | null): ScoreBreakdown {
-  const absChange = Math.abs(changePercent);
-  const volFactor = volume && volume > 1_000_000 ? 1 : 0.7;
+const FINNHUB_SYMBOL_TYPES = new Set(['Common Stock', 'ETP', 'ADR']);
 
-  let momentum = Math.min(100, absChange * 5 * volFactor);
-  let structure = Math.max(30, Math.min(95, momentum));
-  let catalysts = Math.max(10, Math.min(90, momentum - 5));
+/**
+ * Full US listing from Finnhub /stock/symbol (one call, names and exchanges only)
+ */
+const finnhubSymbolProvider: SymbolListProvider = {
+  id: 'finnhub-symbols',
+  name: 'Finnhub Symbols',
+  rateLimitBucket: 'finnhub',
+  isConfigured: isFinnhubConfigured,
+  async fetchSymbols(): Promise<TickerMeta[]> {
+    const apiKey = getFinnhubApiKey();
+    const res = await requestScheduler.fetch('finnhub', `${FINNHUB_BASE_URL}/stock/symbol?exchange=US&token=${apiKey}`);
+    if (!res.ok) {
+      throw new Error(`Finnhub symbol list error: ${res.status}`);
+    }
 
-  const sentimentScore = changePercent >= 0 ? 60 + absChange : 40 - absChange;
+    const data = await res.json();
+    const rows: Array<Record<string, string>> = Array.isArray(data) ? data : [];
+    const symbols = rows
+      .filter(row => typeof row.symbol === 'string' && FINNHUB_SYMBOL_TYPES.has(row.type))
+      .map(row => ({
+        symbol: row.symbol,
+        name: row.description || undefined,
+        exchange: row.mic || undefined,
+      }));
+
+    console.log(`[FinnhubSymbolProvider] Loaded ${symbols.length} symbols`);
+    if (symbols.length === 0) {
+      throw new Error('Finnhub returned no symbols');
+    }
+    return symbols;
+  }
+};
 
-  return {
-    catalysts: Math.round(catalysts),
-    momentum: Math.round(momentum),
-    structure: Math.round(structure),
-    sentiment: Math.max(0, Math.min(100, Math.round(sentimentScore)))
-  };
+/**
+ * Read a local file, or fetch it when the path is an http(s) URL
+ */
+async function readTextSource(path: string, label: string): Promise<string> {
+  if (/^https?:\/\//.test(path)) {
+    const res = await fetch(path);
+    if (!res.ok) {
+      throw new Error(`${label} fetch error: ${res.status}`);
+    }
+    return await res.text();
+  }
+  return await Deno.readTextFile(path);
 }
 
-function deriveLabels(changePercent: number): { momentumGrade: MomentumGrade; sentiment: Sentiment; riskLevel: RiskLevel } {
-  const absChange = Math.abs(changePercent);
-  let momentumGrade: MomentumGrade = 'D';
-  if (absChange > 15) momentumGrade = 'A';
-  else if (absChange > 8) momentumGrade = 'B';
-  else if (absChange > 3) momentumGrade = 'C';
+/**
+ * Symbol list CSV snapshot from SCAN_UNIVERSE_CSV_PATH (local file or URL)
+ */
+const csvSymbolProvider: SymbolListProvider = {
+  id: 'csv-symbols',
+  name: 'CSV Symbol Snapshot',
+  isConfigured: () => !!Deno.env.get('SCAN_UNIVERSE_CSV_PATH'),
+  async fetchSymbols(): Promise<TickerMeta[]> {
+    const path = Deno.env.get('SCAN_UNIVERSE_CSV_PATH')!;
+    const text = await readTextSource(path, 'Symbol CSV');
+
+    const symbols = parseSymbolCsv(text);
+    console.log(`[CsvSymbolProvider] Loaded ${symbols.length} symbols from ${path}`);
+    if (symbols.length === 0) {
+      throw new Error('Symbol CSV snapshot is empty');
+    }
+    return symbols;
+  }
+};
+
+/**
+ * Biotech event calendar (PDUFA dates, AdComs, trial readouts) from
+ * SCAN_BIOTECH_EVENTS_PATH (local JSON or CSV file, or URL; see biotech.ts)
+ */
+const localBiotechEventProvider: BiotechEventProvider = {
+  id: 'local-biotech-events',
+  name: 'Biotech Event Calendar',
+  isConfigured: () => !!Deno.env.get('SCAN_BIOTECH_EVENTS_PATH'),
+  async fetchBiotechEvents(tickers: string[], query: CalendarQuery, _request: ScanRequest): Promise<BiotechEvent[]> {
+    const path = Deno.env.get('SCAN_BIOTECH_EVENTS_PATH')!;
+    const text = await readTextSource(path, 'Biotech events');
+
+    const events = parseBiotechEvents(text, 'local-biotech-events');
+    const matching = eventsInWindow(events, tickers, query);
+    console.log(`[LocalBiotechEventProvider] Loaded ${events.length} events from ${path}, ${matching.length} for ${tickers.length} tickers`);
+    return matching;
+  }
+};
+
+/**
+ * Last session's close and volume for every US ticker from Massive grouped daily bars
+ * One call covers the whole market, which is what makes volume ranking and price
+ * pre-filtering affordable. Starts at the last completed trading day and walks
+ * back a few trading days in case the vendor has not published it yet.
+ */
+const massiveGroupedDailyProvider: SymbolListProvider = {
+  id: 'massive-grouped',
+  name: 'Massive Grouped Daily',
+  rateLimitBucket: 'massive',
+  isConfigured: () => !!Deno.env.get('MASSIVE_API_KEY') && !!Deno.env.get('MASSIVE_API_BASE_URL'),
+  async fetchSymbols(): Promise<TickerMeta[]> {
+    const baseUrl = getMassiveBaseUrl();
+    const apiKey = getMassiveApiKey();
+    if (!baseUrl || !apiKey) return [];
+
+    const lastCompleted = lastCompletedTradingDay();
+    for (let daysBack = 0; daysBack < 3; daysBack++) {
+      const date = addTradingDays(lastCompleted, -daysBack);
+      const url = `${baseUrl}/v2/aggs/grouped/locale/us/market/stocks/${date}?adjusted=true&apiKey=${encodeURIComponent(apiKey)}`;
 
-  const sentiment: Sentiment = changePercent >= 0 ? 'Long' : 'Short';
+      const res = await requestScheduler.fetch('massive', url);
+      if (!res.ok) {
+        throw new Error(`Massive grouped daily error for ${date}: ${res.status}`);
+      }
+
+      const data = await res.json();
+      const results: Array<Record<string, unknown>> = Array.isArray(data.results) ? data.results : [];
+      if (results.length === 0) continue;
 
-  let riskLevel: RiskLevel = 'Low';
-  if (absChange > 12) riskLevel = 'High';
-  else if (absChange > 5) riskLevel = 'Medium';
+      const symbols = results
+        .filter(r => typeof r.T === 'string')
+        .map(r => ({
+          symbol: r.T as string,
+          lastPrice: typeof r.c === 'number' ? r.c : undefined,
+          lastVolume: typeof r.v === 'number' ? r.v : undefined,
+        }));
 
-  return { momentumGrade, sentiment, riskLevel };
+      console.log(`[MassiveGroupedDailyProvider] Loaded ${symbols.length} symbols for ${date}`);
+      return symbols;
+    }
+
+    throw new Error('Massive returned no grouped daily bars');
+  }
+};
+
+// ============================================================================
+// SEC EDGAR PROVIDER IMPLEMENTATIONS
+// ============================================================================
+
+const SEC_TICKERS_URL = 'https://www.sec.gov/files/company_tickers.json';
+const SEC_SUBMISSIONS_URL = 'https://data.sec.gov/submissions';
+const SEC_ARCHIVES_URL = 'https://www.sec.gov/Archives/edgar/data';
+
+/**
+ * EDGAR rejects requests without a User-Agent naming the requester and a contact address
+ */
+function getSecHeaders(): HeadersInit {
+  const userAgent = Deno.env.get('SEC_USER_AGENT');
+  if (!userAgent) {
+    throw new Error('SEC_USER_AGENT environment variable is not set');
+  }
+  return { 'User-Agent': userAgent, 'Accept': 'application/json' };
 }
 
-function deriveExplosivePotential(score: ScoreBreakdown): number {
-  const base = (score.momentum * 0.4) + (score.structure * 0.3) + (score.catalysts * 0.2) + (score.sentiment * 0.1);
-  return Math.max(0, Math.min(100, Math.round(base)));
+// Ticker -> 10-digit CIK, loaded once per instance (the file changes rarely)
+let secCikByTicker: Promise<Map<string, string>> | null = null;
+
+function loadSecCikMap(): Promise<Map<string, string>> {
+  secCikByTicker ??= (async () => {
+    const res = await requestScheduler.fetch('sec', SEC_TICKERS_URL, { headers: getSecHeaders() });
+    if (!res.ok) {
+      throw new Error(`SEC ticker map error: ${res.status}`);
+    }
+
+    const data: Record<string, Record<string, unknown>> = await res.json();
+    const map = new Map<string, string>();
+    for (const row of Object.values(data ?? {})) {
+      const ticker = nonEmptyString(row.ticker)?.toUpperCase();
+      if (ticker && typeof row.cik_str === 'number') {
+        map.set(ticker, String(row.cik_str).padStart(10, '0'));
+      }
+    }
+    console.log(`[SecEdgarFilingsProvider] Loaded ${map.size} ticker CIKs`);
+    return map;
+  })().catch(err => {
+    secCikByTicker = null; // Retry on the next scan
+    throw err;
+  });
+  return secCikByTicker;
 }
 
-function deriveTags(
-  changePercent: number,
-  volume: number | null,
-  metaSector: string,
-  capBucket: 'micro' | 'small' | 'mid' | 'large'
-): string[] {
-  const tags: string[] = [];
-  const absChange = Math.abs(changePercent);
-
-  if (capBucket === 'micro' || capBucket === 'small') tags.push('Microcap');
-  if (metaSector === 'Crypto') tags.push('Crypto-linked');
-  if (metaSector === 'Technology') tags.push('Tech');
-  if (absChange > 10) tags.push('High Volatility');
-  if (absChange > 20) tags.push('Parabolic Risk');
-  if (volume && volume > 5_000_000) tags.push('High Volume');
-
-  return Array.from(new Set(tags));
+/**
+ * Recent filings for one company from the EDGAR submissions API, inside the query window
+ */
+async function fetchSecFilings(ticker: string, cik: string, query: CalendarQuery): Promise<RawFiling[]> {
+  const res = await requestScheduler.fetch('sec', `${SEC_SUBMISSIONS_URL}/CIK${cik}.json`, { headers: getSecHeaders() });
+  if (!res.ok) {
+    throw new Error(`SEC submissions error for ${ticker}: ${res.status}`);
+  }
+
+  const data = await res.json();
+  const recent = data?.filings?.recent ?? {};
+  const column = (name: string): unknown[] => (Array.isArray(recent[name]) ? recent[name] : []);
+  const forms = column('form');
+  const filingDates = column('filingDate');
+  const acceptedAt = column('acceptanceDateTime');
+  const accessions = column('accessionNumber');
+  const documents = column('primaryDocument');
+  const descriptions = column('primaryDocDescription');
+  const items = column('items');
+
+  const filings: RawFiling[] = [];
+  for (let i = 0; i < forms.length; i++) {
+    const formType = nonEmptyString(forms[i]);
+    const filingDate = nonEmptyString(filingDates[i]);
+    if (!formType || !filingDate || filingDate < query.from || filingDate > query.to) continue;
+
+    const accession = nonEmptyString(accessions[i]);
+    const document = nonEmptyString(documents[i]);
+    filings.push({
+      source: 'sec-edgar',
+      ticker,
+      formType,
+      filedAt: nonEmptyString(acceptedAt[i]) ?? filingDate,
+      url: accession && document ? `${SEC_ARCHIVES_URL}/${Number(cik)}/${accession.replace(/-/g, '')}/${document}` : undefined,
+      items: nonEmptyString(items[i])?.split(',').map(item => item.trim()).filter(item => item !== ''),
+      description: nonEmptyString(descriptions[i]) ?? undefined,
+    });
+  }
+  return filings;
 }
 
-// ============================================================================
-// NEWS/CATALYST PROCESSING
-// ============================================================================
+/**
+ * Offerings, shelf registrations, Form 4 and 8-K filings from SEC EDGAR
+ * Form 4 filings carry no transaction code here; insider direction comes from
+ * the Finnhub insider provider.
+ */
+const secEdgarFilingsProvider: FilingsDataProvider = {
+  id: 'sec-edgar',
+  name: 'SEC EDGAR Filings',
+  rateLimitBucket: 'sec',
+  isConfigured: () => !!Deno.env.get('SEC_USER_AGENT'),
+  async fetchFilings(tickers: string[], query: CalendarQuery, _request: ScanRequest): Promise<RawFiling[]> {
+    console.log(`[SecEdgarFilingsProvider] Fetching filings ${query.from}..${query.to} for ${tickers.length} tickers`);
+
+    const cikByTicker = await loadSecCikMap();
+    const known = tickers.filter(ticker => cikByTicker.has(ticker));
+    const results = await Promise.allSettled(
+      known.map(ticker => fetchSecFilings(ticker, cikByTicker.get(ticker)!, query))
+    );
 
-function buildCatalystFromNews(news: RawNewsItem[]): {
-  catalystSummary: string;
-  primary?: RawNewsItem;
-  catalystTags: string[];
-} {
-  if (!news.length) {
-    return {
-      catalystSummary: 'No recent company-specific news detected in the last few days.',
-      primary: undefined,
-      catalystTags: []
-    };
+    const filings: RawFiling[] = [];
+    for (const result of results) {
+      if (result.status === 'fulfilled') {
+        filings.push(...result.value);
+      }
+    }
+
+    console.log(`[SecEdgarFilingsProvider] Retrieved ${filings.length} filings for ${known.length} tickers with a CIK`);
+    const failures = results.filter((r): r is PromiseRejectedResult => r.status === 'rejected');
+    if (known.length > 0 && failures.length === known.length) {
+      throw failures[0].reason;
+    }
+    return filings;
   }
+};
 
-  // Sort by datetime descending to get the most recent news first
-  const sorted = [...news].sort((a, b) => b.datetime.localeCompare(a.datetime));
-  const primary = sorted[0];
-  const tags: string[] = [];
+/**
+ * Filings fixture from SCAN_FILINGS_FIXTURE_PATH (local JSON file or URL; see filings.ts)
+ * for offline runs; off by default, enable with SCAN_FILINGS_PROVIDERS=fixture-filings
+ */
+const fixtureFilingsProvider: FilingsDataProvider = {
+  id: 'fixture-filings',
+  name: 'Filings Fixture',
+  isConfigured: () => !!Deno.env.get('SCAN_FILINGS_FIXTURE_PATH'),
+  async fetchFilings(tickers: string[], query: CalendarQuery, request: ScanRequest): Promise<RawFiling[]> {
+    const path = Deno.env.get('SCAN_FILINGS_FIXTURE_PATH')!;
+    const filings = parseFilingsFixture(await readTextSource(path, 'Filings fixture'), 'fixture-filings');
+    console.log(`[FixtureFilingsProvider] Loaded ${filings.length} filings from ${path}`);
+    return createFixtureFilingsProvider(filings).fetchFilings(tickers, query, request);
+  }
+};
+
+// ============================================================================
+// ACTIVE PROVIDER REGISTRATION
+// ============================================================================
 
-  const headline = primary.headline.toLowerCase();
-  if (headline.includes('earnings') || headline.includes('q1') || headline.includes('q2') || headline.includes('q3') || headline.includes('q4')) {
-    tags.push('Earnings');
+/**
+ * Response cache in front of every data provider
+ * SCAN_CACHE_STORE selects the store: 'memory' (default), 'postgres' (scan_cache table,
+ * shared across instances) or 'none'.
+ */
+function createProviderCache(): ProviderCache | null {
+  const ttls = loadCacheTtlsFromEnv(key => Deno.env.get(key));
+  const storeName = Deno.env.get('SCAN_CACHE_STORE') ?? 'memory';
+
+  if (storeName === 'none') return null;
+  if (storeName === 'postgres') {
+    const url = Deno.env.get('SUPABASE_URL');
+    const serviceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+    if (url && serviceKey) {
+      return new ProviderCache(new PostgresCacheStore({ url, serviceKey }), ttls);
+    }
+    console.warn('[LiveScan] SCAN_CACHE_STORE=postgres needs SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY; using memory cache');
   }
-  if (headline.includes('guidance')) tags.push('Guidance');
-  if (headline.includes('upgrade') || headline.includes('downgrade')) tags.push('Analyst Action');
-  if (headline.includes('merger') || headline.includes('acquisition')) tags.push('M&A');
-  if (headline.includes('contract') || headline.includes('deal')) tags.push('Contract');
-  if (headline.includes('FDA') || headline.includes('trial') || headline.includes('phase')) tags.push('Biotech Catalyst');
+  return new ProviderCache(new MemoryCacheStore(), ttls);
+}
 
-  const catalystSummary = `Latest news: ${primary.headline} (${new Date(primary.datetime).toLocaleString()}).`;
+const providerCache = createProviderCache();
+
+const cachedQuotes = (p: PriceDataProvider) => (providerCache ? withQuoteCache(p, providerCache) : p);
+const cachedCandles = (p: CandleDataProvider) => (providerCache ? withCandleCache(p, providerCache) : p);
+const cachedNews = (p: NewsDataProvider) => (providerCache ? withNewsCache(p, providerCache) : p);
+const cachedFundamentals = (p: FundamentalsDataProvider) => (providerCache ? withFundamentalsCache(p, providerCache) : p);
+
+// Module-level so provider health and circuit state survive across warm invocations.
+// Settings can be overridden per provider through SCAN_* env vars (see registry.ts).
+const providerRegistry = new ProviderRegistry({
+  ...loadRegistryOptionsFromEnv(key => Deno.env.get(key)),
+  queuedTime: bucket => requestScheduler.queuedTime(bucket),
+})
+  .register('price', cachedQuotes(finnhubPriceProvider), { priority: 0 })
+  .register('price', cachedQuotes(massivePriceProvider), { priority: 1 }) // Massive (formerly Polygon) price source
+  .register('price', cachedQuotes(massiveSnapshotProvider), { priority: 2, enabled: false }) // Bulk alternative to 'massive'
+  .register('candles', cachedCandles(finnhubCandleProvider), { priority: 0 })
+  .register('candles', cachedCandles(massiveCandleProvider), { priority: 1 })
+  .register('news', cachedNews(finnhubNewsProvider), { priority: 0 })
+  .register('news', cachedNews(benzingaNewsProvider), { priority: 1 }) // Benzinga Pro news source
+  .register('fundamentals', cachedFundamentals(finnhubFundamentalsProvider), { priority: 0 })
+  .register('fundamentals', cachedFundamentals(massiveShortInterestProvider), { priority: 1 }) // Free float and short interest
+  .register('fundamentals', cachedFundamentals(borrowFeeProvider), { priority: 2, enabled: false })
+  .register('earnings', finnhubEarningsProvider, { priority: 0 })
+  .register('biotech', localBiotechEventProvider, { priority: 0 })
+  .register('filings', secEdgarFilingsProvider, { priority: 0 })
+  .register('filings', finnhubInsiderProvider, { priority: 1 })
+  .register('filings', fixtureFilingsProvider, { priority: 2, enabled: false })
+  .register('symbols', csvSymbolProvider, { priority: 0 })
+  .register('symbols', finnhubSymbolProvider, { priority: 1, enabled: false })
+  .register('symbols', massiveGroupedDailyProvider, { priority: 2, enabled: false });
+
+// Loaded symbol lists are reused across warm invocations for SCAN_UNIVERSE_TTL_MS.
+const universeCache = new UniverseCache(Number(Deno.env.get('SCAN_UNIVERSE_TTL_MS')) || DEFAULT_UNIVERSE_TTL_MS);
+const universeLimit = Number(Deno.env.get('SCAN_UNIVERSE_LIMIT')) || DEFAULT_UNIVERSE_LIMIT;
+const stage2TopN = Number(Deno.env.get('SCAN_STAGE2_TOP_N')) || DEFAULT_PRESCREEN.topN;
+const scanDeadlineMs = Number(Deno.env.get('SCAN_DEADLINE_MS')) || DEFAULT_SCAN_DEADLINE_MS;
 
-  return { catalystSummary, primary, catalystTags: Array.from(new Set(tags)) };
+/**
+ * Curated tickers followed by every enabled symbol list, one entry per symbol
+ */
+async function loadSymbolUniverse(): Promise<TickerMeta[]> {
+  const listed = await universeCache.get(async () =>
+    mergeSymbolLists(await providerRegistry.run('symbols', provider => provider.fetchSymbols()))
+  );
+  return mergeSymbolLists([...TICKER_UNIVERSE, ...listed]);
 }
 
+// TODO: Add IEXPriceProvider, AlphaVantagePriceProvider, etc.
+// TODO: Add MassiveNewsProvider, etc.
+// TODO: Add AlphaVantageFundamentalsProvider, etc.
+
 // ============================================================================
 // MAIN HANDLER
 // ============================================================================
@@ -828,30 +1459,39 @@ serve(async (req) => {
     return new Response(null, { headers: corsHeaders });
   }
 
+  const scanDeadline = Date.now() + scanDeadlineMs;
+  const endSchedulerScan = requestScheduler.beginScan(scanDeadline);
+
   try {
     const { request } = await req.json() as { request: ScanRequest };
 
-    console.log(`[LiveScan] Starting scan with mode: ${request.mode}`);
+    const scanId = crypto.randomUUID();
+    const startedAt = new Date().toISOString();
+    const timer = new StageTimer();
+    const rateLimitsBefore = requestScheduler.getStats();
+    const cacheBefore = providerCache?.getStats();
+
+    const mode: ScanMode = request.mode === 'extended-hours' ? 'extended-hours' : 'unified';
+    const session = getMarketSession(Date.parse(startedAt));
+
+    console.log(`[LiveScan] Starting scan ${scanId} with mode: ${mode} (${session})`);
 
     // 1. Build ticker universe
-    const metaUniverse = buildLiveUniverse(request);
+    const symbolUniverse = await timer.time('universe', () => loadSymbolUniverse());
+    const { universe: metaUniverse, dropped: universeDropped } = buildLiveUniverse(request, symbolUniverse, universeLimit);
     const tickers = metaUniverse.map(m => m.symbol);
-    console.log(`[LiveScan] Universe size: ${tickers.length} tickers`);
+    console.log(`[LiveScan] Universe size: ${tickers.length} of ${symbolUniverse.length} known tickers`);
+    if (request.tickers?.length) {
+      console.log(`[LiveScan] Using custom universe ${request.universeId ?? '(explicit tickers)'} with ${request.tickers.length} tickers (${universeDropped.length} filtered out or over the cap)`);
+    }
 
-    // 2. Fetch quotes from all active price providers
-    const allQuotesArrays = await Promise.all(
-      activePriceProviders.map(provider => provider.fetchQuotes(tickers, request))
+    // 2. Stage 1 snapshot: quotes from all active price providers
+    const allQuotes = await timer.time('snapshot', () =>
+      providerRegistry.run('price', provider => provider.fetchQuotes(tickers, request))
     );
-    const allQuotes = allQuotesArrays.flat();
 
     // Group quotes by ticker and merge
-    const quotesByTicker = new Map<string, RawQuote[]>();
-    for (const quote of allQuotes) {
-      if (!quotesByTicker.has(quote.ticker)) {
-        quotesByTicker.set(quote.ticker, []);
-      }
-      quotesByTicker.get(quote.ticker)!.push(quote);
-    }
+    const quotesByTicker = groupByTicker(allQuotes);
 
     const mergedQuotes = new Map<string, RawQuote>();
     for (const [ticker, quotes] of quotesByTicker.entries()) {
@@ -863,21 +1503,50 @@ serve(async (req) => {
 
     console.log(`[LiveScan] Merged quotes for ${mergedQuotes.size} tickers`);
 
-    // 3. Fetch fundamentals from all active providers
-    const allFundamentalsArrays = await Promise.all(
-      activeFundamentalsProviders.map(provider => provider.fetchFundamentals(tickers, request))
-    );
-    const allFundamentals = allFundamentalsArrays.flat();
+    const filters = normalizeFilters(request.filters);
+    const scoringModel = normalizeScoringModel(request.scoringModel);
+    const preScreen = normalizePreScreen(request.preScreen, stage2TopN);
+    console.log(`[LiveScan] Scoring with model ${scoringModel.id} v${scoringModel.version}`);
 
-    // Group and merge fundamentals
-    const fundamentalsByTicker = new Map<string, FundamentalSnapshot[]>();
-    for (const fund of allFundamentals) {
-      if (!fundamentalsByTicker.has(fund.ticker)) {
-        fundamentalsByTicker.set(fund.ticker, []);
+    // 2b. Earnings calendar for the quoted tickers, so the earnings filter applies before enrichment
+    const quotedTickers = Array.from(mergedQuotes.keys());
+    const earningsQuery = buildEarningsQuery(filters.earningsWithinDays);
+    const earningsEvents = await timer.time('earnings', () =>
+      providerRegistry.run('earnings', provider => provider.fetchEarnings(quotedTickers, earningsQuery, request))
+    );
+    const upcomingEarnings: Map<string, UpcomingEarnings> = selectUpcomingEarnings(earningsEvents);
+    console.log(`[LiveScan] Upcoming earnings (${earningsQuery.from}..${earningsQuery.to}) for ${upcomingEarnings.size} tickers`);
+
+    // 3. Stage 1: pre-score the snapshot and keep the top candidates for enrichment
+    const { candidates, snapshotCount, dropped: preScreenDropped } = preScreenCandidates(mergedQuotes, metaUniverse, filters, preScreen, upcomingEarnings, mode, Date.parse(startedAt));
+    const dropped = [...universeDropped, ...preScreenDropped];
+    const candidateTickers = candidates.map(c => c.ticker);
+    const enriched = new Set(candidateTickers);
+    console.log(`[LiveScan] Stage 1: ${snapshotCount} snapshots, top ${candidateTickers.length} kept for enrichment`);
+
+    // 3b. Check stage 2 against what each rate-limit bucket can still serve before the deadline
+    const budgetWarnings: string[] = [];
+    const enrichmentCalls = estimateEnrichmentCalls([
+      { providers: providerRegistry.getActive('fundamentals') },
+      { providers: providerRegistry.getActive('filings') },
+      { providers: providerRegistry.getActive('news') },
+      { providers: providerRegistry.getActive('candles'), runs: 2 },
+    ], candidateTickers.length);
+    for (const [bucket, calls] of enrichmentCalls) {
+      const available = requestScheduler.availableCalls(bucket, scanDeadline);
+      if (calls > available) {
+        budgetWarnings.push(`${bucket}: stage 2 needs about ${calls} calls for ${candidateTickers.length} candidates but ${available} fit before the scan deadline; lower SCAN_STAGE2_TOP_N or preScreen.topN`);
       }
-      fundamentalsByTicker.get(fund.ticker)!.push(fund);
     }
 
+    // 4. Stage 2: fundamentals for the candidates (priority order, so merge prefers the first)
+    const allFundamentals = await timer.time('fundamentals', () =>
+      providerRegistry.run('fundamentals', provider => provider.fetchFundamentals(candidateTickers, request))
+    );
+
+    // Group and merge fundamentals
+    const fundamentalsByTicker = groupByTicker(allFundamentals);
+
     const mergedFundamentals = new Map<string, FundamentalSnapshot>();
     for (const [ticker, funds] of fundamentalsByTicker.entries()) {
       const merged = mergeFundamentals(funds);
@@ -888,88 +1557,185 @@ serve(async (req) => {
 
     console.log(`[LiveScan] Merged fundamentals for ${mergedFundamentals.size} tickers`);
 
-    // 4. Identify top movers for news lookup
-    const quotesWithChange: Array<{ ticker: string; absChange: number }> = [];
-    for (const [ticker, quote] of mergedQuotes.entries()) {
-      if (quote.price != null && quote.prevClose != null && quote.prevClose !== 0) {
-        const changePercent = ((quote.price - quote.prevClose) / quote.prevClose) * 100;
-        quotesWithChange.push({ ticker, absChange: Math.abs(changePercent) });
-      }
-    }
-
-    quotesWithChange.sort((a, b) => b.absChange - a.absChange);
-    const topMoverTickers = quotesWithChange.slice(0, 10).map(x => x.ticker);
+    // 4b. Biotech event calendar for the candidates
+    const biotechEvents = await timer.time('biotech', () =>
+      providerRegistry.run('biotech', provider => provider.fetchBiotechEvents(candidateTickers, buildBiotechEventQuery(), request))
+    );
+    const nextBiotechEvents = selectNextBiotechEvents(biotechEvents);
+    const biotechEventBonus = normalizeBiotechEventBonus(scoringModel.biotechEventBonus);
+    console.log(`[LiveScan] Upcoming biotech events for ${nextBiotechEvents.size} tickers`);
+
+    // 4c. Recent SEC filings for the candidates (offerings, insider trades, 8-K events)
+    const filingsQuery = buildFilingsQuery();
+    const recentFilings = await timer.time('filings', () =>
+      providerRegistry.run('filings', provider => provider.fetchFilings(candidateTickers, filingsQuery, request))
+    );
+    const filingsByTicker = summarizeFilings(filingsInWindow(recentFilings, candidateTickers, filingsQuery));
+    console.log(`[LiveScan] Classified ${recentFilings.length} filings (${filingsQuery.from}..${filingsQuery.to}) into signals for ${filingsByTicker.size} tickers`);
 
-    // 5. Fetch news for top movers from all active news providers
-    const allNewsArrays = await Promise.all(
-      activeNewsProviders.map(provider => provider.fetchNews(topMoverTickers, request))
+    // 5. Fetch news for the candidates from all active news providers
+    const allNews = await timer.time('news', () =>
+      providerRegistry.run('news', provider => provider.fetchNews(candidateTickers, request))
     );
-    const allNews = allNewsArrays.flat();
 
-    // Group news by ticker
-    const newsByTicker = new Map<string, RawNewsItem[]>();
-    for (const newsItem of allNews) {
-      if (!newsByTicker.has(newsItem.ticker)) {
-        newsByTicker.set(newsItem.ticker, []);
-      }
-      newsByTicker.get(newsItem.ticker)!.push(newsItem);
+    // Group news by ticker and collapse repeated stories (most recent first)
+    const newsByTicker = new Map<string, NewsCluster[]>();
+    let storyCount = 0;
+    for (const [ticker, items] of groupByTicker(allNews).entries()) {
+      const clusters = clusterNews(items);
+      newsByTicker.set(ticker, clusters);
+      storyCount += clusters.length;
     }
 
-    // Sort news by datetime (most recent first) for each ticker
-    for (const [ticker, items] of newsByTicker.entries()) {
-      items.sort((a, b) => b.datetime.localeCompare(a.datetime));
-      newsByTicker.set(ticker, items);
+    console.log(`[LiveScan] Fetched ${allNews.length} news items (${storyCount} stories) for ${newsByTicker.size} tickers`);
+
+    // 5b. Bar history for indicators: ~1 year of daily bars plus 5-minute bars (VWAP distance)
+    const [dailySeries, intradaySeries] = await timer.time('candles', () => Promise.all([
+      providerRegistry.run('candles', provider => provider.fetchCandles(candidateTickers, buildCandleQuery('D', 260), request)),
+      providerRegistry.run('candles', provider => provider.fetchCandles(candidateTickers, buildCandleQuery('5', 200), request)),
+    ]));
+    const dailyByTicker = groupByTicker(dailySeries);
+    const intradayByTicker = groupByTicker(intradaySeries);
+
+    const indicatorsByTicker = new Map<string, TechnicalIndicators>();
+    const sessionByTicker = new Map<string, SessionMetrics>();
+    const volumeLookbackFrom = recentTradingDaysRange(DAILY_VOLUME_LOOKBACK_TRADING_DAYS, Date.parse(startedAt)).from;
+    for (const ticker of candidateTickers) {
+      const snapshot = mergedQuotes.get(ticker);
+      if (!snapshot) continue;
+      const dailyMerged = mergeCandleSeries(dailyByTicker.get(ticker) ?? []);
+      // Quotes without volume (Finnhub /quote) take it from the daily bars
+      const quote = backfillQuoteVolume(snapshot, dailyMerged, volumeLookbackFrom);
+      mergedQuotes.set(ticker, quote);
+
+      const intraday = mergeCandleSeries(intradayByTicker.get(ticker) ?? [])?.candles ?? [];
+      const sessionMetrics = computeSessionMetrics({ quote, intraday, now: Date.parse(startedAt) });
+      sessionByTicker.set(ticker, sessionMetrics);
+
+      const daily = dailyMerged?.candles ?? [];
+      if (daily.length === 0 || quote.price == null) continue;
+      const indicators = computeTechnicalIndicators({ daily, intraday, price: quote.price, volume: quote.volume, now: Date.parse(startedAt) });
+      // Before the open the daily bars still end with the previous session, so prefer the session-aware gap
+      indicators.gapPercent = sessionMetrics.gapPercent ?? indicators.gapPercent;
+      indicatorsByTicker.set(ticker, indicators);
     }
-
-    console.log(`[LiveScan] Fetched news for ${newsByTicker.size} tickers`);
+    console.log(`[LiveScan] Computed indicators for ${indicatorsByTicker.size} tickers`);
 
     // 6. Build ScanResult array
+    const scoringStartedAt = Date.now();
     const results: ScanResult[] = [];
 
     for (const meta of metaUniverse) {
+      if (!enriched.has(meta.symbol)) continue;
+
       const quote = mergedQuotes.get(meta.symbol);
-      if (!quote || quote.price == null || quote.prevClose == null || quote.prevClose === 0) {
+      const sessionMetrics = sessionByTicker.get(meta.symbol);
+      const regularChange = quote ? computeChangePercent(quote) : null;
+      // Extended-hours mode scores the pre-market or after-hours move when there is one
+      const changePercent = mode === 'extended-hours'
+        ? sessionMetrics?.extendedChangePercent ?? regularChange
+        : regularChange;
+      if (!quote || changePercent == null) {
         continue;
       }
 
-      const changePercent = ((quote.price - quote.prevClose) / quote.prevClose) * 100;
       const fundamentals = mergedFundamentals.get(meta.symbol);
-      const news = newsByTicker.get(meta.symbol) || [];
+      const newsClusters = newsByTicker.get(meta.symbol) || [];
+      const news = newsClusters.map(cluster => cluster.story);
+      const indicators = indicatorsByTicker.get(meta.symbol);
+
+      const { volume, marketCap, float, sector, industry, provenance } = resolveResultFields(quote, fundamentals, meta);
+      const squeeze = buildSqueezeMetrics(fundamentals, float, provenance.float);
 
-      const scoreBreakdown = deriveScoreBreakdown(changePercent, quote.volume);
-      const { momentumGrade, sentiment, riskLevel } = deriveLabels(changePercent);
-      const explosivePotential = deriveExplosivePotential(scoreBreakdown);
-      const baseTags = deriveTags(changePercent, quote.volume, meta.sector, meta.capBucket);
+      const { catalystSummary, primary, catalystTags, analysis } = buildCatalystFromNews(news, {
+        ticker: meta.symbol,
+        companyName: fundamentals?.companyName ?? meta.name,
+      });
+      const primaryCluster = newsClusters.find(cluster => cluster.story === primary);
 
-      const { catalystSummary, primary, catalystTags } = buildCatalystFromNews(news);
-      const finalTags = Array.from(new Set([...baseTags, ...catalystTags]));
+      const earnings = upcomingEarnings.get(meta.symbol);
+      const biotechEvent = nextBiotechEvents.get(meta.symbol);
+      const filings = filingsByTicker.get(meta.symbol);
 
-      const marketCap = fundamentals?.marketCap ?? 1_000_000_000;
-      const float = fundamentals?.float ?? marketCap / 100;
-      const sector = fundamentals?.sector ?? meta.sector;
+      const { scoreBreakdown, scoreDrivers } = deriveScoreBreakdown({
+        changePercent,
+        volume: quote.volume,
+        indicators,
+        catalyst: analysis,
+        earnings,
+        biotechEvent,
+        biotechEventBonus,
+        squeeze,
+      });
+      const labels = deriveLabels(changePercent);
+      const { momentumGrade, sentiment } = labels;
+      const filingsRisk = assessFilingsRisk(filings, labels.riskLevel);
+      const { riskLevel } = filingsRisk;
+      const explosivePotential = deriveExplosivePotential(scoreBreakdown, scoringModel);
+      const relativeVolume = indicators?.relativeVolume ?? null;
+      const capBucket = fundamentals?.marketCap != null ? getMarketCapBucket(fundamentals.marketCap) : meta.capBucket;
+      const baseTags = deriveTags(changePercent, quote.volume, sector, capBucket, relativeVolume, isSqueezeSetup(squeeze));
+
+      const eventTags = [
+        ...(reportsWithin(earnings, EARNINGS_SOON_DAYS) ? ['Earnings Soon'] : []),
+        ...(isBiotechEventInWindow(biotechEvent, biotechEventBonus) ? ['Biotech Catalyst'] : []),
+        ...filingsRisk.tags,
+        ...deriveSessionTags(sessionMetrics),
+      ];
+      const finalTags = Array.from(new Set([...baseTags, ...catalystTags, ...eventTags]));
 
       const result: ScanResult = {
         ticker: meta.symbol,
-        companyName: meta.symbol,
+        companyName: fundamentals?.companyName ?? meta.name ?? meta.symbol,
+        exchange: fundamentals?.exchange ?? meta.exchange,
+        logoUrl: fundamentals?.logoUrl ?? undefined,
+        website: fundamentals?.website ?? undefined,
+        ipoDate: fundamentals?.ipoDate ?? undefined,
         price: quote.price,
         changePercent,
-        volume: quote.volume ?? 0,
+        volume,
+        relativeVolume: relativeVolume ?? undefined,
+        session,
+        gapPercent: sessionMetrics?.gapPercent ?? undefined,
+        preMarketVolume: sessionMetrics?.preMarketVolume ?? undefined,
+        afterHoursVolume: sessionMetrics?.afterHoursVolume ?? undefined,
+        extendedChangePercent: sessionMetrics?.extendedChangePercent ?? undefined,
         marketCap,
         float,
         sector,
-        scanMode: 'unified',
+        industry,
+        sharesOutstanding: squeeze.sharesOutstanding ?? undefined,
+        shortInterest: squeeze.shortInterest ?? undefined,
+        shortPercentOfFloat: squeeze.shortPercentOfFloat ?? undefined,
+        daysToCover: squeeze.daysToCover ?? undefined,
+        borrowFeePercent: squeeze.borrowFeePercent ?? undefined,
+        scanMode: mode,
         catalystSummary,
         momentumGrade,
         explosivePotential,
         scoreBreakdown,
+        scoringModel: toScoringModelRef(scoringModel),
         sentiment,
         riskLevel,
-        riskNotes: riskLevel === 'High' ? 'Extreme volatility detected' : 'Monitor closely',
+        riskNotes: [
+          labels.riskLevel === 'High' ? 'Extreme volatility detected' : 'Monitor closely',
+          ...filingsRisk.riskNotes,
+        ].join('. '),
         whyItMightMove: `${changePercent >= 0 ? 'Upward' : 'Downward'} momentum with ${Math.abs(changePercent).toFixed(1)}% move`,
         tags: finalTags,
+        atrPercent: indicators?.atrPercent ?? undefined,
+        historicalVolatility: indicators?.historicalVolatility ?? undefined,
+        indicators,
+        scoreDrivers,
         primaryNewsHeadline: primary?.headline,
         primaryNewsUrl: primary?.url,
         primaryNewsDatetime: primary?.datetime,
+        primaryNewsSources: primaryCluster?.sources,
+        news: buildNewsTimeline(analysis, newsClusters),
+        earnings,
+        biotechEvent,
+        filings,
+        provenance,
       };
 
       // Log volume for debugging
@@ -980,50 +1746,70 @@ serve(async (req) => {
       results.push(result);
     }
 
-    // Apply comprehensive filters
-    let filtered = results;
+    // Apply comprehensive filters (shared with the mock engine)
+    const filtered = applyFiltersToResults(results, filters);
 
-    // Helper function to get market cap bucket
-    function getMarketCapBucket(marketCap: number): 'micro' | 'small' | 'mid' | 'large' {
-      if (marketCap < 300_000_000) return 'micro';
-      if (marketCap < 2_000_000_000) return 'small';
-      if (marketCap < 10_000_000_000) return 'mid';
-      return 'large';
-    }
+    // Sort by explosivePotential
+    filtered.sort((a, b) => b.explosivePotential - a.explosivePotential);
 
-    // Apply market cap filter
-    if (request.filters.marketCap !== 'any') {
-      filtered = filtered.filter(r => {
-        const bucket = getMarketCapBucket(r.marketCap);
-        return bucket === request.filters.marketCap;
-      });
-    }
+    timer.record('scoring', Date.now() - scoringStartedAt);
 
-    // Apply price filters
-    if (request.filters.minPrice != null) {
-      filtered = filtered.filter(r => r.price >= request.filters.minPrice!);
-    }
+    console.log(`[LiveScan] Returning ${filtered.length} results after filtering from ${results.length} total`);
 
-    if (request.filters.maxPrice != null) {
-      filtered = filtered.filter(r => r.price <= request.filters.maxPrice!);
+    const kept = new Set(filtered.map(r => r.ticker));
+    for (const result of results) {
+      if (!kept.has(result.ticker)) dropped.push({ ticker: result.ticker, reason: 'filtered' });
     }
 
-    // Apply volume filter
-    if (request.filters.minVolume != null) {
-      filtered = filtered.filter(r => r.volume >= request.filters.minVolume!);
-    }
+    const providers = providerRegistry.getHealth();
+    const rateLimits = diffSchedulerStats(rateLimitsBefore, requestScheduler.getStats());
+    const cacheAfter = providerCache?.getStats();
 
-    // Apply sector filter
-    if (request.filters.sectors && request.filters.sectors.length > 0) {
-      filtered = filtered.filter(r => request.filters.sectors.includes(r.sector));
+    const warnings = [...buildProviderWarnings(providers), ...budgetWarnings];
+    const noQuote = dropped.filter(d => d.reason === 'no_quote').length;
+    if (noQuote > 0) {
+      warnings.push(`${noQuote} of ${tickers.length} tickers had no quote from any price provider`);
+    }
+    for (const { bucket, throttled, dropped: droppedCalls } of rateLimits) {
+      if (throttled > 0 || droppedCalls > 0) {
+        warnings.push(`${bucket}: ${throttled} calls rate limited, ${droppedCalls} dropped`);
+      }
+    }
+    for (const warning of warnings) {
+      console.warn(`[LiveScan] ${warning}`);
     }
 
-    // Sort by explosivePotential
-    filtered.sort((a, b) => b.explosivePotential - a.explosivePotential);
-
-    console.log(`[LiveScan] Returning ${filtered.length} results after filtering from ${results.length} total`);
+    const response: ScanResponse = {
+      version: SCAN_RESPONSE_VERSION,
+      scanId,
+      dataMode: 'live',
+      startedAt,
+      session,
+      results: filtered,
+      diagnostics: {
+        stages: {
+          universe: tickers.length,
+          snapshot: snapshotCount,
+          enriched: candidateTickers.length,
+          results: filtered.length,
+        },
+        timingsMs: timer.toJSON(),
+        providers,
+        rateLimits,
+        cache: providerCache && cacheBefore && cacheAfter
+          ? {
+              store: providerCache.storeName,
+              hits: cacheAfter.hits - cacheBefore.hits,
+              misses: cacheAfter.misses - cacheBefore.misses,
+              errors: cacheAfter.errors - cacheBefore.errors,
+            }
+          : undefined,
+        dropped,
+        warnings,
+      },
+    };
 
-    return new Response(JSON.stringify(filtered), {
+    return new Response(JSON.stringify(response), {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
     });
 
@@ -1036,5 +1822,7 @@ serve(async (req) => {
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
       }
     );
+  } finally {
+    endSchedulerScan();
   }
 });
@@ -0,0 +1,32 @@
+-- Shared response cache for the live-scan edge function (PostgresCacheStore).
+-- Rows are written and read with the service role key; clients have no access.
+
+create table if not exists public.scan_cache (
+  key text primary key,
+  value jsonb not null,
+  expires_at timestamptz not null
+);
+
+create index if not exists scan_cache_expires_at_idx on public.scan_cache (expires_at);
+
+alter table public.scan_cache enable row level security;
+
+-- Expired rows are ignored on read; this removes them in bulk.
+create or replace function public.purge_expired_scan_cache()
+returns integer
+language sql
+as $$
+  with deleted as (
+    delete from public.scan_cache where expires_at <= now() returning 1
+  )
+  select count(*)::integer from deleted;
+$$;
+
+-- Purge expired rows every 15 minutes (pg_cron; re-scheduling by name replaces the job).
+create extension if not exists pg_cron;
+
+select cron.schedule(
+  'purge-expired-scan-cache',
+  '*/15 * * * *',
+  $$select public.purge_expired_scan_cache()$$
+);